@@ -0,0 +1,75 @@
+import { AvailabilityIndex, forEachSet, isFull } from './availability';
+import { BitSet } from './peer';
+
+describe('AvailabilityIndex', () => {
+  const bitfieldOf = (size: number, pieces: number[]) => {
+    const bitfield = new BitSet(size);
+    pieces.forEach(piece => bitfield.set(piece));
+    return bitfield;
+  };
+
+  test('counts peers per piece', () => {
+    const index = new AvailabilityIndex(4);
+
+    index.addBitfield(bitfieldOf(4, [0, 1]));
+    index.addBitfield(bitfieldOf(4, [1, 2]));
+    index.increment(3);
+
+    expect([0, 1, 2, 3].map(i => index.get(i))).toEqual([1, 2, 1, 1]);
+
+    index.removeBitfield(bitfieldOf(4, [1, 2]));
+    index.decrement(3);
+    index.decrement(3); // Never goes below zero
+
+    expect([0, 1, 2, 3].map(i => index.get(i))).toEqual([1, 1, 0, 0]);
+  });
+
+  test('yields pieces from rarest to most common', () => {
+    const index = new AvailabilityIndex(4);
+    index.addBitfield(bitfieldOf(4, [0, 1, 2]));
+    index.addBitfield(bitfieldOf(4, [0, 1]));
+    index.addBitfield(bitfieldOf(4, [0]));
+
+    expect(Array.from(index.rarest())).toEqual([3, 2, 1, 0]);
+  });
+
+  test('counts seeds once for every piece', () => {
+    const index = new AvailabilityIndex(3);
+    index.increment(1);
+    index.addSeed();
+
+    expect([0, 1, 2].map(i => index.get(i))).toEqual([1, 2, 1]);
+    expect(Array.from(index.rarest())[2]).toBe(1);
+
+    index.removeSeed();
+    expect(index.get(0)).toBe(0);
+  });
+
+  test('stops yielding removed pieces but keeps their counts', () => {
+    const index = new AvailabilityIndex(3);
+    index.increment(1);
+    index.remove(1);
+    index.increment(1);
+
+    expect(index.has(1)).toBe(false);
+    expect(index.get(1)).toBe(2);
+    expect(Array.from(index.rarest())).toEqual([0, 2]);
+  });
+});
+
+describe('bitfield helpers', () => {
+  test('visits only set bits within the size', () => {
+    const bitfield = BitSet.fromBuffer(Buffer.from([0b10000001, 0x00, 0xff]), 20);
+    const seen: number[] = [];
+
+    forEachSet(bitfield, 20, (index) => seen.push(index));
+
+    expect(seen).toEqual([0, 7, 16, 17, 18, 19]);
+  });
+
+  test('detects full bitfields', () => {
+    expect(isFull(BitSet.fromBuffer(Buffer.from([0xff, 0xe0]), 11), 11)).toBe(true);
+    expect(isFull(BitSet.fromBuffer(Buffer.from([0xff, 0xc0]), 11), 11)).toBe(false);
+    expect(isFull(new BitSet(0), 0)).toBe(false);
+  });
+});
@@ -0,0 +1,151 @@
+import { BitSet } from './peer';
+
+// Piece availability bucketed by peer count, so counts change in O(1) and the
+// rarest pieces are found without sorting. Seeds are counted once instead of per piece.
+export class AvailabilityIndex {
+  private readonly counts: Uint32Array;      // piece -> peers with it, excluding seeds
+  private readonly positions: Int32Array;    // piece -> slot in its bucket, -1 once removed
+  private readonly buckets: number[][] = []; // count -> pieces
+  private seeds = 0;
+
+  constructor(pieceCount: number) {
+    this.counts = new Uint32Array(pieceCount);
+    this.positions = new Int32Array(pieceCount);
+
+    const bucket: number[] = [];
+    for (let i = 0; i < pieceCount; i++) {
+      this.positions[i] = i;
+      bucket.push(i);
+    }
+    this.buckets.push(bucket);
+  }
+
+  get size(): number {
+    return this.counts.length;
+  }
+
+  increment(pieceIndex: number): void {
+    this.move(pieceIndex, 1);
+  }
+
+  decrement(pieceIndex: number): void {
+    if (this.counts[pieceIndex] > 0) {
+      this.move(pieceIndex, -1);
+    }
+  }
+
+  // Returns the number of pieces the bitfield has
+  addBitfield(bitfield: BitSet): number {
+    let count = 0;
+    forEachSet(bitfield, this.size, (pieceIndex) => {
+      this.increment(pieceIndex);
+      count++;
+    });
+    return count;
+  }
+
+  removeBitfield(bitfield: BitSet): void {
+    forEachSet(bitfield, this.size, (pieceIndex) => this.decrement(pieceIndex));
+  }
+
+  addSeed(): void {
+    this.seeds++;
+  }
+
+  removeSeed(): void {
+    this.seeds = Math.max(0, this.seeds - 1);
+  }
+
+  // Drops a piece we no longer need from the buckets; its count is still kept
+  remove(pieceIndex: number): void {
+    const position = this.positions[pieceIndex];
+    if (position < 0) {
+      return;
+    }
+
+    this.take(this.buckets[this.counts[pieceIndex]], position);
+    this.positions[pieceIndex] = -1;
+  }
+
+  has(pieceIndex: number): boolean {
+    return this.positions[pieceIndex] >= 0;
+  }
+
+  get(pieceIndex: number): number {
+    return this.counts[pieceIndex] + this.seeds;
+  }
+
+  // Yields pieces still in the index from rarest to most common; counts must not change meanwhile
+  *rarest(): IterableIterator<number> {
+    for (const bucket of this.buckets) {
+      yield* bucket;
+    }
+  }
+
+  private move(pieceIndex: number, delta: number): void {
+    const count = this.counts[pieceIndex];
+    this.counts[pieceIndex] = count + delta;
+
+    const position = this.positions[pieceIndex];
+    if (position < 0) {
+      return;
+    }
+
+    this.take(this.buckets[count], position);
+
+    while (this.buckets.length <= count + delta) {
+      this.buckets.push([]);
+    }
+
+    const target = this.buckets[count + delta];
+    this.positions[pieceIndex] = target.length;
+    target.push(pieceIndex);
+  }
+
+  // Swap-removes the piece at a bucket slot
+  private take(bucket: number[], position: number): void {
+    const last = bucket.pop()!;
+    if (position < bucket.length) {
+      bucket[position] = last;
+      this.positions[last] = position;
+    }
+  }
+}
+
+// Visits set bits a byte at a time, skipping empty bytes
+export function forEachSet(bitfield: BitSet, size: number, callback: (index: number) => void): void {
+  const bytes = bitfield.toBuffer();
+
+  for (let byte = 0; byte < bytes.length; byte++) {
+    const value = bytes[byte];
+    if (value === 0) {
+      continue;
+    }
+
+    for (let bit = 0; bit < 8; bit++) {
+      const index = byte * 8 + bit;
+      if (index < size && (value & (0x80 >> bit)) !== 0) {
+        callback(index);
+      }
+    }
+  }
+}
+
+export function isFull(bitfield: BitSet, size: number): boolean {
+  const bytes = bitfield.toBuffer();
+  const fullBytes = Math.floor(size / 8);
+
+  for (let byte = 0; byte < fullBytes; byte++) {
+    if (bytes[byte] !== 0xff) {
+      return false;
+    }
+  }
+
+  for (let index = fullBytes * 8; index < size; index++) {
+    if (!bitfield.get(index)) {
+      return false;
+    }
+  }
+
+  return size > 0;
+}
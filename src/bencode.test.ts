@@ -1,4 +1,4 @@
-import { decode, encode, BencodeError } from './bencode';
+import { decode, decodePrefix, encode, BencodeError } from './bencode';
 
 describe('Bencode Decoder', () => {
   describe('Integers', () => {
@@ -168,6 +168,16 @@ describe('Bencode Decoder', () => {
       expect(() => decode(Buffer.from('i42eextra'))).toThrow(BencodeError);
     });
   });
+
+  describe('Prefix decoding', () => {
+    test('reports the length of the leading value', () => {
+      const data = Buffer.from('d8:msg_typei1e5:piecei0eeRAWDATA');
+      const { value, length } = decodePrefix(data);
+
+      expect((value as { [key: string]: any }).msg_type).toBe(1);
+      expect(data.subarray(length).toString()).toBe('RAWDATA');
+    });
+  });
 });
 
 describe('Bencode Encoder', () => {
@@ -18,6 +18,13 @@ export function decode(data: Buffer): BencodeValue {
   return result;
 }
 
+// Decodes the leading value and reports how many bytes it used, e.g. for payloads with trailing raw data
+export function decodePrefix(data: Buffer): { value: BencodeValue; length: number } {
+  const state = { offset: 0 };
+  const value = decodeValue(data, state);
+  return { value, length: state.offset };
+}
+
 export function encode(value: BencodeValue): Buffer {
   return Buffer.concat(encodeValue(value));
 }
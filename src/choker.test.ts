@@ -0,0 +1,168 @@
+import { EventEmitter } from 'events';
+import { Choker } from './choker';
+
+// Mock PeerConnection exposing the state the choker ranks on
+class MockChokePeer extends EventEmitter {
+  public peerChoked = true;
+  public peerInterested = false;
+  public connected = true;
+  public downBps = 0;
+  public upBps = 0;
+
+  constructor(public readonly name: string) {
+    super();
+  }
+
+  getState() {
+    return {
+      peerChoked: this.peerChoked,
+      peerInterested: this.peerInterested,
+      throughput: { downBps: this.downBps, upBps: this.upBps },
+    };
+  }
+
+  isConnected() {
+    return this.connected;
+  }
+
+  async sendChoke() {
+    this.peerChoked = true;
+  }
+
+  async sendUnchoke() {
+    this.peerChoked = false;
+  }
+}
+
+function createPeers(rates: number[]): MockChokePeer[] {
+  return rates.map((rate, i) => {
+    const peer = new MockChokePeer(`peer${i}`);
+    peer.peerInterested = true;
+    peer.downBps = rate;
+    return peer;
+  });
+}
+
+describe('Choker', () => {
+  let choker: Choker;
+
+  afterEach(() => {
+    choker.destroy();
+  });
+
+  test('unchokes the fastest peers plus one optimistic slot', () => {
+    choker = new Choker({ uploadSlots: 2 });
+    const peers = createPeers([100, 500, 300, 50, 10]);
+    peers.forEach(peer => choker.addPeer(peer as any));
+
+    choker.rechoke();
+
+    expect(peers[1].peerChoked).toBe(false);
+    expect(peers[2].peerChoked).toBe(false);
+
+    const optimistic = choker.getStats().optimisticPeer as unknown as MockChokePeer;
+    expect(optimistic).toBeDefined();
+    expect([peers[0], peers[3], peers[4]]).toContain(optimistic);
+    expect(choker.getStats().unchokedPeers).toBe(3);
+  });
+
+  test('ranks by upload rate while seeding', () => {
+    choker = new Choker({ uploadSlots: 1 });
+    const peers = createPeers([500, 0, 0]);
+    peers[2].upBps = 1000;
+    peers.forEach(peer => choker.addPeer(peer as any));
+
+    choker.rechoke();
+    expect(peers[0].peerChoked).toBe(false);
+
+    choker.setSeeding(true);
+    expect(peers[2].peerChoked).toBe(false);
+    expect(choker.getStats().optimisticPeer).not.toBe(peers[2]);
+  });
+
+  test('chokes peers that fall out of the top slots', () => {
+    choker = new Choker({ uploadSlots: 1, optimisticInterval: 0 });
+    const peers = createPeers([500, 100]);
+    peers.forEach(peer => choker.addPeer(peer as any));
+
+    const choked: MockChokePeer[] = [];
+    choker.on('peer_choked', (event) => choked.push(event.peer));
+
+    choker.rechoke();
+    expect(peers[0].peerChoked).toBe(false);
+
+    // A third, faster peer takes the regular slot; the old winner is left for the optimistic draw
+    const fast = new MockChokePeer('fast');
+    fast.peerInterested = true;
+    fast.downBps = 1000;
+    fast.peerChoked = true;
+    choker.addPeer(fast as any);
+    peers[0].downBps = 0;
+    peers[1].downBps = 0;
+
+    const random = jest.spyOn(Math, 'random').mockReturnValue(0.99);
+    choker.rechoke();
+    random.mockRestore();
+
+    expect(fast.peerChoked).toBe(false);
+    expect(peers[1].peerChoked).toBe(false); // optimistic
+    expect(peers[0].peerChoked).toBe(true);
+    expect(choked).toContain(peers[0]);
+  });
+
+  test('rotates the optimistic slot after the interval', () => {
+    choker = new Choker({ uploadSlots: 0, optimisticInterval: 30000 });
+    const peers = createPeers([0, 0]);
+    peers.forEach(peer => choker.addPeer(peer as any));
+
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1000000);
+    const random = jest.spyOn(Math, 'random').mockReturnValue(0);
+
+    choker.rechoke();
+    const first = choker.getStats().optimisticPeer;
+
+    // Within the interval the optimistic peer is kept
+    random.mockReturnValue(0.99);
+    now.mockReturnValue(1010000);
+    choker.rechoke();
+    expect(choker.getStats().optimisticPeer).toBe(first);
+
+    now.mockReturnValue(1031000);
+    choker.rechoke();
+    expect(choker.getStats().optimisticPeer).not.toBe(first);
+
+    now.mockRestore();
+    random.mockRestore();
+  });
+
+  test('reacts to interested and not_interested', () => {
+    choker = new Choker({ uploadSlots: 2 });
+    const peer = new MockChokePeer('peer');
+    choker.addPeer(peer as any);
+
+    peer.peerInterested = true;
+    peer.emit('interested');
+    expect(peer.peerChoked).toBe(false);
+
+    peer.peerInterested = false;
+    peer.emit('not_interested');
+    expect(peer.peerChoked).toBe(true);
+  });
+
+  test('frees the slot of a disconnected peer', () => {
+    choker = new Choker({ uploadSlots: 1, optimisticInterval: 0 });
+    const peers = createPeers([500, 100, 50]);
+    peers.forEach(peer => choker.addPeer(peer as any));
+
+    const random = jest.spyOn(Math, 'random').mockReturnValue(0);
+    choker.rechoke();
+    expect(peers[2].peerChoked).toBe(true);
+
+    peers[0].connected = false;
+    peers[0].emit('close');
+    random.mockRestore();
+
+    expect(peers[1].peerChoked).toBe(false);
+    expect(peers[2].peerChoked).toBe(false);
+  });
+});
@@ -0,0 +1,171 @@
+import { EventEmitter } from 'events';
+import { PeerConnection } from './peer';
+
+export interface ChokerOptions {
+  uploadSlots?: number;          // regular unchoke slots (excluding the optimistic one)
+  optimisticInterval?: number;   // ms between optimistic unchoke rotations
+}
+
+export interface ChokerStats {
+  unchokedPeers: number;
+  interestedPeers: number;
+  optimisticPeer?: PeerConnection;
+  seeding: boolean;
+}
+
+export class Choker extends EventEmitter {
+  private static readonly DEFAULT_UPLOAD_SLOTS = 4;
+  private static readonly DEFAULT_OPTIMISTIC_INTERVAL = 30000; // 30 seconds
+
+  private readonly uploadSlots: number;
+  private readonly optimisticInterval: number;
+
+  private readonly peers: Set<PeerConnection> = new Set();
+  private optimisticPeer?: PeerConnection;
+  private lastOptimisticRotation = 0;
+  private seeding = false;
+
+  constructor(options: ChokerOptions = {}) {
+    super();
+
+    this.uploadSlots = options.uploadSlots ?? Choker.DEFAULT_UPLOAD_SLOTS;
+    this.optimisticInterval = options.optimisticInterval ?? Choker.DEFAULT_OPTIMISTIC_INTERVAL;
+  }
+
+  addPeer(peer: PeerConnection): void {
+    if (this.peers.has(peer)) {
+      return;
+    }
+
+    this.peers.add(peer);
+
+    peer.on('interested', () => this.handleInterested(peer));
+    peer.on('not_interested', () => this.handleNotInterested(peer));
+    peer.on('close', () => this.removePeer(peer));
+    peer.on('error', () => this.removePeer(peer));
+  }
+
+  removePeer(peer: PeerConnection): void {
+    if (!this.peers.delete(peer)) {
+      return;
+    }
+
+    if (this.optimisticPeer === peer) {
+      this.optimisticPeer = undefined;
+    }
+
+    // Hand the freed slot to someone else
+    if (!peer.getState().peerChoked) {
+      this.rechoke();
+    }
+  }
+
+  setSeeding(seeding: boolean): void {
+    if (this.seeding === seeding) {
+      return;
+    }
+
+    this.seeding = seeding;
+    this.rechoke();
+  }
+
+  private handleInterested(peer: PeerConnection): void {
+    // Fill a free slot right away instead of waiting for the next round
+    if (peer.getState().peerChoked && this.getUnchokedCount() < this.uploadSlots + 1) {
+      this.rechoke();
+    }
+  }
+
+  private handleNotInterested(peer: PeerConnection): void {
+    if (!peer.getState().peerChoked) {
+      this.rechoke();
+    }
+  }
+
+  // Periodic choking round, driven by the client's timer
+  rechoke(): void {
+    const now = Date.now();
+
+    const interested = Array.from(this.peers).filter(
+      peer => peer.isConnected() && peer.getState().peerInterested
+    );
+
+    // Tit-for-tat: reward peers that give us the most (or take the most when seeding)
+    const ranked = interested
+      .map(peer => ({ peer, rate: this.getRate(peer) }))
+      .sort((a, b) => b.rate - a.rate)
+      .map(entry => entry.peer);
+
+    const regular = new Set(ranked.slice(0, this.uploadSlots));
+
+    // Rotate the optimistic slot periodically, or when its holder no longer qualifies
+    const optimisticValid = this.optimisticPeer !== undefined &&
+      interested.includes(this.optimisticPeer) &&
+      !regular.has(this.optimisticPeer);
+
+    if (!optimisticValid || now - this.lastOptimisticRotation >= this.optimisticInterval) {
+      const candidates = ranked.filter(peer => !regular.has(peer));
+      const previous = this.optimisticPeer;
+      this.optimisticPeer = candidates.length > 0
+        ? candidates[Math.floor(Math.random() * candidates.length)]
+        : undefined;
+      this.lastOptimisticRotation = now;
+
+      if (this.optimisticPeer && this.optimisticPeer !== previous) {
+        this.emit('optimistic_unchoke', { peer: this.optimisticPeer });
+      }
+    }
+
+    const unchoke = new Set(regular);
+    if (this.optimisticPeer) {
+      unchoke.add(this.optimisticPeer);
+    }
+
+    for (const peer of this.peers) {
+      const peerChoked = peer.getState().peerChoked;
+
+      if (unchoke.has(peer) && peerChoked) {
+        peer.sendUnchoke().catch(() => {
+          // Ignore send errors, the peer will be removed on close
+        });
+        this.emit('peer_unchoked', { peer, optimistic: peer === this.optimisticPeer });
+      } else if (!unchoke.has(peer) && !peerChoked && peer.isConnected()) {
+        peer.sendChoke().catch(() => {
+          // Ignore send errors, the peer will be removed on close
+        });
+        this.emit('peer_choked', { peer });
+      }
+    }
+  }
+
+  private getRate(peer: PeerConnection): number {
+    const throughput = peer.getState().throughput;
+    return this.seeding ? throughput.upBps : throughput.downBps;
+  }
+
+  private getUnchokedCount(): number {
+    let count = 0;
+    for (const peer of this.peers) {
+      if (!peer.getState().peerChoked) {
+        count++;
+      }
+    }
+    return count;
+  }
+
+  // Public API
+  getStats(): ChokerStats {
+    return {
+      unchokedPeers: this.getUnchokedCount(),
+      interestedPeers: Array.from(this.peers).filter(peer => peer.getState().peerInterested).length,
+      optimisticPeer: this.optimisticPeer,
+      seeding: this.seeding,
+    };
+  }
+
+  destroy(): void {
+    this.peers.clear();
+    this.optimisticPeer = undefined;
+    this.removeAllListeners();
+  }
+}
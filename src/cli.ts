@@ -2,15 +2,37 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
+import * as os from 'os';
 import { TorrentClient, ClientStats, PeerStats } from './client';
+import { TorrentMeta, parseTorrentFile } from './metainfo';
+import { TrackerManager } from './tracker-manager';
+import { generatePeerId } from './tracker';
+import { PeerInfo } from './peer';
+import { isMagnetUri, parseMagnetUri } from './magnet';
+import { MetadataFetcher } from './metadata';
+import { DHT } from './dht';
+import { matchFiles } from './priorities';
 
 interface CliOptions {
+  command: 'download' | 'scrape';
   torrentFile: string;
   outputPath: string;
   maxPeers?: number;
   blockSize?: number;
   windowSize?: number;
+  minWindow?: number;
+  maxWindow?: number;
+  sequential?: boolean;
+  hashWorkers?: number;
+  cacheSize?: number; // MB
+  readCacheSize?: number; // MB
   port?: number;
+  seedAfter?: boolean;
+  seedRatio?: number;
+  seedTime?: number; // minutes
+  dht?: boolean;
+  select?: string[]; // file indices or globs to download, everything else is skipped
+  skip?: string[];   // file indices or globs to leave out
   logLevel?: 'error' | 'warn' | 'info' | 'debug';
   quiet?: boolean;
   json?: boolean;
@@ -30,7 +52,7 @@ class CliProgress {
     const progressBar = this.generateProgressBar(stats.progress);
     const speed = this.formatBytes(stats.downloadRate) + '/s';
     const eta = stats.eta === Infinity ? '--:--:--' : this.formatTime(stats.eta);
-    const size = `${this.formatBytes(stats.downloadedSize)} / ${this.formatBytes(stats.totalSize)}`;
+    const size = `${this.formatBytes(stats.wantedSize - stats.remainingSize)} / ${this.formatBytes(stats.wantedSize)}`;
     
     // Clear line and write progress
     process.stdout.write('\r\x1b[K'); // Clear line
@@ -46,9 +68,25 @@ class CliProgress {
     process.stdout.write('\n');
     console.log(`✅ Download completed!`);
     console.log(`📁 File: ${stats.torrentName}`);
-    console.log(`📦 Size: ${this.formatBytes(stats.totalSize)}`);
+    console.log(`📦 Size: ${this.formatBytes(stats.wantedSize)}`);
     console.log(`⏱️  Time: ${this.formatTime(downloadTime / 1000)}`);
-    console.log(`🚀 Average speed: ${this.formatBytes(stats.totalSize / (downloadTime / 1000))}/s`);
+    console.log(`🚀 Average speed: ${this.formatBytes(stats.wantedSize / (downloadTime / 1000))}/s`);
+  }
+  
+  seeding(stats: ClientStats): void {
+    const now = Date.now();
+    if (now - this.lastUpdate < this.updateInterval) {
+      return;
+    }
+    this.lastUpdate = now;
+
+    process.stdout.write('\r\x1b[K'); // Clear line
+    process.stdout.write(
+      `🌱 Seeding | Uploaded: ${this.formatBytes(stats.uploadedSize)} | ` +
+      `Ratio: ${stats.ratio.toFixed(2)} | ${this.formatBytes(stats.uploadRate)}/s | ` +
+      `Time: ${this.formatTime(stats.seedingTime / 1000)} | ` +
+      `Peers: ${stats.connectedPeers}/${stats.totalPeers}`
+    );
   }
   
   error(message: string): void {
@@ -135,19 +173,20 @@ function parseArguments(): CliOptions {
     process.exit(0);
   }
   
-  if (args[0] !== 'download') {
-    console.error('Error: First argument must be "download"');
+  if (args[0] !== 'download' && args[0] !== 'scrape') {
+    console.error('Error: First argument must be "download" or "scrape"');
     console.error('Run "torrent-poc help" for usage information');
     process.exit(1);
   }
   
   if (args.length < 2) {
-    console.error('Error: Torrent file path is required');
+    console.error('Error: Torrent file path or magnet link is required');
     console.error('Run "torrent-poc help" for usage information');
     process.exit(1);
   }
   
   const options: CliOptions = {
+    command: args[0],
     torrentFile: args[1],
     outputPath: process.cwd(), // Default to current directory
   };
@@ -205,6 +244,95 @@ function parseArguments(): CliOptions {
         i++;
         break;
         
+      case '--min-window':
+        if (!nextArg || isNaN(parseInt(nextArg))) {
+          console.error('Error: --min-window requires a numeric argument');
+          process.exit(1);
+        }
+        options.minWindow = parseInt(nextArg);
+        i++;
+        break;
+        
+      case '--max-window':
+        if (!nextArg || isNaN(parseInt(nextArg))) {
+          console.error('Error: --max-window requires a numeric argument');
+          process.exit(1);
+        }
+        options.maxWindow = parseInt(nextArg);
+        i++;
+        break;
+        
+      case '--hash-workers':
+        if (!nextArg || isNaN(parseInt(nextArg))) {
+          console.error('Error: --hash-workers requires a numeric argument');
+          process.exit(1);
+        }
+        options.hashWorkers = parseInt(nextArg);
+        i++;
+        break;
+        
+      case '--cache-size':
+        if (!nextArg || isNaN(parseInt(nextArg))) {
+          console.error('Error: --cache-size requires a numeric argument');
+          process.exit(1);
+        }
+        options.cacheSize = parseInt(nextArg);
+        i++;
+        break;
+        
+      case '--read-cache':
+        if (!nextArg || isNaN(parseInt(nextArg))) {
+          console.error('Error: --read-cache requires a numeric argument');
+          process.exit(1);
+        }
+        options.readCacheSize = parseInt(nextArg);
+        i++;
+        break;
+        
+      case '--seed-after':
+        options.seedAfter = true;
+        break;
+        
+      case '--seed-ratio':
+        if (!nextArg || isNaN(parseFloat(nextArg))) {
+          console.error('Error: --seed-ratio requires a numeric argument');
+          process.exit(1);
+        }
+        options.seedRatio = parseFloat(nextArg);
+        options.seedAfter = true;
+        i++;
+        break;
+        
+      case '--seed-time':
+        if (!nextArg || isNaN(parseFloat(nextArg))) {
+          console.error('Error: --seed-time requires a numeric argument');
+          process.exit(1);
+        }
+        options.seedTime = parseFloat(nextArg);
+        options.seedAfter = true;
+        i++;
+        break;
+        
+      case '--dht':
+        options.dht = true;
+        break;
+
+      case '--sequential':
+        options.sequential = true;
+        break;
+        
+      case '--select':
+      case '--skip': {
+        if (!nextArg) {
+          console.error(`Error: ${arg} requires a list of file indices or globs`);
+          process.exit(1);
+        }
+        const key = arg === '--select' ? 'select' : 'skip';
+        options[key] = [...(options[key] ?? []), ...nextArg.split(',').filter(Boolean)];
+        i++;
+        break;
+      }
+        
       case '--log':
         if (!nextArg || !['error', 'warn', 'info', 'debug'].includes(nextArg)) {
           console.error('Error: --log must be one of: error, warn, info, debug');
@@ -233,19 +361,35 @@ function parseArguments(): CliOptions {
   return options;
 }
 
+// Routing table shared across runs so the DHT doesn't bootstrap from scratch
+const DHT_STATE_PATH = path.join(os.homedir(), '.torrent-poc', 'dht.json');
+
 function showHelp(): void {
   console.log(`
 BitTorrent Client POC
 
 USAGE:
-  torrent-poc download <file.torrent> [options]
+  torrent-poc download <file.torrent | magnet-uri> [options]
+  torrent-poc scrape <file.torrent | magnet-uri> [--json]
 
 OPTIONS:
   -o, --out <path>            Output file path (default: current directory)
   -p, --port <port>           TCP listen port (default: 6881)
   --max-peers <n>             Max concurrent peers (default: 30)
   --block-size <bytes>        Request block size (default: 16384)
-  --window <n>                Requests in flight per peer (default: 12)
+  --window <n>                Initial requests in flight per peer (default: 12)
+  --min-window <n>            Fewest requests in flight per peer (default: 1)
+  --max-window <n>            Most requests in flight per peer (default: 250)
+  --sequential                Download pieces in order, e.g. to preview media
+  --hash-workers <n>          Threads verifying pieces, 0 hashes on the main thread (default: cores - 1, max 4)
+  --cache-size <MB>           Disk write cache, 0 writes every piece right away (default: 16)
+  --read-cache <MB>           Pieces kept in memory for seeding (default: 32)
+  --seed-after                Keep seeding after the download completes
+  --seed-ratio <r>            Stop seeding at this upload ratio (implies --seed-after)
+  --seed-time <minutes>       Stop seeding after this many minutes (implies --seed-after)
+  --dht                       Also find peers through the mainline DHT
+  --select <list>             Only download these files (comma-separated indices or globs)
+  --skip <list>               Don't download these files (comma-separated indices or globs)
   --log <level>               Log level: error|warn|info|debug (default: info)
   -q, --quiet                 Quiet mode - no progress output
   --json                      Output stats in JSON format
@@ -256,6 +400,10 @@ EXAMPLES:
   torrent-poc download ubuntu.torrent -o ~/Downloads/
   torrent-poc download test.torrent --max-peers 50 --log debug
   torrent-poc download large.torrent --quiet --json > stats.json
+  torrent-poc download linux.torrent --seed-ratio 2 --seed-time 120
+  torrent-poc download "magnet:?xt=urn:btih:<hash>&tr=<tracker>" -o ~/Downloads/
+  torrent-poc download "magnet:?xt=urn:btih:<hash>" --dht
+  torrent-poc scrape ubuntu.torrent
 `);
 }
 
@@ -270,18 +418,27 @@ function showVersion(): void {
 }
 
 function validateOptions(options: CliOptions): void {
-  // Check if torrent file exists
-  if (!fs.existsSync(options.torrentFile)) {
-    console.error(`Error: Torrent file not found: ${options.torrentFile}`);
-    process.exit(1);
-  }
-  
-  // Check if torrent file is readable
-  try {
-    fs.accessSync(options.torrentFile, fs.constants.R_OK);
-  } catch {
-    console.error(`Error: Cannot read torrent file: ${options.torrentFile}`);
-    process.exit(1);
+  if (isMagnetUri(options.torrentFile)) {
+    try {
+      parseMagnetUri(options.torrentFile);
+    } catch (error) {
+      console.error(`Error: ${error instanceof Error ? error.message : 'Invalid magnet link'}`);
+      process.exit(1);
+    }
+  } else {
+    // Check if torrent file exists
+    if (!fs.existsSync(options.torrentFile)) {
+      console.error(`Error: Torrent file not found: ${options.torrentFile}`);
+      process.exit(1);
+    }
+    
+    // Check if torrent file is readable
+    try {
+      fs.accessSync(options.torrentFile, fs.constants.R_OK);
+    } catch {
+      console.error(`Error: Cannot read torrent file: ${options.torrentFile}`);
+      process.exit(1);
+    }
   }
   
   // Validate output path
@@ -311,6 +468,65 @@ function validateOptions(options: CliOptions): void {
     console.error('Error: Window size must be greater than 0');
     process.exit(1);
   }
+  
+  if (options.minWindow !== undefined && options.minWindow < 1) {
+    console.error('Error: Min window must be greater than 0');
+    process.exit(1);
+  }
+  
+  if (options.minWindow !== undefined && options.maxWindow !== undefined && options.maxWindow < options.minWindow) {
+    console.error('Error: Max window must not be less than min window');
+    process.exit(1);
+  }
+  
+  if (options.seedRatio !== undefined && options.seedRatio <= 0) {
+    console.error('Error: Seed ratio must be greater than 0');
+    process.exit(1);
+  }
+  
+  if (options.seedTime !== undefined && options.seedTime <= 0) {
+    console.error('Error: Seed time must be greater than 0');
+    process.exit(1);
+  }
+}
+
+function applyFileSelection(client: TorrentClient, options: CliOptions, logger: Logger): void {
+  const paths = client.getFiles().map((file) => file.path);
+
+  const resolve = (flag: string, selectors: string[]): Set<number> => {
+    const indices = new Set<number>();
+    for (const selector of selectors) {
+      const matches = matchFiles(paths, selector);
+      if (matches.length === 0) {
+        throw new Error(`${flag} ${selector} matches no files`);
+      }
+      matches.forEach((index) => indices.add(index));
+    }
+    return indices;
+  };
+
+  const skipped = new Set<number>();
+  if (options.select) {
+    const selected = resolve('--select', options.select);
+    paths.forEach((_, index) => {
+      if (!selected.has(index)) {
+        skipped.add(index);
+      }
+    });
+  }
+  if (options.skip) {
+    resolve('--skip', options.skip).forEach((index) => skipped.add(index));
+  }
+
+  for (const index of skipped) {
+    client.setFilePriority(index, 'skip');
+  }
+
+  paths.forEach((filePath, index) => {
+    logger.debug(`  [${index}] ${filePath}${skipped.has(index) ? ' (skipped)' : ''}`);
+  });
+
+  logger.info(`📂 Downloading ${paths.length - skipped.size} of ${paths.length} files`);
 }
 
 async function downloadTorrent(options: CliOptions): Promise<void> {
@@ -321,27 +537,61 @@ async function downloadTorrent(options: CliOptions): Promise<void> {
   let startTime: number;
   
   try {
+    let torrent: string | TorrentMeta = options.torrentFile;
+    let initialPeers: PeerInfo[] = [];
+
+    // Magnet links need the info dictionary from peers first
+    if (isMagnetUri(options.torrentFile)) {
+      const magnet = parseMagnetUri(options.torrentFile);
+      torrent = await fetchMetadata(options, logger);
+      initialPeers = magnet.peers;
+    }
+
     // Create client
-    client = new TorrentClient(options.torrentFile, {
+    client = new TorrentClient(torrent, {
       outputPath: options.outputPath,
       maxPeers: options.maxPeers,
       blockSize: options.blockSize,
       windowSize: options.windowSize,
+      minWindow: options.minWindow,
+      maxWindow: options.maxWindow,
+      sequential: options.sequential,
+      hashWorkers: options.hashWorkers,
+      cacheSize: options.cacheSize !== undefined ? options.cacheSize * 1024 * 1024 : undefined,
+      readCacheSize: options.readCacheSize !== undefined ? options.readCacheSize * 1024 * 1024 : undefined,
       port: options.port,
+      seedAfter: options.seedAfter,
+      seedRatio: options.seedRatio,
+      seedTime: options.seedTime !== undefined ? options.seedTime * 60 * 1000 : undefined,
+      initialPeers,
+      dht: options.dht,
+      dhtStatePath: DHT_STATE_PATH,
     });
+
+    // Before start, so skipped files are never allocated
+    if (options.select || options.skip) {
+      applyFileSelection(client, options, logger);
+    }
     
     // Set up event handlers
     client.on('download_started', () => {
       startTime = Date.now();
       logger.info(`🚀 Started downloading: ${client.torrentName}`);
       logger.info(`📦 Size: ${formatBytes(client.totalSize)}`);
+      if (options.sequential) {
+        logger.info('▶️  Sequential mode: pieces are requested in order');
+      }
     });
     
     client.on('stats_updated', (stats: ClientStats) => {
       if (options.json) {
         console.log(JSON.stringify(stats));
       } else if (!options.quiet) {
-        progress.update(stats);
+        if (stats.status === 'seeding') {
+          progress.seeding(stats);
+        } else {
+          progress.update(stats);
+        }
       }
     });
     
@@ -354,6 +604,19 @@ async function downloadTorrent(options: CliOptions): Promise<void> {
       }
     });
     
+    client.on('seeding_started', () => {
+      logger.info(`🌱 Seeding: ${client.torrentName}`);
+    });
+    
+    client.on('seeding_completed', (event) => {
+      if (options.json) {
+        console.log(JSON.stringify({ event: 'seeding_completed', ...event }));
+      } else {
+        process.stdout.write('\n');
+        logger.info(`🌱 Seeding finished (${event.reason} limit reached), ratio ${event.ratio.toFixed(2)}`);
+      }
+    });
+    
     client.on('debug', (message) => {
       logger.debug(message);
     });
@@ -374,8 +637,32 @@ async function downloadTorrent(options: CliOptions): Promise<void> {
       logger.debug(`🚫 Peer connection failed ${event.address}: ${event.error}`);
     });
     
+    client.on('listening', (event) => {
+      logger.debug(`👂 Listening for peers on port ${event.port}`);
+    });
+
+    client.on('listen_error', (event) => {
+      logger.warn(`👂 Cannot listen on port ${event.port}, incoming peers disabled:`, event.error?.message ?? event.error);
+    });
+
     client.on('announce_success', (event) => {
-      logger.debug(`📡 Tracker announce: ${event.peers} peers, ${event.seeders} seeders`);
+      logger.debug(`📡 Tracker announce (${event.url}): ${event.peers} peers, ${event.seeders} seeders`);
+    });
+    
+    client.on('tracker_error', (event) => {
+      logger.debug(`📡 Tracker ${event.url} failed:`, event.error?.message ?? event.error);
+    });
+    
+    client.on('dht_started', (event) => {
+      logger.debug(`🕸️  DHT node listening on UDP port ${event.port}`);
+    });
+    
+    client.on('dht_peers', (event) => {
+      logger.debug(`🕸️  DHT lookup: ${event.peers} peers from ${event.nodes} nodes`);
+    });
+    
+    client.on('dht_error', (event) => {
+      logger.warn('🕸️  DHT error:', event.error?.message ?? event.error);
     });
     
     client.on('announce_error', (event) => {
@@ -385,6 +672,25 @@ async function downloadTorrent(options: CliOptions): Promise<void> {
     client.on('piece_completed', (event) => {
       logger.debug(`✅ Completed piece ${event.pieceIndex}`);
     });
+
+    // Existing data is rechecked on start, so an interrupted download picks up where it stopped
+    let piecesOnDisk = 0;
+    client.on('piece_checked', (event) => {
+      if (event.valid) {
+        piecesOnDisk++;
+      }
+      if (event.checkedPieces === event.totalPieces && piecesOnDisk > 0) {
+        logger.info(`🔎 Resuming with ${piecesOnDisk}/${event.totalPieces} pieces already on disk`);
+      }
+    });
+
+    client.on('resume_loaded', (event) => {
+      logger.info(`⚡ Resuming with ${event.completedPieces} pieces from the resume record, no recheck needed`);
+    });
+
+    client.on('peer_banned', (event) => {
+      logger.warn(`🚫 Banned peer ${event.address} after ${event.strikes} pieces with bad data`);
+    });
     
     client.on('endgame_started', () => {
       logger.info('🏁 Entered endgame mode');
@@ -416,9 +722,15 @@ async function downloadTorrent(options: CliOptions): Promise<void> {
     // Start download
     await client.start();
     
-    // Keep process alive
+    // Keep process alive, until the seeding limits stop the client when seeding
     await new Promise((resolve) => {
-      client.on('download_completed', resolve);
+      if (options.seedAfter) {
+        client.on('download_stopped', resolve);
+      } else if (client.currentStatus === 'completed') {
+        resolve(undefined);
+      } else {
+        client.on('download_completed', resolve);
+      }
       client.on('error', resolve);
     });
     
@@ -431,6 +743,115 @@ async function downloadTorrent(options: CliOptions): Promise<void> {
   }
 }
 
+async function fetchMetadata(options: CliOptions, logger: Logger): Promise<TorrentMeta> {
+  const magnet = parseMagnetUri(options.torrentFile);
+
+  // The download's own DHT node takes the port over once metadata is in
+  let dht: DHT | undefined;
+  if (options.dht) {
+    dht = new DHT({ port: options.port, statePath: DHT_STATE_PATH });
+    try {
+      await dht.start();
+      logger.info('🕸️  Bootstrapping DHT...');
+      await dht.bootstrap();
+      logger.debug(`🕸️  DHT ready with ${dht.getStats().nodes} nodes`);
+    } catch (error) {
+      logger.warn('🕸️  DHT unavailable:', error instanceof Error ? error.message : error);
+      await dht.stop();
+      dht = undefined;
+    }
+  }
+
+  const fetcher = new MetadataFetcher(magnet, {
+    peerId: generatePeerId(),
+    port: options.port,
+    dht,
+  });
+
+  fetcher.on('metadata_piece', ({ piece, total }) => {
+    logger.debug(`🧩 Metadata piece ${piece + 1}/${total}`);
+  });
+
+  fetcher.on('metadata_invalid', () => {
+    logger.warn('⚠️  Received metadata does not match the info hash, retrying');
+  });
+
+  fetcher.on('tracker_error', (event) => {
+    logger.debug(`📡 Tracker ${event.url} failed:`, event.error?.message ?? event.error);
+  });
+
+  fetcher.on('announce_error', (event) => {
+    logger.warn(`📡 Tracker announce failed:`, event.error);
+  });
+
+  fetcher.on('debug', (message: string) => {
+    logger.debug(message);
+  });
+
+  fetcher.on('dht_error', (event) => {
+    logger.debug('🕸️  DHT lookup failed:', event.error?.message ?? event.error);
+  });
+
+  logger.info(`🧲 Fetching metadata for ${magnet.name ?? magnet.infoHash.toString('hex')}...`);
+  try {
+    const torrentMeta = await fetcher.fetch();
+    logger.info(`✅ Metadata received: ${torrentMeta.name}`);
+    return torrentMeta;
+  } finally {
+    await dht?.stop();
+  }
+}
+
+async function scrapeTorrent(options: CliOptions): Promise<void> {
+  let name: string;
+  let infoHash: Buffer;
+  let trackers: TrackerManager;
+
+  if (isMagnetUri(options.torrentFile)) {
+    const magnet = parseMagnetUri(options.torrentFile);
+    name = magnet.name ?? 'magnet link';
+    infoHash = magnet.infoHash;
+    trackers = new TrackerManager({ announce: '', announceList: [magnet.trackers] }, { udpRetries: 1 });
+  } else {
+    const torrentMeta = parseTorrentFile(options.torrentFile);
+    name = torrentMeta.name;
+    infoHash = torrentMeta.infoHashV1;
+    trackers = new TrackerManager(torrentMeta, { udpRetries: 1 });
+  }
+
+  try {
+    const responses = await trackers.scrape([infoHash]);
+
+    if (options.json) {
+      console.log(JSON.stringify({
+        infoHash: infoHash.toString('hex'),
+        trackers: responses.map(response => ({
+          url: response.url,
+          error: response.error,
+          seeders: response.results?.[0]?.complete,
+          leechers: response.results?.[0]?.incomplete,
+          downloaded: response.results?.[0]?.downloaded,
+        })),
+      }));
+      return;
+    }
+
+    console.log(`📦 ${name} (${infoHash.toString('hex')})`);
+    for (const response of responses) {
+      const stats = response.results?.[0];
+      if (response.error) {
+        console.log(`  ❌ ${response.url}: ${response.error}`);
+      } else if (!stats) {
+        console.log(`  ❔ ${response.url}: torrent not known to tracker`);
+      } else {
+        console.log(`  📡 ${response.url}: ${stats.complete} seeders, ${stats.incomplete} leechers, ${stats.downloaded} downloads`);
+      }
+    }
+  } finally {
+    trackers.destroy();
+  }
+}
+
 function formatBytes(bytes: number): string {
   if (bytes === 0) return '0 B';
   
@@ -445,7 +866,11 @@ async function main(): Promise<void> {
   try {
     const options = parseArguments();
     validateOptions(options);
-    await downloadTorrent(options);
+    if (options.command === 'scrape') {
+      await scrapeTorrent(options);
+    } else {
+      await downloadTorrent(options);
+    }
   } catch (error) {
     console.error('Fatal error:', error);
     process.exit(1);
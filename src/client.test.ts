@@ -2,8 +2,11 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as os from 'os';
 import * as crypto from 'crypto';
+import * as net from 'net';
+import { EventEmitter } from 'events';
 import { TorrentClient, ClientError } from './client';
 import { TorrentMeta } from './metainfo';
+import { MessageType } from './peer';
 
 // Mock the parseTorrentFile function
 jest.mock('./metainfo', () => ({
@@ -87,6 +90,20 @@ describe('TorrentClient', () => {
 
       expect(client.currentStatus).toBe('stopped');
     });
+
+    test('accepts already parsed metadata', () => {
+      const { parseTorrentFile } = require('./metainfo');
+      parseTorrentFile.mockClear();
+
+      const client = new TorrentClient(mockTorrentMeta, {
+        outputPath: path.join(tempDir, 'downloads'),
+        initialPeers: [{ ip: '10.0.0.1', port: 6881 }],
+      });
+
+      expect(parseTorrentFile).not.toHaveBeenCalled();
+      expect(client.torrentName).toBe('test-file.txt');
+      expect(client.infoHash).toBe(mockTorrentMeta.infoHashV1.toString('hex'));
+    });
   });
 
   describe('Stats and State', () => {
@@ -138,9 +155,15 @@ describe('TorrentClient', () => {
       TorrentStorage.mockImplementation(() => ({
         initialize: jest.fn().mockResolvedValue(undefined),
         isComplete: jest.fn().mockReturnValue(false),
+        isSelectionComplete: jest.fn().mockReturnValue(false),
+        readPartialPieces: jest.fn().mockResolvedValue([]),
+        writePartialPieces: jest.fn().mockResolvedValue(undefined),
+        getCompletedPieces: jest.fn().mockReturnValue(new Set()),
         getStats: jest.fn().mockReturnValue({
           totalSize: 32768,
           writtenSize: 0,
+          wantedSize: 32768,
+          wantedWrittenSize: 0,
           verifiedPieces: 0,
           totalPieces: 2,
           isComplete: false,
@@ -153,6 +176,7 @@ describe('TorrentClient', () => {
       // Mock scheduler
       const { PieceScheduler } = require('./scheduler');
       PieceScheduler.mockImplementation(() => ({
+        getPartialPieces: jest.fn().mockReturnValue([]),
         getStats: jest.fn().mockReturnValue({
           piecesCompleted: 0,
           piecesTotal: 2,
@@ -184,9 +208,15 @@ describe('TorrentClient', () => {
       try {
         await client.start();
         await expect(client.start()).rejects.toThrow(ClientError);
+
+        // Storage verifies pieces on the client's hash pool
+        const storageOptions = TorrentStorage.mock.calls[TorrentStorage.mock.calls.length - 1][3];
+        expect(storageOptions.hashPool).toBe(client['hashPool']);
+        expect(storageOptions.hashPool).toBeDefined();
       } finally {
         await client.stop();
       }
+      expect(client['hashPool']).toBeUndefined();
     });
 
     test('can stop when not started', async () => {
@@ -210,6 +240,434 @@ describe('TorrentClient', () => {
     });
   });
 
+  describe('Inbound Connections', () => {
+    let client: TorrentClient;
+    let addPeer: jest.Mock;
+
+    const buildHandshake = (infoHash: Buffer) => Buffer.concat([
+      Buffer.from([19]),
+      Buffer.from('BitTorrent protocol'),
+      Buffer.alloc(8),
+      infoHash,
+      Buffer.from('-TEST01-123456789012'),
+    ]);
+
+    const dial = (port: number) => new Promise<net.Socket>((resolve, reject) => {
+      const socket = net.connect(port, '127.0.0.1', () => resolve(socket));
+      socket.on('error', reject);
+    });
+
+    beforeEach(async () => {
+      addPeer = jest.fn();
+
+      const { TorrentStorage } = require('./storage');
+      TorrentStorage.mockImplementation(() => ({
+        initialize: jest.fn().mockResolvedValue(undefined),
+        isComplete: jest.fn().mockReturnValue(false),
+        isSelectionComplete: jest.fn().mockReturnValue(false),
+        readPartialPieces: jest.fn().mockResolvedValue([]),
+        writePartialPieces: jest.fn().mockResolvedValue(undefined),
+        getStats: jest.fn().mockReturnValue({
+          totalSize: 32768,
+          writtenSize: 0,
+          wantedSize: 32768,
+          wantedWrittenSize: 0,
+          verifiedPieces: 0,
+          totalPieces: 2,
+          isComplete: false,
+        }),
+        getCompletedPieces: jest.fn().mockReturnValue(new Set([0])),
+        on: jest.fn(),
+        close: jest.fn(),
+        destroy: jest.fn(),
+      }));
+
+      const { PieceScheduler } = require('./scheduler');
+      PieceScheduler.mockImplementation(() => ({
+        getPartialPieces: jest.fn().mockReturnValue([]),
+        getStats: jest.fn().mockReturnValue({
+          piecesCompleted: 0,
+          piecesTotal: 2,
+          bytesDownloaded: 0,
+          bytesTotal: 32768,
+          activeRequests: 0,
+          availablePeers: 0,
+          downloadRate: 0,
+          endgameActive: false,
+        }),
+        on: jest.fn(),
+        destroy: jest.fn(),
+        addPeer,
+        removePeer: jest.fn(),
+      }));
+
+      const { TrackerClient } = require('./tracker');
+      TrackerClient.mockImplementation(() => ({
+        announce: jest.fn().mockResolvedValue({ interval: 1800, peers: [] }),
+      }));
+
+      client = new TorrentClient(torrentFilePath, {
+        outputPath: path.join(tempDir, 'downloads'),
+        port: 0,
+        maxPeers: 1,
+      });
+      await client.start();
+    });
+
+    afterEach(async () => {
+      await client.stop();
+    });
+
+    test('listens on the advertised port', () => {
+      expect(client.listeningPort).toBeGreaterThan(0);
+    });
+
+    test('accepts peers with matching info hash', async () => {
+      const connected = new Promise<any>((resolve) => client.once('peer_connected', resolve));
+      const socket = await dial(client.listeningPort!);
+
+      const reply = new Promise<Buffer>((resolve) => {
+        let data = Buffer.alloc(0);
+        socket.on('data', (chunk) => {
+          data = Buffer.concat([data, chunk]);
+          if (data.length >= 68) resolve(data);
+        });
+      });
+
+      socket.write(buildHandshake(mockTorrentMeta.infoHashV1));
+
+      const handshake = await reply;
+      expect(handshake.subarray(28, 48)).toEqual(mockTorrentMeta.infoHashV1);
+
+      const event = await connected;
+      expect(event.inbound).toBe(true);
+      expect(addPeer).toHaveBeenCalledWith(event.peer, undefined);
+      expect(client.getStats().connectedPeers).toBe(1);
+
+      socket.destroy();
+    });
+
+    test('sends our bitfield right after the handshake', async () => {
+      const socket = await dial(client.listeningPort!);
+
+      const reply = new Promise<Buffer>((resolve) => {
+        let data = Buffer.alloc(0);
+        socket.on('data', (chunk) => {
+          data = Buffer.concat([data, chunk]);
+          if (data.length >= 74) resolve(data);
+        });
+      });
+
+      socket.write(buildHandshake(mockTorrentMeta.infoHashV1));
+
+      const message = (await reply).subarray(68, 74);
+      expect(message.readUInt32BE(0)).toBe(2);
+      expect(message[4]).toBe(MessageType.BITFIELD);
+      expect(message[5]).toBe(0b10000000); // Piece 0 only
+
+      socket.destroy();
+    });
+
+    test('drops peers with mismatched info hash', async () => {
+      const failed = new Promise<any>((resolve) => client.once('peer_connect_failed', resolve));
+      const socket = await dial(client.listeningPort!);
+      const closed = new Promise<void>((resolve) => socket.on('close', () => resolve()));
+
+      socket.write(buildHandshake(crypto.randomBytes(20)));
+
+      const event = await failed;
+      expect(event.error).toContain('Info hash mismatch');
+      await closed;
+      expect(addPeer).not.toHaveBeenCalled();
+    });
+
+    test('drops and refuses banned peers', async () => {
+      const first = await dial(client.listeningPort!);
+      const connected = new Promise<void>((resolve) => client.once('peer_connected', () => resolve()));
+      first.write(buildHandshake(mockTorrentMeta.infoHashV1));
+      await connected;
+
+      const disconnected = new Promise<any>((resolve) => client.once('peer_disconnected', resolve));
+      client['banPeer']('127.0.0.1', 3);
+      expect((await disconnected).reason).toBe('banned');
+
+      const second = await dial(client.listeningPort!);
+      await new Promise<void>((resolve) => second.on('close', () => resolve()));
+      expect(addPeer).toHaveBeenCalledTimes(1);
+
+      await expect(client['connectToPeer']('127.0.0.1:6881')).rejects.toThrow('banned');
+      expect(client.getPeerStats()).toEqual([
+        expect.objectContaining({ address: '127.0.0.1', status: 'banned', strikes: 3 }),
+      ]);
+
+      first.destroy();
+    });
+
+    test('rejects connections beyond the peer budget', async () => {
+      const first = await dial(client.listeningPort!);
+      const connected = new Promise<void>((resolve) => client.once('peer_connected', () => resolve()));
+      first.write(buildHandshake(mockTorrentMeta.infoHashV1));
+      await connected;
+
+      const second = await dial(client.listeningPort!);
+      await new Promise<void>((resolve) => second.on('close', () => resolve()));
+      expect(addPeer).toHaveBeenCalledTimes(1);
+
+      first.destroy();
+    });
+  });
+
+  describe('Seeding', () => {
+    let announce: jest.Mock;
+
+    beforeEach(() => {
+      announce = jest.fn().mockResolvedValue({ interval: 1800, peers: [] });
+
+      const { TorrentStorage } = require('./storage');
+      TorrentStorage.mockImplementation(() => ({
+        initialize: jest.fn().mockResolvedValue(undefined),
+        isComplete: jest.fn().mockReturnValue(true),
+        isSelectionComplete: jest.fn().mockReturnValue(true),
+        getStats: jest.fn().mockReturnValue({
+          totalSize: 32768,
+          writtenSize: 32768,
+          wantedSize: 32768,
+          wantedWrittenSize: 32768,
+          verifiedPieces: 2,
+          totalPieces: 2,
+          isComplete: true,
+        }),
+        getCompletedPieces: jest.fn().mockReturnValue(new Set([0, 1])),
+        on: jest.fn(),
+        close: jest.fn(),
+        destroy: jest.fn(),
+      }));
+
+      const { PieceScheduler } = require('./scheduler');
+      PieceScheduler.mockClear();
+
+      const { TrackerClient } = require('./tracker');
+      TrackerClient.mockImplementation(() => ({ announce }));
+    });
+
+    test('completes without seeding by default', async () => {
+      const client = new TorrentClient(torrentFilePath, {
+        outputPath: path.join(tempDir, 'downloads'),
+        port: 0,
+      });
+
+      await client.start();
+      expect(client.currentStatus).toBe('completed');
+      expect(announce).not.toHaveBeenCalled();
+      await client.stop();
+    });
+
+    test('seeds already complete data', async () => {
+      const client = new TorrentClient(torrentFilePath, {
+        outputPath: path.join(tempDir, 'downloads'),
+        port: 0,
+        seedAfter: true,
+      });
+
+      const seeding = jest.fn();
+      client.on('seeding_started', seeding);
+
+      try {
+        await client.start();
+        expect(client.currentStatus).toBe('seeding');
+        expect(seeding).toHaveBeenCalled();
+        expect(announce).toHaveBeenCalledWith(expect.any(String), expect.objectContaining({ left: 0 }));
+
+        const { PieceScheduler } = require('./scheduler');
+        expect(PieceScheduler).not.toHaveBeenCalled();
+        expect(client.getStats().completedPieces).toBe(2);
+      } finally {
+        await client.stop();
+      }
+    });
+
+    test('keeps running when the first announce fails', async () => {
+      announce.mockRejectedValue(new Error('tracker down'));
+      const client = new TorrentClient(torrentFilePath, {
+        outputPath: path.join(tempDir, 'downloads'),
+        port: 0,
+        seedAfter: true,
+      });
+
+      const announceErrors = jest.fn();
+      client.on('announce_error', announceErrors);
+
+      try {
+        await client.start();
+        expect(client.currentStatus).toBe('seeding');
+        expect(announceErrors).toHaveBeenCalled();
+        expect(client['announceTimer']).toBeDefined();
+      } finally {
+        await client.stop();
+      }
+    });
+
+    test('announces again at the interval the tracker asks for', async () => {
+      announce.mockResolvedValue({ interval: 1, peers: [] });
+      const client = new TorrentClient(torrentFilePath, {
+        outputPath: path.join(tempDir, 'downloads'),
+        port: 0,
+        seedAfter: true,
+      });
+
+      try {
+        await client.start();
+        expect(client.getStats().announceInterval).toBe(1000);
+
+        await new Promise(resolve => setTimeout(resolve, 1100));
+        expect(announce).toHaveBeenCalledTimes(2);
+      } finally {
+        await client.stop();
+      }
+    });
+
+    test('stops without waiting on a tracker that never answers', async () => {
+      announce.mockImplementation((url: string, request: any) => request.event === 'stopped'
+        ? new Promise(() => {})
+        : Promise.resolve({ interval: 1800, peers: [] }));
+      const client = new TorrentClient(torrentFilePath, {
+        outputPath: path.join(tempDir, 'downloads'),
+        port: 0,
+        seedAfter: true,
+      });
+      await client.start();
+
+      jest.useFakeTimers();
+      try {
+        const stopping = client.stop();
+        await jest.advanceTimersByTimeAsync(5000);
+        await stopping;
+      } finally {
+        jest.useRealTimers();
+      }
+
+      expect(announce).toHaveBeenLastCalledWith(expect.any(String), expect.objectContaining({ event: 'stopped' }));
+      expect(client.currentStatus).toBe('stopped');
+    });
+
+    test('releases the port and the DHT when starting fails', async () => {
+      const client = new TorrentClient(torrentFilePath, {
+        outputPath: path.join(tempDir, 'downloads'),
+        port: 0,
+        seedAfter: true,
+        dht: true,
+        dhtBootstrap: [],
+        dhtStatePath: '',
+      });
+      jest.spyOn(client as any, 'startAnnounceTimer').mockImplementation(() => {
+        throw new Error('timer failed');
+      });
+      client.on('error', () => {});
+      const dhtStarted = jest.fn();
+      client.on('dht_started', dhtStarted);
+
+      await expect(client.start()).rejects.toThrow('timer failed');
+
+      expect(dhtStarted).toHaveBeenCalled();
+      expect(client.currentStatus).toBe('error');
+      expect(client.listeningPort).toBeUndefined();
+      expect(client['server']).toBeUndefined();
+      expect(client['dht']).toBeUndefined();
+      expect(client['dhtTimer']).toBeUndefined();
+      await client.stop();
+    });
+
+    test('drops peers that are seeds as well', async () => {
+      const client = new TorrentClient(torrentFilePath, {
+        outputPath: path.join(tempDir, 'downloads'),
+        port: 0,
+        seedAfter: true,
+      });
+
+      try {
+        await client.start();
+
+        const dropped = new Promise<any>((resolve) => client.once('peer_disconnected', resolve));
+        const socket = await new Promise<net.Socket>((resolve, reject) => {
+          const s = net.connect(client.listeningPort!, '127.0.0.1', () => resolve(s));
+          s.on('error', reject);
+        });
+        socket.on('error', () => {});
+
+        const bitfield = Buffer.from([0, 0, 0, 2, MessageType.BITFIELD, 0b11000000]);
+        socket.write(Buffer.concat([
+          Buffer.from([19]),
+          Buffer.from('BitTorrent protocol'),
+          Buffer.alloc(8),
+          mockTorrentMeta.infoHashV1,
+          Buffer.from('-TEST01-123456789012'),
+          bitfield,
+        ]));
+
+        const event = await dropped;
+        expect(event.reason).toBe('peer is a seed');
+        expect(client.getStats().connectedPeers).toBe(0);
+        socket.destroy();
+      } finally {
+        await client.stop();
+      }
+    });
+
+    test('stops once the share ratio is reached', async () => {
+      const client = new TorrentClient(torrentFilePath, {
+        outputPath: path.join(tempDir, 'downloads'),
+        port: 0,
+        seedAfter: true,
+        seedRatio: 1.5,
+      });
+
+      await client.start();
+
+      const completed = new Promise<any>((resolve) => client.once('seeding_completed', resolve));
+      const stopped = new Promise<void>((resolve) => client.once('download_stopped', resolve));
+
+      client['bytesUploaded'] = 32768;
+      client['checkSeedLimits']();
+      expect(client.currentStatus).toBe('seeding');
+
+      client['bytesUploaded'] = 49152;
+      client['checkSeedLimits']();
+
+      const event = await completed;
+      expect(event.reason).toBe('ratio');
+      expect(event.ratio).toBe(1.5);
+
+      await stopped;
+      expect(client.currentStatus).toBe('stopped');
+    });
+
+    test('stops once the seed time is reached', async () => {
+      const client = new TorrentClient(torrentFilePath, {
+        outputPath: path.join(tempDir, 'downloads'),
+        port: 0,
+        seedAfter: true,
+        seedTime: 60000,
+      });
+
+      await client.start();
+
+      const completed = new Promise<any>((resolve) => client.once('seeding_completed', resolve));
+      const now = Date.now();
+      const clock = jest.spyOn(Date, 'now').mockReturnValue(now + 60000);
+
+      try {
+        client['checkSeedLimits']();
+      } finally {
+        clock.mockRestore();
+      }
+
+      const event = await completed;
+      expect(event.reason).toBe('time');
+      expect(event.seedingTime).toBeGreaterThanOrEqual(60000);
+      await client.stop();
+    });
+  });
+
   describe('Event Handling', () => {
     test('emits client_created event', () => {
       const client = new TorrentClient(torrentFilePath, {
@@ -243,9 +701,15 @@ describe('TorrentClient', () => {
       TorrentStorage.mockImplementation(() => ({
         initialize: jest.fn().mockResolvedValue(undefined),
         isComplete: jest.fn().mockReturnValue(false),
+        isSelectionComplete: jest.fn().mockReturnValue(false),
+        readPartialPieces: jest.fn().mockResolvedValue([]),
+        writePartialPieces: jest.fn().mockResolvedValue(undefined),
+        getCompletedPieces: jest.fn().mockReturnValue(new Set()),
         getStats: jest.fn().mockReturnValue({
           totalSize: 32768,
           writtenSize: 0,
+          wantedSize: 32768,
+          wantedWrittenSize: 0,
           verifiedPieces: 0,
           totalPieces: 2,
           isComplete: false,
@@ -257,6 +721,7 @@ describe('TorrentClient', () => {
 
       const { PieceScheduler } = require('./scheduler');
       PieceScheduler.mockImplementation(() => ({
+        getPartialPieces: jest.fn().mockReturnValue([]),
         getStats: jest.fn().mockReturnValue({
           piecesCompleted: 0,
           piecesTotal: 2,
@@ -304,30 +769,163 @@ describe('TorrentClient', () => {
       expect(client1['peerId'].toString('ascii')).not.toBe(client2['peerId'].toString('ascii'));
     });
 
-    test('splits data into blocks correctly', () => {
+    test('reports verified pieces back to the scheduler', async () => {
+      const client = new TorrentClient(torrentFilePath, {
+        outputPath: path.join(tempDir, 'downloads'),
+      });
+
+      const scheduler = { pieceVerified: jest.fn(), pieceFailed: jest.fn() };
+      const writePiece = jest.fn().mockResolvedValue(true);
+      client['scheduler'] = scheduler as any;
+      client['storage'] = { writePiece } as any;
+
+      const data = Buffer.alloc(16384);
+      await client['storePiece'](0, data);
+
+      expect(writePiece).toHaveBeenCalledWith(0, data);
+      expect(scheduler.pieceVerified).toHaveBeenCalledWith(0);
+      expect(scheduler.pieceFailed).not.toHaveBeenCalled();
+    });
+
+    test('keeps the blocks of unfinished pieces when stopping', async () => {
+      const client = new TorrentClient(torrentFilePath, {
+        outputPath: path.join(tempDir, 'downloads'),
+      });
+
+      const partial = [{ pieceIndex: 1, data: Buffer.alloc(16384), receivedBlocks: new Set([0]) }];
+      const storage = { writePartialPieces: jest.fn().mockResolvedValue(undefined), close: jest.fn() };
+      client['scheduler'] = { getPartialPieces: jest.fn().mockReturnValue(partial), destroy: jest.fn() } as any;
+      client['storage'] = storage as any;
+      client['status'] = 'downloading';
+
+      await client.stop();
+
+      expect(storage.writePartialPieces).toHaveBeenCalledWith(partial);
+      expect(storage.close).toHaveBeenCalled();
+    });
+
+    test('reports hash and write failures back to the scheduler', async () => {
+      const client = new TorrentClient(torrentFilePath, {
+        outputPath: path.join(tempDir, 'downloads'),
+      });
+
+      const scheduler = { pieceVerified: jest.fn(), pieceFailed: jest.fn(), pieceStoreFailed: jest.fn() };
+      const writePiece = jest.fn()
+        .mockResolvedValueOnce(false)
+        .mockRejectedValueOnce(new Error('disk full'));
+      client['scheduler'] = scheduler as any;
+      client['storage'] = { writePiece } as any;
+
+      await client['storePiece'](0, Buffer.alloc(16384));
+      await client['storePiece'](1, Buffer.alloc(16384));
+
+      // Only a failed hash check is the peers' fault
+      expect(scheduler.pieceFailed).toHaveBeenCalledTimes(1);
+      expect(scheduler.pieceFailed).toHaveBeenCalledWith(0, 'Hash verification failed');
+      expect(scheduler.pieceStoreFailed).toHaveBeenCalledWith(1, 'disk full');
+      expect(scheduler.pieceVerified).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Disk Cache', () => {
+    test('stops when cached pieces cannot be written', async () => {
+      const client = new TorrentClient(torrentFilePath, {
+        outputPath: path.join(tempDir, 'downloads'),
+      });
+
+      const storage = Object.assign(new EventEmitter(), {
+        writePartialPieces: jest.fn().mockResolvedValue(undefined),
+        close: jest.fn(),
+      });
+      client['storage'] = storage as any;
+      client['status'] = 'downloading';
+      client['setupStorageEventHandlers']();
+
+      const errors: Error[] = [];
+      client.on('error', (error) => errors.push(error));
+      const stopped = new Promise(resolve => client.once('download_stopped', resolve));
+
+      storage.emit('cache_flush_failed', { error: 'No space left on device' });
+      await stopped;
+
+      expect(errors[0]).toBeInstanceOf(ClientError);
+      expect(errors[0].message).toContain('No space left on device');
+      expect(storage.close).toHaveBeenCalled();
+      expect(client.currentStatus).toBe('stopped');
+    });
+  });
+
+  describe('Streaming', () => {
+    test('forwards piece deadlines to the scheduler', () => {
       const client = new TorrentClient(torrentFilePath, {
         outputPath: path.join(tempDir, 'downloads'),
-        blockSize: 1024,
+        sequential: true,
       });
 
-      const testData = Buffer.alloc(3000, 0xAA);
-      const blocks = client['splitIntoBlocks'](testData, 1024);
+      expect(client['options'].sequential).toBe(true);
+      expect(() => client.setPieceDeadline(0, 2000)).toThrow('Download is not running');
 
-      expect(blocks).toHaveLength(3);
-      expect(blocks[0]).toHaveLength(1024);
-      expect(blocks[1]).toHaveLength(1024);
-      expect(blocks[2]).toHaveLength(952); // Remaining bytes
+      const scheduler = { setPieceDeadline: jest.fn() };
+      client['scheduler'] = scheduler as any;
+
+      client.setPieceDeadline(1, 2000);
+      expect(scheduler.setPieceDeadline).toHaveBeenCalledWith(1, 2000);
+      expect(() => client.setPieceDeadline(2, 2000)).toThrow(ClientError);
     });
+  });
 
-    test('handles empty data', () => {
+  describe('File Priorities', () => {
+    beforeEach(() => {
+      const { parseTorrentFile } = require('./metainfo');
+      parseTorrentFile.mockReturnValue({
+        ...mockTorrentMeta,
+        name: 'album',
+        files: [
+          { path: ['disc1', 'a.flac'], length: 16384, offset: 0 },
+          { path: ['disc1', 'b.flac'], length: 16384, offset: 16384 },
+        ],
+      });
+    });
+
+    test('lists files with their priorities', () => {
+      const client = new TorrentClient(torrentFilePath, {
+        outputPath: path.join(tempDir, 'downloads'),
+      });
+
+      client.setFilePriority(1, 'skip');
+
+      expect(client.getFiles()).toEqual([
+        { path: 'disc1/a.flac', length: 16384, priority: 'normal' },
+        { path: 'disc1/b.flac', length: 16384, priority: 'skip' },
+      ]);
+      expect(client['priorities'].getWantedBytes()).toBe(16384);
+    });
+
+    test('rejects unknown files and piece ranges', () => {
+      const client = new TorrentClient(torrentFilePath, {
+        outputPath: path.join(tempDir, 'downloads'),
+      });
+
+      expect(() => client.setFilePriority(2, 'high')).toThrow(ClientError);
+      expect(() => client.setPiecePriority(1, 3, 'skip')).toThrow(ClientError);
+      expect(() => client.setPiecePriority(1, 1, 'skip')).toThrow(ClientError);
+    });
+
+    test('applies priority changes to storage and scheduler', () => {
       const client = new TorrentClient(torrentFilePath, {
         outputPath: path.join(tempDir, 'downloads'),
       });
 
-      const emptyData = Buffer.alloc(0);
-      const blocks = client['splitIntoBlocks'](emptyData, 1024);
+      const storage = { updatePriorities: jest.fn(), isSelectionComplete: jest.fn().mockReturnValue(false) };
+      const scheduler = { updatePriorities: jest.fn() };
+      client['storage'] = storage as any;
+      client['scheduler'] = scheduler as any;
+
+      client.setPiecePriority(0, 1, 'high');
 
-      expect(blocks).toHaveLength(0);
+      expect(client['priorities'].getLevel(0)).toBe(3);
+      expect(storage.updatePriorities).toHaveBeenCalled();
+      expect(scheduler.updatePriorities).toHaveBeenCalled();
     });
   });
 
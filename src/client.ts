@@ -1,10 +1,19 @@
 import { EventEmitter } from 'events';
 import * as crypto from 'crypto';
-import { TorrentMeta, parseTorrentFile } from './metainfo';
-import { TrackerClient } from './tracker';
-import { PeerConnection, BitSet } from './peer';
+import * as net from 'net';
+import * as path from 'path';
+import { TorrentMeta, parseTorrentFile, getFiles } from './metainfo';
+import { TrackerManager } from './tracker-manager';
+import { PeerConnection, PeerInfo, BitSet } from './peer';
 import { PieceScheduler } from './scheduler';
 import { TorrentStorage } from './storage';
+import { HashPool } from './hash-pool';
+import { DiskCache } from './disk-cache';
+import { ReadCache } from './read-cache';
+import { UploadManager } from './upload';
+import { Choker } from './choker';
+import { DHT, DHT_BOOTSTRAP_NODES } from './dht';
+import { PiecePriorities, Priority } from './priorities';
 
 export class ClientError extends Error {
   constructor(message: string) {
@@ -17,19 +26,37 @@ export interface ClientOptions {
   outputPath: string;
   maxPeers?: number;
   blockSize?: number;
-  windowSize?: number;
+  windowSize?: number;   // initial requests in flight per peer
+  minWindow?: number;    // bounds for each peer's adaptive request pipeline
+  maxWindow?: number;
   port?: number;
-  announceInterval?: number;
-  requestTimeout?: number;
+  announceInterval?: number; // ms between announces until a tracker tells us its interval
+  requestTimeout?: number; // upper bound on round-trip based request timeouts, ms
+  snubTimeout?: number;    // ms without a block before a peer is snubbed
+  sequential?: boolean;    // download pieces in order for streaming, see setPieceDeadline
+  uploadSlots?: number;
+  seedAfter?: boolean;   // keep seeding once the download completes
+  seedRatio?: number;    // stop seeding at this upload/size ratio (0 = no limit)
+  seedTime?: number;     // stop seeding after this many ms (0 = no limit)
+  initialPeers?: PeerInfo[]; // peers known up front, e.g. from a magnet link
+  dht?: boolean;         // find peers through the mainline DHT
+  dhtBootstrap?: string[]; // host:port of DHT bootstrap nodes
+  dhtStatePath?: string; // persist the DHT routing table here ('' = don't persist)
+  resumeDir?: string;    // keep fast-resume records here ('' = next to the data)
+  hashWorkers?: number;  // worker threads verifying pieces (0 = hash on the main thread)
+  cacheSize?: number;    // bytes of verified pieces held back to write in larger batches (0 = write each piece)
+  readCacheSize?: number; // bytes of pieces kept in memory for uploads (0 = read every block from disk)
 }
 
 export interface ClientStats {
   status: 'stopped' | 'starting' | 'downloading' | 'seeding' | 'completed' | 'error';
   torrentName: string;
   totalSize: number;
+  wantedSize: number;     // bytes of the pieces selected for download
   downloadedSize: number;
   uploadedSize: number;
   remainingSize: number;
+  ratio: number;
   progress: number;
   downloadRate: number;
   uploadRate: number;
@@ -42,11 +69,19 @@ export interface ClientStats {
   totalPieces: number;
   endgameActive: boolean;
   eta: number;
+  seedingTime: number;
+  dhtNodes: number;
   announces: number;
   announceInterval: number;
   uptime: number;
 }
 
+export interface FileStatus {
+  path: string;       // relative to the torrent root
+  length: number;
+  priority: Priority;
+}
+
 export interface PeerStats {
   id: string;
   address: string;
@@ -56,62 +91,106 @@ export interface PeerStats {
   uploadRate: number;
   pieces: number;
   inflightRequests: number;
+  pipelineDepth: number; // requests we allow in flight to the peer
+  rtt: number;           // smoothed block round trip, ms (0 until measured)
+  snubbed: boolean;      // stopped delivering blocks and only gets leftover requests
   isChoked: boolean;
   isInterested: boolean;
   peerChoked: boolean;
   peerInterested: boolean;
   lastActive: number;
+  strikes: number; // pieces that failed verification because of this peer
 }
 
 export class TorrentClient extends EventEmitter {
   private static readonly DEFAULT_MAX_PEERS = 30;
   private static readonly DEFAULT_BLOCK_SIZE = 16384; // 16KB
   private static readonly DEFAULT_WINDOW_SIZE = 12;
+  private static readonly DEFAULT_MIN_WINDOW = 1;
+  private static readonly DEFAULT_MAX_WINDOW = 250;
+  private static readonly DEFAULT_SNUB_TIMEOUT = 60000;
   private static readonly DEFAULT_PORT = 6881;
   private static readonly DEFAULT_ANNOUNCE_INTERVAL = 30 * 60 * 1000; // 30 minutes
+  private static readonly DEFAULT_UPLOAD_SLOTS = 4;
+  private static readonly RECHOKE_INTERVAL = 10000; // 10 seconds
+  private static readonly UDP_TRACKER_RETRIES = 2; // a dead UDP tracker would otherwise stall announces for hours
+  private static readonly STOPPED_ANNOUNCE_TIMEOUT = 5000; // shutdown doesn't wait any longer on dead trackers
+  private static readonly DHT_ANNOUNCE_INTERVAL = 15 * 60 * 1000; // 15 minutes
   private static readonly PEER_ID_PREFIX = '-JS0001-';
 
   private readonly torrentMeta: TorrentMeta;
   private readonly options: Required<ClientOptions>;
   private readonly peerId: Buffer;
+  private readonly priorities: PiecePriorities; // shared with storage and the scheduler
   
   // Core components
-  private tracker?: TrackerClient;
+  private trackers?: TrackerManager;
   private scheduler?: PieceScheduler;
   private storage?: TorrentStorage;
+  private hashPool?: HashPool;
+  private uploader?: UploadManager;
+  private choker?: Choker;
+  private dht?: DHT;
+  private server?: net.Server;
   
   // State management
   private status: ClientStats['status'] = 'stopped';
   private readonly connectedPeers: Map<string, PeerConnection> = new Map();
   private readonly knownPeers: Set<string> = new Set();
+  private readonly bannedPeers: Map<string, number> = new Map(); // ip -> strikes at ban time
   private bytesUploaded = 0;
+  private pendingInbound = 0;
+  private listenPort?: number;
   private startTime?: number;
+  private seedStartTime?: number;
   private announceCount = 0;
+  private trackerInterval?: number; // ms, as asked for by the last tracker that answered
+  private stopping?: Promise<void>;
   
   // Timers
   private announceTimer?: NodeJS.Timeout;
   private statsTimer?: NodeJS.Timeout;
   private peerConnectTimer?: NodeJS.Timeout;
+  private chokeTimer?: NodeJS.Timeout;
+  private seedTimer?: NodeJS.Timeout;
+  private dhtTimer?: NodeJS.Timeout;
 
-  constructor(torrentFilePath: string, options: ClientOptions) {
+  constructor(torrent: string | TorrentMeta, options: ClientOptions) {
     super();
     
-    // Parse torrent file
-    this.torrentMeta = parseTorrentFile(torrentFilePath);
+    // Parse torrent file, unless the metadata is already known (magnet links)
+    this.torrentMeta = typeof torrent === 'string' ? parseTorrentFile(torrent) : torrent;
     
     // Set up options with defaults
     this.options = {
       maxPeers: options.maxPeers ?? TorrentClient.DEFAULT_MAX_PEERS,
       blockSize: options.blockSize ?? TorrentClient.DEFAULT_BLOCK_SIZE,
       windowSize: options.windowSize ?? TorrentClient.DEFAULT_WINDOW_SIZE,
+      minWindow: options.minWindow ?? TorrentClient.DEFAULT_MIN_WINDOW,
+      maxWindow: options.maxWindow ?? TorrentClient.DEFAULT_MAX_WINDOW,
       port: options.port ?? TorrentClient.DEFAULT_PORT,
       announceInterval: options.announceInterval ?? TorrentClient.DEFAULT_ANNOUNCE_INTERVAL,
       requestTimeout: options.requestTimeout ?? 30000,
+      snubTimeout: options.snubTimeout ?? TorrentClient.DEFAULT_SNUB_TIMEOUT,
+      sequential: options.sequential ?? false,
+      uploadSlots: options.uploadSlots ?? TorrentClient.DEFAULT_UPLOAD_SLOTS,
+      seedAfter: options.seedAfter ?? false,
+      seedRatio: options.seedRatio ?? 0,
+      seedTime: options.seedTime ?? 0,
+      initialPeers: options.initialPeers ?? [],
+      dht: options.dht ?? false,
+      dhtBootstrap: options.dhtBootstrap ?? DHT_BOOTSTRAP_NODES,
+      dhtStatePath: options.dhtStatePath ?? '',
+      resumeDir: options.resumeDir ?? '',
+      hashWorkers: options.hashWorkers ?? HashPool.DEFAULT_SIZE,
+      cacheSize: options.cacheSize ?? DiskCache.DEFAULT_SIZE,
+      readCacheSize: options.readCacheSize ?? ReadCache.DEFAULT_SIZE,
       outputPath: options.outputPath,
     };
     
     // Generate peer ID
     this.peerId = this.generatePeerId();
+    this.priorities = new PiecePriorities(this.torrentMeta);
     
     this.emit('client_created', {
       torrentName: this.torrentMeta.name,
@@ -129,46 +208,99 @@ export class TorrentClient extends EventEmitter {
     try {
       this.status = 'starting';
       this.startTime = Date.now();
+      this.seedStartTime = undefined;
       this.emit('status_changed', { status: this.status });
 
       // Initialize storage
+      if (this.options.hashWorkers > 0) {
+        this.hashPool = new HashPool({ size: this.options.hashWorkers });
+      }
       this.storage = new TorrentStorage(
         this.torrentMeta, 
         this.options.outputPath, 
-        this.options.blockSize
+        this.options.blockSize,
+        {
+          priorities: this.priorities,
+          resumePath: this.options.resumeDir
+            ? path.join(this.options.resumeDir, `${this.torrentMeta.infoHashV1.toString('hex')}.resume`)
+            : undefined,
+          hashPool: this.hashPool,
+          cacheSize: this.options.cacheSize,
+          readCacheSize: this.options.readCacheSize,
+        }
       );
       
-      await this.storage.initialize();
+      // Handlers first, so the recheck of existing data reports its progress
       this.setupStorageEventHandlers();
+      await this.storage.initialize();
+
+      // Initialize upload path, serving verified pieces from storage
+      this.uploader = new UploadManager(this.torrentMeta, this.storage);
+      this.setupUploaderEventHandlers();
+
+      // Initialize choker, deciding which peers we upload to
+      this.choker = new Choker({ uploadSlots: this.options.uploadSlots });
+      this.setupChokerEventHandlers();
 
-      // Check if already complete
-      if (this.storage.isComplete()) {
+      // Check if already complete, as far as the selected files go
+      const alreadyComplete = this.storage.isSelectionComplete();
+      if (alreadyComplete && !this.options.seedAfter) {
         this.status = 'completed';
         this.emit('status_changed', { status: this.status });
         this.emit('download_completed');
         return;
       }
 
-      // Initialize scheduler
-      this.scheduler = new PieceScheduler(
-        this.torrentMeta,
-        this.options.blockSize,
-        this.options.windowSize
-      );
-      
-      this.setupSchedulerEventHandlers();
+      // Initialize scheduler, nothing to fetch when seeding existing data
+      if (!alreadyComplete) {
+        this.scheduler = new PieceScheduler(
+          this.torrentMeta,
+          this.options.blockSize,
+          this.options.windowSize,
+          {
+            minWindow: this.options.minWindow,
+            maxWindow: this.options.maxWindow,
+            requestTimeout: this.options.requestTimeout,
+            snubTimeout: this.options.snubTimeout,
+            priorities: this.priorities,
+            sequential: this.options.sequential,
+            completedPieces: this.storage.getCompletedPieces(),
+            partialPieces: await this.storage.readPartialPieces(),
+          }
+        );
+
+        this.setupSchedulerEventHandlers();
+      }
 
       // Initialize tracker
-      this.tracker = new TrackerClient();
+      this.trackers = new TrackerManager(this.torrentMeta, { udpRetries: TorrentClient.UDP_TRACKER_RETRIES });
       
       this.setupTrackerEventHandlers();
 
+      for (const peer of this.options.initialPeers) {
+        this.knownPeers.add(`${peer.ip}:${peer.port}`);
+      }
+
+      // Accept incoming peer connections on the advertised port
+      await this.startListening();
+
+      // Find peers through the DHT alongside the trackers
+      if (this.options.dht) {
+        await this.startDht();
+      }
+
       // Start downloading
-      this.status = 'downloading';
-      this.emit('status_changed', { status: this.status });
+      if (!alreadyComplete) {
+        this.status = 'downloading';
+        this.emit('status_changed', { status: this.status });
+      }
 
-      // Initial tracker announce
-      await this.announceToTracker('started');
+      // Initial tracker announce; on failure the announce timer and the DHT keep looking for peers
+      try {
+        await this.announceToTracker('started');
+      } catch {
+        // Reported through announce_error
+      }
       
       // Start periodic announces
       this.startAnnounceTimer();
@@ -179,9 +311,28 @@ export class TorrentClient extends EventEmitter {
       // Start peer connection attempts
       this.startPeerConnectTimer();
 
+      // Start periodic choking rounds
+      this.startChokeTimer();
+
+      if (alreadyComplete) {
+        this.startSeeding();
+        return;
+      }
+
       this.emit('download_started');
 
     } catch (error) {
+      // Release the port and the DHT socket that were already taken
+      this.stopListening();
+      if (this.dhtTimer) {
+        clearInterval(this.dhtTimer);
+        this.dhtTimer = undefined;
+      }
+      if (this.dht) {
+        await this.dht.stop();
+        this.dht = undefined;
+      }
+
       this.status = 'error';
       this.emit('status_changed', { status: this.status });
       this.emit('error', error);
@@ -194,10 +345,21 @@ export class TorrentClient extends EventEmitter {
       return;
     }
 
+    // Share an in-progress shutdown, e.g. seeding limits racing a user stop
+    if (!this.stopping) {
+      this.stopping = this.doStop().finally(() => {
+        this.stopping = undefined;
+      });
+    }
+
+    return this.stopping;
+  }
+
+  private async doStop(): Promise<void> {
     try {
       // Clear timers
       if (this.announceTimer) {
-        clearInterval(this.announceTimer);
+        clearTimeout(this.announceTimer);
         this.announceTimer = undefined;
       }
       
@@ -211,6 +373,24 @@ export class TorrentClient extends EventEmitter {
         this.peerConnectTimer = undefined;
       }
 
+      if (this.chokeTimer) {
+        clearInterval(this.chokeTimer);
+        this.chokeTimer = undefined;
+      }
+
+      if (this.seedTimer) {
+        clearInterval(this.seedTimer);
+        this.seedTimer = undefined;
+      }
+
+      if (this.dhtTimer) {
+        clearInterval(this.dhtTimer);
+        this.dhtTimer = undefined;
+      }
+
+      // Stop accepting incoming connections
+      this.stopListening();
+
       // Disconnect all peers
       for (const peer of this.connectedPeers.values()) {
         try {
@@ -221,12 +401,38 @@ export class TorrentClient extends EventEmitter {
       }
       this.connectedPeers.clear();
 
-      // Final tracker announce
-      if (this.tracker) {
+      // Final tracker announce; walking every tier of dead trackers could take minutes
+      if (this.trackers) {
+        let timer: NodeJS.Timeout | undefined;
         try {
-          await this.announceToTracker('stopped');
+          await Promise.race([
+            this.announceToTracker('stopped'),
+            new Promise<void>((resolve) => {
+              timer = setTimeout(resolve, TorrentClient.STOPPED_ANNOUNCE_TIMEOUT);
+            }),
+          ]);
         } catch {
           // Ignore final announce errors
+        } finally {
+          clearTimeout(timer);
+        }
+
+        this.trackers.destroy();
+        this.trackers = undefined;
+      }
+
+      // Persists the routing table
+      if (this.dht) {
+        await this.dht.stop();
+        this.dht = undefined;
+      }
+
+      // Keep the blocks of unfinished pieces for the next run
+      if (this.scheduler && this.storage) {
+        try {
+          await this.storage.writePartialPieces(this.scheduler.getPartialPieces());
+        } catch (error) {
+          this.emit('debug', `⚠️ Failed to keep partial pieces: ${error instanceof Error ? error.message : error}`);
         }
       }
 
@@ -235,12 +441,27 @@ export class TorrentClient extends EventEmitter {
         this.scheduler.destroy();
         this.scheduler = undefined;
       }
+
+      if (this.uploader) {
+        this.uploader.destroy();
+        this.uploader = undefined;
+      }
+
+      if (this.choker) {
+        this.choker.destroy();
+        this.choker = undefined;
+      }
       
       if (this.storage) {
         await this.storage.close();
         this.storage = undefined;
       }
 
+      if (this.hashPool) {
+        await this.hashPool.destroy();
+        this.hashPool = undefined;
+      }
+
       this.status = 'stopped';
       this.emit('status_changed', { status: this.status });
       this.emit('download_stopped');
@@ -267,11 +488,15 @@ export class TorrentClient extends EventEmitter {
     
     const storageStats = this.storage?.getStats();
     const schedulerStats = this.scheduler?.getStats();
+    const uploadStats = this.uploader?.getStats();
     
     const downloadedSize = storageStats?.writtenSize ?? 0;
     const totalSize = this.torrentMeta.length;
-    const remainingSize = totalSize - downloadedSize;
-    const progress = totalSize > 0 ? (downloadedSize / totalSize) * 100 : 0;
+    const wantedSize = storageStats?.wantedSize ?? this.priorities.getWantedBytes();
+    const wantedDownloaded = storageStats?.wantedWrittenSize ?? 0;
+    const remainingSize = wantedSize - wantedDownloaded;
+    const progress = wantedSize > 0 ? (wantedDownloaded / wantedSize) * 100 : 0;
+    const ratio = totalSize > 0 ? this.bytesUploaded / totalSize : 0;
     
     // Calculate ETA
     const downloadRate = schedulerStats?.downloadRate ?? 0;
@@ -281,23 +506,27 @@ export class TorrentClient extends EventEmitter {
       status: this.status,
       torrentName: this.torrentMeta.name,
       totalSize,
+      wantedSize,
       downloadedSize,
       uploadedSize: this.bytesUploaded,
       remainingSize,
+      ratio,
       progress,
       downloadRate,
-      uploadRate: 0, // Not implemented in MVP
+      uploadRate: uploadStats?.uploadRate ?? 0,
       connectedPeers: this.connectedPeers.size,
       totalPeers: this.knownPeers.size,
       availablePeers: schedulerStats?.availablePeers ?? 0,
       seeders: 0, // Would need tracker stats
       leechers: 0, // Would need tracker stats
-      completedPieces: schedulerStats?.piecesCompleted ?? 0,
-      totalPieces: schedulerStats?.piecesTotal ?? 0,
+      completedPieces: schedulerStats?.piecesCompleted ?? storageStats?.verifiedPieces ?? 0,
+      totalPieces: schedulerStats?.piecesTotal ?? storageStats?.totalPieces ?? 0,
       endgameActive: schedulerStats?.endgameActive ?? false,
       eta,
+      seedingTime: this.seedStartTime ? now - this.seedStartTime : 0,
+      dhtNodes: this.dht?.getStats().nodes ?? 0,
       announces: this.announceCount,
-      announceInterval: this.options.announceInterval,
+      announceInterval: this.trackerInterval ?? this.options.announceInterval,
       uptime,
     };
   }
@@ -318,11 +547,37 @@ export class TorrentClient extends EventEmitter {
         uploadRate: state.throughput?.upBps ?? 0,
         pieces: state.bitfield?.countSet() ?? 0,
         inflightRequests: state.inflight,
+        pipelineDepth: this.scheduler?.getPipelineDepth(peer) ?? 0,
+        rtt: this.scheduler?.getRtt(peer) ?? 0,
+        snubbed: this.scheduler?.isSnubbed(peer) ?? false,
         isChoked: state.choked,
         isInterested: state.interested,
         peerChoked: state.peerChoked,
         peerInterested: state.peerInterested,
         lastActive: state.lastActive,
+        strikes: this.scheduler?.getStrikes(ip) ?? 0,
+      });
+    }
+
+    for (const [ip, strikes] of this.bannedPeers) {
+      stats.push({
+        id: ip,
+        address: ip,
+        port: 0,
+        status: 'banned',
+        downloadRate: 0,
+        uploadRate: 0,
+        pieces: 0,
+        inflightRequests: 0,
+        pipelineDepth: 0,
+        rtt: 0,
+        snubbed: false,
+        isChoked: true,
+        isInterested: false,
+        peerChoked: true,
+        peerInterested: false,
+        lastActive: 0,
+        strikes,
       });
     }
     
@@ -340,39 +595,46 @@ export class TorrentClient extends EventEmitter {
     this.storage.on('piece_completed', (event) => {
       this.emit('piece_completed', event);
       
-      // Check if download is complete
-      if (this.storage?.isComplete()) {
+      // Check if every selected piece is done
+      if (this.storage?.isSelectionComplete()) {
         this.handleDownloadComplete();
       }
     });
 
-    this.storage.on('block_added', (event) => {
-      this.emit('block_received', event);
-    });
-
     this.storage.on('piece_hash_failed', (event) => {
       this.emit('piece_hash_failed', event);
     });
 
+    this.storage.on('piece_write_failed', (event) => {
+      this.emit('piece_write_failed', event);
+    });
+
+    this.storage.on('piece_checked', (event) => {
+      this.emit('piece_checked', event);
+    });
+
+    this.storage.on('resume_loaded', (event) => {
+      this.emit('resume_loaded', event);
+    });
+
     this.storage.on('download_completed', () => {
       this.handleDownloadComplete();
     });
+
+    // Pieces still in the cache were already reported complete and announced, so stop rather than serve them
+    this.storage.on('cache_flush_failed', (event) => {
+      this.emit('error', new ClientError(`Failed to write downloaded data: ${event.error}`));
+      this.stop().catch(() => {
+        // Errors are emitted by stop()
+      });
+    });
   }
 
   private setupSchedulerEventHandlers(): void {
     if (!this.scheduler) return;
 
-    this.scheduler.on('piece_completed', (event) => {
-      // Forward piece data to storage
-      if (this.storage) {
-        const pieceIndex = event.pieceIndex;
-        const blocks = this.splitIntoBlocks(event.data, this.options.blockSize);
-        
-        for (let i = 0; i < blocks.length; i++) {
-          const blockOffset = i * this.options.blockSize;
-          this.storage.addBlock(pieceIndex, blockOffset, blocks[i]);
-        }
-      }
+    this.scheduler.on('piece_assembled', (event) => {
+      this.storePiece(event.pieceIndex, event.data);
     });
 
     this.scheduler.on('endgame_started', () => {
@@ -381,37 +643,96 @@ export class TorrentClient extends EventEmitter {
 
     this.scheduler.on('request_timeout', (event) => {
       this.emit('peer_timeout', { peer: event.peer });
-      // Could implement peer scoring here
+    });
+
+    this.scheduler.on('peer_snubbed', (event) => {
+      const info = event.peer.getPeerInfo();
+      this.emit('peer_snubbed', { address: `${info.ip}:${info.port}` });
+      this.emit('debug', `🐌 Peer ${info.ip}:${info.port} stopped delivering, its requests were reassigned`);
     });
 
     this.scheduler.on('piece_error', (event) => {
       this.emit('piece_error', event);
     });
+
+    this.scheduler.on('peer_strike', (event) => {
+      this.emit('peer_strike', event);
+      this.emit('debug', `⚠️ Peer ${event.ip} sent bad data for piece ${event.pieceIndex} (${event.strikes} strikes)`);
+    });
+
+    this.scheduler.on('peer_banned', (event) => {
+      this.banPeer(event.ip, event.strikes);
+    });
+  }
+
+  private setupUploaderEventHandlers(): void {
+    if (!this.uploader) return;
+
+    this.uploader.on('block_uploaded', (event) => {
+      this.bytesUploaded += event.length;
+      this.emit('block_uploaded', {
+        peer: `${event.peer.getPeerInfo().ip}:${event.peer.getPeerInfo().port}`,
+        pieceIndex: event.pieceIndex,
+        begin: event.begin,
+        length: event.length,
+      });
+    });
+
+    this.uploader.on('request_rejected', (event) => {
+      this.emit('debug', `🚫 Rejected request from ${event.peer.getPeerInfo().ip}: ${event.error}`);
+    });
+
+    this.uploader.on('upload_error', (event) => {
+      this.emit('upload_error', { error: event.error });
+    });
+  }
+
+  private setupChokerEventHandlers(): void {
+    if (!this.choker) return;
+
+    this.choker.on('peer_unchoked', (event) => {
+      const info = event.peer.getPeerInfo();
+      this.emit('debug', `🔓 Unchoked peer ${info.ip}:${info.port}${event.optimistic ? ' (optimistic)' : ''}`);
+    });
+
+    this.choker.on('peer_choked', (event) => {
+      // Pending requests from a choked peer are discarded per the protocol
+      this.uploader?.clearRequests(event.peer);
+      const info = event.peer.getPeerInfo();
+      this.emit('debug', `🔒 Choked peer ${info.ip}:${info.port}`);
+    });
   }
 
   private setupTrackerEventHandlers(): void {
-    // TrackerClient doesn't extend EventEmitter in current implementation
-    // Events will be handled through promise resolution/rejection
+    if (!this.trackers) return;
+
+    // A failing tracker is only fatal once every tier has failed
+    this.trackers.on('tracker_error', (event) => {
+      this.emit('tracker_error', event);
+    });
   }
 
   private async announceToTracker(event: 'started' | 'completed' | 'stopped'): Promise<void> {
-    if (!this.tracker || !this.storage) return;
+    if (!this.trackers || !this.storage || !this.trackers.hasTrackers()) return;
 
     const stats = this.storage.getStats();
     
     try {
-      const result = await this.tracker.announce(this.torrentMeta.announce, {
+      const result = await this.trackers.announce({
         infoHash: this.torrentMeta.infoHashV1,
         peerId: this.peerId,
-        port: this.options.port,
+        port: this.listenPort ?? this.options.port,
         event,
         downloaded: stats.writtenSize,
         uploaded: this.bytesUploaded,
-        left: stats.totalSize - stats.writtenSize,
+        left: stats.wantedSize - stats.wantedWrittenSize,
         compact: true,
       });
       
       this.announceCount++;
+      if (result.interval > 0) {
+        this.trackerInterval = result.interval * 1000;
+      }
       
       // Add new peers
       for (const peer of result.peers) {
@@ -420,6 +741,7 @@ export class TorrentClient extends EventEmitter {
       }
       
       this.emit('announce_success', {
+        url: result.url,
         interval: result.interval,
         seeders: result.complete ?? 0,
         leechers: result.incomplete ?? 0,
@@ -431,35 +753,205 @@ export class TorrentClient extends EventEmitter {
     }
   }
 
+  private async startDht(): Promise<void> {
+    const dht = new DHT({
+      port: this.listenPort ?? this.options.port,
+      bootstrap: this.options.dhtBootstrap,
+      statePath: this.options.dhtStatePath || undefined,
+    });
+
+    dht.on('warning', (error) => {
+      this.emit('debug', `DHT warning: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    });
+
+    try {
+      await dht.start();
+    } catch (error) {
+      // Trackers still work without the DHT
+      this.emit('dht_error', { error });
+      return;
+    }
+
+    this.dht = dht;
+    this.emit('dht_started', { port: dht.getPort() });
+
+    dht.bootstrap()
+      .then(() => {
+        this.emit('dht_ready', { nodes: dht.getStats().nodes });
+        return this.announceToDht();
+      })
+      .catch((error) => {
+        this.emit('dht_error', { error });
+      });
+
+    this.dhtTimer = setInterval(() => {
+      this.announceToDht().catch((error) => {
+        this.emit('dht_error', { error });
+      });
+    }, TorrentClient.DHT_ANNOUNCE_INTERVAL);
+  }
+
+  private async announceToDht(): Promise<void> {
+    if (!this.dht) return;
+
+    const peers = await this.dht.announce(this.torrentMeta.infoHashV1, this.listenPort ?? this.options.port);
+
+    for (const peer of peers) {
+      this.knownPeers.add(`${peer.ip}:${peer.port}`);
+    }
+
+    this.emit('dht_peers', { peers: peers.length, nodes: this.dht?.getStats().nodes ?? 0 });
+  }
+
+  // Rescheduled after every announce, as the tracker may change its interval
   private startAnnounceTimer(): void {
-    this.announceTimer = setInterval(async () => {
+    const timer = setTimeout(async () => {
       try {
-        await this.announceToTracker(this.status === 'completed' ? 'completed' : 'started');
-      } catch (error) {
-        this.emit('announce_error', { error });
+        await this.announceToTracker(this.status === 'completed' || this.status === 'seeding' ? 'completed' : 'started');
+      } catch {
+        // Reported through announce_error
+      }
+
+      // Unless stopped meanwhile
+      if (this.announceTimer === timer) {
+        this.startAnnounceTimer();
       }
-    }, this.options.announceInterval);
+    }, this.trackerInterval ?? this.options.announceInterval);
+    this.announceTimer = timer;
   }
 
   private startStatsTimer(): void {
     this.statsTimer = setInterval(() => {
+      // Peers only update their rates as blocks move, idle ones would keep their last rate
+      for (const peer of this.connectedPeers.values()) {
+        peer.updateThroughput();
+      }
       this.emit('stats_updated', this.getStats());
     }, 1000); // Update stats every second
   }
 
+  private startChokeTimer(): void {
+    this.chokeTimer = setInterval(() => {
+      this.choker?.rechoke();
+    }, TorrentClient.RECHOKE_INTERVAL);
+  }
+
+  private startSeedTimer(): void {
+    this.seedTimer = setInterval(() => {
+      this.checkSeedLimits();
+    }, 1000); // Check seeding limits every second
+  }
+
   private startPeerConnectTimer(): void {
     this.peerConnectTimer = setInterval(() => {
       this.tryConnectToPeers();
     }, 5000); // Try connecting to peers every 5 seconds
   }
 
+  private async startListening(): Promise<void> {
+    const server = net.createServer((socket) => {
+      this.handleIncomingConnection(socket).catch((error) => {
+        this.emit('debug', `Incoming connection failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      });
+    });
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(this.options.port, () => {
+          server.off('error', reject);
+          resolve();
+        });
+      });
+    } catch (error) {
+      // Downloading still works without inbound connections
+      this.emit('listen_error', { port: this.options.port, error });
+      return;
+    }
+
+    server.on('error', (error) => {
+      this.emit('listen_error', { port: this.options.port, error });
+    });
+
+    const address = server.address();
+    this.listenPort = address && typeof address === 'object' ? address.port : this.options.port;
+    this.server = server;
+
+    this.emit('listening', { port: this.listenPort });
+  }
+
+  private stopListening(): void {
+    if (!this.server) {
+      return;
+    }
+
+    // Connections already accepted are torn down with the peers
+    this.server.close();
+    this.server = undefined;
+    this.listenPort = undefined;
+  }
+
+  private async handleIncomingConnection(socket: net.Socket): Promise<void> {
+    const ip = (socket.remoteAddress ?? '').replace(/^::ffff:/, '');
+    const port = socket.remotePort ?? 0;
+    const address = `${ip}:${port}`;
+
+    if (!this.uploader || this.connectedPeers.size + this.pendingInbound >= this.options.maxPeers) {
+      this.emit('debug', `Rejecting incoming connection from ${address}: peer limit reached`);
+      socket.destroy();
+      return;
+    }
+
+    if (this.connectedPeers.has(address) || this.bannedPeers.has(ip)) {
+      socket.destroy();
+      return;
+    }
+
+    this.pendingInbound++;
+    this.emit('debug', `Incoming connection from ${address}`);
+
+    try {
+      const peer = new PeerConnection(
+        { ip, port },
+        this.torrentMeta.infoHashV1,
+        this.peerId,
+        Math.ceil(this.torrentMeta.length / this.torrentMeta.pieceLength),
+        socket
+      );
+
+      peer.setLocalBitfield(this.buildLocalBitfield());
+
+      if (this.dht) {
+        peer.enableDht(this.dht.getPort());
+      }
+
+      // Validates the remote handshake against our info hash and replies
+      await peer.accept();
+
+      this.setupPeerEventHandlers(peer, address);
+      this.attachPeer(peer);
+
+      this.connectedPeers.set(address, peer);
+
+      this.emit('peer_connected', { address, peer, inbound: true });
+      this.dropPeerIfSeed(peer, address);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown connection error';
+      this.emit('peer_connect_failed', { address, error: errorMessage });
+      socket.destroy();
+      throw error;
+    } finally {
+      this.pendingInbound--;
+    }
+  }
+
   private async tryConnectToPeers(): Promise<void> {
     if (this.connectedPeers.size >= this.options.maxPeers) {
       return;
     }
 
     const availablePeers = Array.from(this.knownPeers).filter(
-      address => !this.connectedPeers.has(address)
+      address => !this.connectedPeers.has(address) && !this.isBanned(address)
     );
 
     if (availablePeers.length === 0) {
@@ -494,6 +986,12 @@ export class TorrentClient extends EventEmitter {
       this.emit('peer_connect_failed', { address, error });
       throw new Error(error);
     }
+
+    if (this.bannedPeers.has(ip)) {
+      const error = `Peer is banned: ${address}`;
+      this.emit('peer_connect_failed', { address, error });
+      throw new Error(error);
+    }
     
     this.emit('debug', `Creating peer connection to ${ip}:${port}`);
     
@@ -506,6 +1004,12 @@ export class TorrentClient extends EventEmitter {
       );
       
       this.emit('debug', `Peer object created for ${address}, setting up event handlers`);
+
+      peer.setLocalBitfield(this.buildLocalBitfield());
+
+      if (this.dht) {
+        peer.enableDht(this.dht.getPort());
+      }
       
       // Set up peer event handlers
       this.setupPeerEventHandlers(peer, address);
@@ -518,10 +1022,8 @@ export class TorrentClient extends EventEmitter {
       this.emit('debug', `TCP connection established to ${address}`);
       
       // Add peer to scheduler and our tracking
-      if (this.scheduler) {
-        this.scheduler.addPeer(peer);
-        this.emit('debug', `Added peer ${address} to scheduler`);
-      }
+      this.attachPeer(peer);
+      this.emit('debug', `Added peer ${address} to scheduler`);
       
       this.connectedPeers.set(address, peer);
       
@@ -536,8 +1038,74 @@ export class TorrentClient extends EventEmitter {
     }
   }
 
+  private attachPeer(peer: PeerConnection): void {
+    if (this.scheduler) {
+      // The bitfield may have arrived along with the handshake, before we listened for it
+      const bitfield = peer.getState().bitfield;
+      this.scheduler.addPeer(
+        peer,
+        bitfield.countSet() > 0 ? BitSet.fromBuffer(bitfield.toBuffer(), bitfield.getSize()) : undefined
+      );
+    }
+
+    if (this.uploader) {
+      this.uploader.addPeer(peer);
+    }
+
+    if (this.choker) {
+      this.choker.addPeer(peer);
+    }
+  }
+
+  private buildLocalBitfield(): BitSet {
+    const bitfield = new BitSet(Math.ceil(this.torrentMeta.length / this.torrentMeta.pieceLength));
+    for (const pieceIndex of this.storage?.getCompletedPieces() ?? []) {
+      bitfield.set(pieceIndex);
+    }
+    return bitfield;
+  }
+
+  private dropPeer(peer: PeerConnection, address: string, reason: string): void {
+    this.connectedPeers.delete(address);
+    this.scheduler?.removePeer(peer);
+    this.uploader?.removePeer(peer);
+    this.choker?.removePeer(peer);
+    peer.destroy();
+
+    this.emit('peer_disconnected', { address, reason });
+    this.emit('debug', `🔌 Dropped peer ${address}: ${reason}`);
+  }
+
+  // Drops every connection from the address and refuses new ones
+  private banPeer(ip: string, strikes: number): void {
+    this.bannedPeers.set(ip, strikes);
+
+    for (const [address, peer] of Array.from(this.connectedPeers)) {
+      if (peer.getPeerInfo().ip === ip) {
+        this.dropPeer(peer, address, 'banned');
+      }
+    }
+
+    this.emit('peer_banned', { address: ip, strikes });
+    this.emit('debug', `🚫 Banned peer ${ip} after ${strikes} bad pieces`);
+  }
+
+  private isBanned(address: string): boolean {
+    return this.bannedPeers.has(address.substring(0, address.lastIndexOf(':')));
+  }
+
+  // Seeds have nothing to exchange with other seeds
+  private dropPeerIfSeed(peer: PeerConnection, address: string): void {
+    const state = peer.getState();
+    const totalPieces = Math.ceil(this.torrentMeta.length / this.torrentMeta.pieceLength);
+
+    if (this.status === 'seeding' && !state.peerInterested && state.bitfield.countSet() === totalPieces) {
+      this.dropPeer(peer, address, 'peer is a seed');
+    }
+  }
+
   private setupPeerEventHandlers(peer: PeerConnection, address: string): void {
-    peer.on('disconnect', () => {
+    peer.on('close', () => {
       this.connectedPeers.delete(address);
       if (this.scheduler) {
         this.scheduler.removePeer(peer);
@@ -566,12 +1134,24 @@ export class TorrentClient extends EventEmitter {
     peer.on('bitfield', (bitfield) => {
       const pieceCount = bitfield.countSet();
       this.emit('debug', `🗂️ Received bitfield from ${address}: ${pieceCount} pieces available`);
+      this.dropPeerIfSeed(peer, address);
     });
 
     peer.on('have', (message) => {
       this.emit('debug', `📦 Peer ${address} has piece ${message.index}`);
     });
 
+    peer.on('not_interested', () => {
+      if (this.status === 'seeding') {
+        this.dropPeer(peer, address, 'not interested');
+      }
+    });
+
+    peer.on('port', (message) => {
+      // The peer runs a DHT node; it becomes a routing table candidate
+      this.dht?.addNode({ ip: peer.getPeerInfo().ip, port: message.port });
+    });
+
     peer.on('piece', (message) => {
       // Handled by scheduler
       this.emit('block_received', {
@@ -585,13 +1165,16 @@ export class TorrentClient extends EventEmitter {
   }
 
   private async handleDownloadComplete(): Promise<void> {
-    if (this.status === 'completed') {
+    if (this.status === 'completed' || this.status === 'seeding') {
       return;
     }
 
     this.status = 'completed';
     this.emit('status_changed', { status: this.status });
 
+    // Rank peers by what we upload to them from now on
+    this.choker?.setSeeding(true);
+
     try {
       // Announce completion to tracker
       await this.announceToTracker('completed');
@@ -605,17 +1188,129 @@ export class TorrentClient extends EventEmitter {
     } catch (error) {
       this.emit('error', error);
     }
+
+    if (this.options.seedAfter && this.status === 'completed') {
+      this.startSeeding();
+    }
   }
 
-  private splitIntoBlocks(data: Buffer, blockSize: number): Buffer[] {
-    const blocks: Buffer[] = [];
-    
-    for (let offset = 0; offset < data.length; offset += blockSize) {
-      const end = Math.min(offset + blockSize, data.length);
-      blocks.push(data.subarray(offset, end));
+  private startSeeding(): void {
+    this.status = 'seeding';
+    this.seedStartTime = Date.now();
+    this.emit('status_changed', { status: this.status });
+
+    this.choker?.setSeeding(true);
+    this.startSeedTimer();
+    for (const [address, peer] of this.connectedPeers) {
+      this.dropPeerIfSeed(peer, address);
+    }
+
+    this.emit('seeding_started', {
+      torrentName: this.torrentMeta.name,
+      seedRatio: this.options.seedRatio,
+      seedTime: this.options.seedTime,
+    });
+  }
+
+  private checkSeedLimits(): void {
+    if (this.status !== 'seeding' || !this.seedStartTime) {
+      return;
+    }
+
+    const ratio = this.torrentMeta.length > 0 ? this.bytesUploaded / this.torrentMeta.length : 0;
+    const seedingTime = Date.now() - this.seedStartTime;
+
+    let reason: 'ratio' | 'time' | undefined;
+    if (this.options.seedRatio > 0 && ratio >= this.options.seedRatio) {
+      reason = 'ratio';
+    } else if (this.options.seedTime > 0 && seedingTime >= this.options.seedTime) {
+      reason = 'time';
+    }
+
+    if (!reason) {
+      return;
+    }
+
+    this.emit('seeding_completed', {
+      reason,
+      ratio,
+      seedingTime,
+      uploadedSize: this.bytesUploaded,
+    });
+
+    this.stop().catch(() => {
+      // Errors are emitted by stop()
+    });
+  }
+
+  // Priorities may be set before start() so skipped files are never allocated
+  setFilePriority(fileIndex: number, priority: Priority): void {
+    const files = getFiles(this.torrentMeta);
+    if (!Number.isInteger(fileIndex) || fileIndex < 0 || fileIndex >= files.length) {
+      throw new ClientError(`Invalid file index: ${fileIndex}`);
+    }
+
+    this.priorities.setFilePriority(fileIndex, priority);
+    this.applyPriorities();
+  }
+
+  // Pieces from start up to, but not including, end; overrides the priorities of their files
+  setPiecePriority(start: number, end: number, priority: Priority): void {
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < 0 || end > this.priorities.pieceCount || start >= end) {
+      throw new ClientError(`Invalid piece range: ${start}-${end}`);
+    }
+
+    this.priorities.setPiecePriority(start, end, priority);
+    this.applyPriorities();
+  }
+
+  // Asks for the piece within ms, e.g. when a player seeks; only while downloading
+  setPieceDeadline(pieceIndex: number, ms: number): void {
+    if (!Number.isInteger(pieceIndex) || pieceIndex < 0 || pieceIndex >= this.priorities.pieceCount) {
+      throw new ClientError(`Invalid piece index: ${pieceIndex}`);
+    }
+    if (!this.scheduler) {
+      throw new ClientError('Download is not running');
+    }
+
+    this.scheduler.setPieceDeadline(pieceIndex, ms);
+  }
+
+  getFiles(): FileStatus[] {
+    const priorities = this.priorities.getFilePriorities();
+    return getFiles(this.torrentMeta).map((file, index) => ({
+      path: file.path.join('/'),
+      length: file.length,
+      priority: priorities[index],
+    }));
+  }
+
+  private applyPriorities(): void {
+    this.storage?.updatePriorities();
+    this.scheduler?.updatePriorities();
+
+    // Skipping everything that was left finishes the download
+    if (this.status === 'downloading' && this.storage?.isSelectionComplete()) {
+      this.handleDownloadComplete();
+    }
+  }
+
+  // Verifies and writes an assembled piece, then reports the outcome back to the scheduler
+  private async storePiece(pieceIndex: number, data: Buffer): Promise<void> {
+    if (!this.storage || !this.scheduler) return;
+
+    try {
+      const verified = await this.storage.writePiece(pieceIndex, data);
+
+      if (verified) {
+        this.scheduler?.pieceVerified(pieceIndex);
+      } else {
+        this.scheduler?.pieceFailed(pieceIndex, 'Hash verification failed');
+      }
+    } catch (error) {
+      // Disk and hash worker errors say nothing about the peers that sent the piece
+      this.scheduler?.pieceStoreFailed(pieceIndex, error instanceof Error ? error.message : 'Unknown error');
     }
-    
-    return blocks;
   }
 
   // Public getters
@@ -632,10 +1327,14 @@ export class TorrentClient extends EventEmitter {
   }
 
   get isComplete(): boolean {
-    return this.storage?.isComplete() ?? false;
+    return this.storage?.isSelectionComplete() ?? false;
   }
 
   get currentStatus(): ClientStats['status'] {
     return this.status;
   }
+
+  get listeningPort(): number | undefined {
+    return this.listenPort;
+  }
 }
\ No newline at end of file
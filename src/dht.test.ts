@@ -0,0 +1,147 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DHT, DHTError, RoutingTable } from './dht';
+
+describe('DHT Module', () => {
+  describe('RoutingTable', () => {
+    const localId = Buffer.alloc(20, 0);
+
+    const idWithPrefix = (bucket: number, suffix: number) => {
+      const id = Buffer.alloc(20, 0);
+      id[Math.floor(bucket / 8)] = 0x80 >> (bucket % 8);
+      id[19] |= suffix;
+      return id;
+    };
+
+    const node = (id: Buffer) => ({ id, ip: '10.0.0.1', port: 6881, lastSeen: Date.now(), failures: 0 });
+
+    test('places nodes by shared prefix length', () => {
+      const table = new RoutingTable(localId);
+
+      expect(table.bucketIndex(idWithPrefix(0, 0))).toBe(0);
+      expect(table.bucketIndex(idWithPrefix(9, 0))).toBe(9);
+      expect(table.bucketIndex(localId)).toBe(-1);
+    });
+
+    test('limits each bucket to K nodes', () => {
+      const table = new RoutingTable(localId);
+
+      for (let i = 0; i < RoutingTable.K; i++) {
+        expect(table.add(node(idWithPrefix(3, i + 1)))).toBe(true);
+      }
+
+      expect(table.add(node(idWithPrefix(3, 100)))).toBe(false);
+      expect(table.add(node(idWithPrefix(4, 1)))).toBe(true);
+      expect(table.add(node(localId))).toBe(false);
+      expect(table.size()).toBe(RoutingTable.K + 1);
+    });
+
+    test('returns closest nodes by XOR distance', () => {
+      const table = new RoutingTable(localId);
+      const ids = [idWithPrefix(0, 1), idWithPrefix(5, 1), idWithPrefix(20, 1), idWithPrefix(100, 1)];
+      ids.forEach(id => table.add(node(id)));
+
+      const closest = table.closest(idWithPrefix(20, 3), 2);
+
+      expect(closest.map(n => n.id)).toEqual([ids[2], ids[3]]);
+    });
+  });
+
+  describe('DHT nodes', () => {
+    const nodes: DHT[] = [];
+    let tempDir: string;
+
+    const startNode = async (options: ConstructorParameters<typeof DHT>[0] = {}) => {
+      const dht = new DHT({ port: 0, bootstrap: [], timeout: 1000, ...options });
+      await dht.start();
+      nodes.push(dht);
+      return dht;
+    };
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dht-test-'));
+    });
+
+    afterEach(async () => {
+      await Promise.all(nodes.splice(0).map(dht => dht.stop()));
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('bootstraps from another node', async () => {
+      const router = await startNode();
+      const dht = await startNode({ bootstrap: [`127.0.0.1:${router.getPort()}`] });
+
+      await dht.bootstrap();
+
+      expect(dht.getNodes().map(n => n.id)).toEqual([router.getNodeId()]);
+      expect(router.getNodes().map(n => n.id)).toEqual([dht.getNodeId()]); // Queries make us known too
+    });
+
+    test('finds peers announced by another node', async () => {
+      const router = await startNode();
+      const seeder = await startNode({ bootstrap: [`127.0.0.1:${router.getPort()}`] });
+      const leecher = await startNode({ bootstrap: [`127.0.0.1:${router.getPort()}`] });
+      const infoHash = crypto.randomBytes(20);
+
+      await seeder.bootstrap();
+      await leecher.bootstrap();
+
+      expect(await seeder.announce(infoHash, 51413)).toEqual([]);
+
+      const found: unknown[] = [];
+      leecher.on('peer', (event) => found.push(event.peer));
+      const peers = await leecher.getPeers(infoHash);
+
+      expect(peers).toContainEqual({ ip: '127.0.0.1', port: 51413 });
+      expect(found).toContainEqual({ ip: '127.0.0.1', port: 51413 });
+      expect(router.getStats().storedPeers).toBe(1);
+    });
+
+    test('rejects announces with a bad token', async () => {
+      const router = await startNode();
+      const dht = await startNode();
+
+      const query = dht['query']({ ip: '127.0.0.1', port: router.getPort() }, 'announce_peer', {
+        info_hash: crypto.randomBytes(20),
+        port: 6881,
+        token: Buffer.from('forged'),
+      });
+
+      await expect(query).rejects.toThrow('Bad token');
+      expect(router.getStats().storedPeers).toBe(0);
+    });
+
+    test('adds nodes learned from PORT messages once they answer', async () => {
+      const remote = await startNode();
+      const dht = await startNode();
+
+      dht.addNode({ ip: '127.0.0.1', port: remote.getPort() });
+      await new Promise(resolve => setTimeout(resolve, 200));
+
+      expect(dht.getNodes().map(n => n.id)).toEqual([remote.getNodeId()]);
+    });
+
+    test('persists the routing table across restarts', async () => {
+      const statePath = path.join(tempDir, 'state', 'dht.json');
+      const router = await startNode();
+      const dht = await startNode({ bootstrap: [`127.0.0.1:${router.getPort()}`], statePath });
+
+      await dht.bootstrap();
+      await dht.stop();
+
+      const restarted = await startNode({ statePath });
+
+      expect(restarted.getNodeId()).toEqual(dht.getNodeId());
+      expect(restarted.getNodes().map(n => n.id)).toEqual([router.getNodeId()]);
+    });
+
+    test('fails queries when not started', async () => {
+      const dht = new DHT({ port: 0, bootstrap: [] });
+
+      await expect(dht.getPeers(crypto.randomBytes(20))).resolves.toEqual([]);
+      await expect(dht['query']({ ip: '127.0.0.1', port: 1 }, 'ping', {})).rejects.toThrow(DHTError);
+    });
+  });
+});
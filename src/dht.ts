@@ -0,0 +1,714 @@
+import * as crypto from 'crypto';
+import * as dgram from 'dgram';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { EventEmitter } from 'events';
+import { decode, encode, BencodeValue } from './bencode';
+import { PeerInfo } from './peer';
+
+export class DHTError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DHTError';
+  }
+}
+
+export const DHT_BOOTSTRAP_NODES = [
+  'router.bittorrent.com:6881',
+  'dht.transmissionbt.com:6881',
+  'router.utorrent.com:6881',
+];
+
+export interface DHTOptions {
+  port?: number;          // UDP port, usually the same as the TCP listen port
+  nodeId?: Buffer;
+  bootstrap?: string[];   // host:port
+  statePath?: string;     // routing table is persisted here when set
+  timeout?: number;       // per-query timeout in ms
+}
+
+export interface DHTNode {
+  id: Buffer;
+  ip: string;
+  port: number;
+  lastSeen: number;  // 0 until the node has answered us
+  failures: number;  // consecutive query timeouts
+}
+
+export interface DHTStats {
+  nodeId: string;
+  nodes: number;
+  storedPeers: number;
+  pendingQueries: number;
+}
+
+interface NodeAddress {
+  ip: string;
+  port: number;
+}
+
+interface PendingQuery {
+  address: NodeAddress;
+  resolve: (response: { [key: string]: BencodeValue }) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+interface LookupResult {
+  peers: PeerInfo[];
+  nodes: { node: NodeAddress; token?: Buffer }[]; // closest responding nodes
+}
+
+type KrpcMessage = { [key: string]: BencodeValue };
+
+// Kademlia k-buckets, one per shared prefix length with our node id
+export class RoutingTable {
+  static readonly K = 8;
+
+  private readonly buckets: DHTNode[][] = Array.from({ length: 160 }, () => []);
+
+  constructor(readonly localId: Buffer) {}
+
+  bucketIndex(id: Buffer): number {
+    for (let i = 0; i < 20; i++) {
+      const diff = id[i] ^ this.localId[i];
+      if (diff !== 0) {
+        return i * 8 + Math.clz32(diff) - 24;
+      }
+    }
+    return -1; // Our own id
+  }
+
+  // Returns false when the bucket is full and the node was not added
+  add(node: DHTNode): boolean {
+    const index = this.bucketIndex(node.id);
+    if (index < 0) {
+      return false;
+    }
+
+    const bucket = this.buckets[index];
+    const existing = bucket.findIndex(n => n.id.equals(node.id));
+    if (existing >= 0) {
+      bucket[existing] = { ...bucket[existing], ip: node.ip, port: node.port, lastSeen: node.lastSeen || bucket[existing].lastSeen };
+      return true;
+    }
+
+    if (bucket.length >= RoutingTable.K) {
+      return false;
+    }
+
+    bucket.push(node);
+    return true;
+  }
+
+  get(id: Buffer): DHTNode | undefined {
+    const index = this.bucketIndex(id);
+    return index < 0 ? undefined : this.buckets[index].find(n => n.id.equals(id));
+  }
+
+  remove(id: Buffer): void {
+    const index = this.bucketIndex(id);
+    if (index >= 0) {
+      this.buckets[index] = this.buckets[index].filter(n => !n.id.equals(id));
+    }
+  }
+
+  // Least recently seen node in the bucket the id falls into
+  oldest(id: Buffer): DHTNode | undefined {
+    const index = this.bucketIndex(id);
+    if (index < 0) {
+      return undefined;
+    }
+    return this.buckets[index].reduce<DHTNode | undefined>(
+      (oldest, node) => (!oldest || node.lastSeen < oldest.lastSeen ? node : oldest),
+      undefined
+    );
+  }
+
+  closest(target: Buffer, count: number = RoutingTable.K): DHTNode[] {
+    return this.all()
+      .sort((a, b) => compareDistance(target, a.id, b.id))
+      .slice(0, count);
+  }
+
+  all(): DHTNode[] {
+    return this.buckets.flat();
+  }
+
+  size(): number {
+    return this.buckets.reduce((sum, bucket) => sum + bucket.length, 0);
+  }
+}
+
+export class DHT extends EventEmitter {
+  private static readonly DEFAULT_PORT = 6881;
+  private static readonly DEFAULT_TIMEOUT = 5000;
+  private static readonly ALPHA = 3; // parallel queries per lookup round
+  private static readonly MAX_FAILURES = 3;
+  private static readonly QUESTIONABLE_AFTER = 15 * 60 * 1000; // 15 minutes
+  private static readonly MAINTENANCE_INTERVAL = 5 * 60 * 1000; // token rotation, peer expiry, refresh
+  private static readonly PEER_TTL = 30 * 60 * 1000; // 30 minutes
+  private static readonly MAX_PEERS_PER_TORRENT = 100;
+  private static readonly CLIENT_VERSION = Buffer.from('TP10');
+
+  private nodeId: Buffer;
+  private table: RoutingTable;
+  private socket?: dgram.Socket;
+  private readonly pending: Map<string, PendingQuery> = new Map();
+  private transactionId = 0;
+
+  // announce_peer tokens: current and previous secret are both accepted
+  private secret = crypto.randomBytes(16);
+  private previousSecret = this.secret;
+
+  // Peers announced to us, by info hash
+  private readonly peerStore: Map<string, Map<string, { peer: PeerInfo; added: number }>> = new Map();
+  private readonly pinging: Set<string> = new Set();
+  private maintenanceTimer?: NodeJS.Timeout;
+  private lastRefresh = 0;
+
+  constructor(private readonly options: DHTOptions = {}) {
+    super();
+    this.nodeId = options.nodeId ?? crypto.randomBytes(20);
+    this.table = new RoutingTable(this.nodeId);
+  }
+
+  async start(): Promise<void> {
+    if (this.socket) {
+      throw new DHTError('DHT is already started');
+    }
+
+    await this.load();
+
+    const socket = dgram.createSocket('udp4');
+    await new Promise<void>((resolve, reject) => {
+      socket.once('error', reject);
+      socket.bind(this.options.port ?? DHT.DEFAULT_PORT, () => {
+        socket.off('error', reject);
+        resolve();
+      });
+    });
+
+    socket.on('message', (message, rinfo) => this.handleMessage(message, { ip: rinfo.address, port: rinfo.port }));
+    socket.on('error', (error) => this.emit('warning', error));
+    this.socket = socket;
+
+    this.maintenanceTimer = setInterval(() => this.maintain(), DHT.MAINTENANCE_INTERVAL);
+
+    this.emit('listening', { port: this.getPort() });
+  }
+
+  // Fills the routing table from the bootstrap nodes and any persisted ones
+  async bootstrap(): Promise<void> {
+    const bootstrap = this.options.bootstrap ?? DHT_BOOTSTRAP_NODES;
+
+    await Promise.allSettled(bootstrap.map(async (entry) => {
+      const separator = entry.lastIndexOf(':');
+      const address = { ip: entry.substring(0, separator), port: parseInt(entry.substring(separator + 1), 10) };
+      if (separator <= 0 || !address.port) {
+        throw new DHTError(`Invalid bootstrap node: ${entry}`);
+      }
+
+      const response = await this.query(address, 'find_node', { target: this.nodeId });
+      this.addNodes(response.nodes);
+    }));
+
+    await this.lookup(this.nodeId, 'find_node');
+    this.lastRefresh = Date.now();
+
+    this.emit('ready', { nodes: this.table.size() });
+  }
+
+  // Finds peers for a torrent
+  async getPeers(infoHash: Buffer): Promise<PeerInfo[]> {
+    const result = await this.lookup(infoHash, 'get_peers');
+    return result.peers;
+  }
+
+  // Finds peers and announces ourselves to the closest nodes
+  async announce(infoHash: Buffer, port: number): Promise<PeerInfo[]> {
+    const result = await this.lookup(infoHash, 'get_peers');
+
+    await Promise.allSettled(result.nodes
+      .filter(entry => entry.token)
+      .map(entry => this.query(entry.node, 'announce_peer', {
+        info_hash: infoHash,
+        port,
+        token: entry.token!,
+        implied_port: 0,
+      })));
+
+    return result.peers;
+  }
+
+  // Nodes learned from PORT messages; added once they answer a ping
+  addNode(address: NodeAddress): void {
+    this.query(address, 'ping', {}).catch(() => {
+      // Unreachable, nothing to add
+    });
+  }
+
+  private async lookup(target: Buffer, method: 'find_node' | 'get_peers'): Promise<LookupResult> {
+    const candidates: Map<string, { node: NodeAddress; id: Buffer; queried: boolean; responded: boolean; token?: Buffer }> = new Map();
+    const peers: Map<string, PeerInfo> = new Map();
+
+    const addCandidate = (id: Buffer, node: NodeAddress) => {
+      const key = id.toString('hex');
+      if (!id.equals(this.nodeId) && !candidates.has(key)) {
+        candidates.set(key, { node, id, queried: false, responded: false });
+      }
+    };
+
+    for (const node of this.table.closest(target)) {
+      addCandidate(node.id, node);
+    }
+
+    const arg = method === 'get_peers' ? 'info_hash' : 'target';
+
+    for (;;) {
+      // Query the closest nodes we haven't asked yet, among the K closest known
+      const closest = Array.from(candidates.values())
+        .sort((a, b) => compareDistance(target, a.id, b.id))
+        .slice(0, RoutingTable.K);
+      const round = closest.filter(c => !c.queried).slice(0, DHT.ALPHA);
+
+      if (round.length === 0) {
+        break;
+      }
+
+      await Promise.allSettled(round.map(async (candidate) => {
+        candidate.queried = true;
+        const response = await this.query(candidate.node, method, { [arg]: target });
+        candidate.responded = true;
+
+        if (Buffer.isBuffer(response.token)) {
+          candidate.token = response.token;
+        }
+
+        for (const node of decodeNodes(response.nodes)) {
+          addCandidate(node.id, node);
+        }
+
+        if (Array.isArray(response.values)) {
+          for (const value of response.values) {
+            const peer = Buffer.isBuffer(value) ? decodePeer(value) : undefined;
+            const key = peer && `${peer.ip}:${peer.port}`;
+            if (peer && key && !peers.has(key)) {
+              peers.set(key, peer);
+              this.emit('peer', { infoHash: target, peer });
+            }
+          }
+        }
+      }));
+    }
+
+    const nodes = Array.from(candidates.values())
+      .filter(c => c.responded)
+      .sort((a, b) => compareDistance(target, a.id, b.id))
+      .slice(0, RoutingTable.K)
+      .map(c => ({ node: c.node, token: c.token }));
+
+    return { peers: Array.from(peers.values()), nodes };
+  }
+
+  // KRPC
+  private query(address: NodeAddress, method: string, args: KrpcMessage): Promise<KrpcMessage> {
+    const socket = this.socket;
+    if (!socket) {
+      return Promise.reject(new DHTError('DHT is not started'));
+    }
+
+    const transactionId = Buffer.alloc(2);
+    transactionId.writeUInt16BE(this.transactionId);
+    this.transactionId = (this.transactionId + 1) & 0xffff;
+    const key = transactionId.toString('hex');
+
+    const message = encode({
+      t: transactionId,
+      y: Buffer.from('q'),
+      q: Buffer.from(method),
+      a: { ...args, id: this.nodeId },
+      v: DHT.CLIENT_VERSION,
+    });
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(key);
+        this.markFailed(address);
+        reject(new DHTError(`Query ${method} to ${address.ip}:${address.port} timed out`));
+      }, this.options.timeout ?? DHT.DEFAULT_TIMEOUT);
+
+      this.pending.set(key, { address, resolve, reject, timer });
+
+      socket.send(message, address.port, address.ip, (error) => {
+        if (error) {
+          clearTimeout(timer);
+          this.pending.delete(key);
+          reject(new DHTError(`Failed to send ${method}: ${error.message}`));
+        }
+      });
+    });
+  }
+
+  private handleMessage(data: Buffer, address: NodeAddress): void {
+    let message: KrpcMessage;
+    try {
+      const decoded = decode(data);
+      if (typeof decoded !== 'object' || Array.isArray(decoded) || Buffer.isBuffer(decoded)) {
+        return;
+      }
+      message = decoded;
+    } catch {
+      return; // Not KRPC
+    }
+
+    const type = Buffer.isBuffer(message.y) ? message.y.toString() : '';
+    const transactionId = Buffer.isBuffer(message.t) ? message.t : undefined;
+    if (!transactionId) {
+      return;
+    }
+
+    if (type === 'q') {
+      this.handleQuery(message, transactionId, address);
+      return;
+    }
+
+    const pending = this.pending.get(transactionId.toString('hex'));
+    if (!pending || pending.address.port !== address.port) {
+      return;
+    }
+
+    this.pending.delete(transactionId.toString('hex'));
+    clearTimeout(pending.timer);
+
+    if (type === 'r' && isDictionary(message.r) && isNodeId(message.r.id)) {
+      this.seen(message.r.id, address);
+      pending.resolve(message.r);
+    } else if (type === 'e' && Array.isArray(message.e)) {
+      const [code, text] = message.e;
+      pending.reject(new DHTError(`Node error ${code}: ${Buffer.isBuffer(text) ? text.toString() : 'unknown'}`));
+    } else {
+      pending.reject(new DHTError('Malformed KRPC response'));
+    }
+  }
+
+  private handleQuery(message: KrpcMessage, transactionId: Buffer, address: NodeAddress): void {
+    const method = Buffer.isBuffer(message.q) ? message.q.toString() : '';
+    const args = isDictionary(message.a) ? message.a : undefined;
+
+    if (!args || !isNodeId(args.id)) {
+      this.sendError(transactionId, address, 203, 'Protocol Error');
+      return;
+    }
+
+    this.seen(args.id, address);
+
+    switch (method) {
+      case 'ping':
+        this.respond(transactionId, address, {});
+        break;
+
+      case 'find_node':
+        if (!isNodeId(args.target)) {
+          this.sendError(transactionId, address, 203, 'Missing target');
+          return;
+        }
+        this.respond(transactionId, address, { nodes: encodeNodes(this.table.closest(args.target)) });
+        break;
+
+      case 'get_peers': {
+        if (!isNodeId(args.info_hash)) {
+          this.sendError(transactionId, address, 203, 'Missing info_hash');
+          return;
+        }
+
+        const response: KrpcMessage = { token: this.makeToken(address.ip, this.secret) };
+        const stored = this.peerStore.get(args.info_hash.toString('hex'));
+        if (stored && stored.size > 0) {
+          response.values = Array.from(stored.values()).map(entry => encodePeer(entry.peer));
+        } else {
+          response.nodes = encodeNodes(this.table.closest(args.info_hash));
+        }
+        this.respond(transactionId, address, response);
+        break;
+      }
+
+      case 'announce_peer': {
+        if (!isNodeId(args.info_hash) || !Buffer.isBuffer(args.token)) {
+          this.sendError(transactionId, address, 203, 'Missing info_hash or token');
+          return;
+        }
+
+        if (!this.isValidToken(args.token, address.ip)) {
+          this.sendError(transactionId, address, 203, 'Bad token');
+          return;
+        }
+
+        const port = args.implied_port === 1 ? address.port : args.port;
+        if (typeof port !== 'number' || port <= 0 || port > 65535) {
+          this.sendError(transactionId, address, 203, 'Invalid port');
+          return;
+        }
+
+        this.storePeer(args.info_hash, { ip: address.ip, port });
+        this.respond(transactionId, address, {});
+        break;
+      }
+
+      default:
+        this.sendError(transactionId, address, 204, 'Method Unknown');
+    }
+  }
+
+  private respond(transactionId: Buffer, address: NodeAddress, response: KrpcMessage): void {
+    this.send(address, { t: transactionId, y: Buffer.from('r'), r: { ...response, id: this.nodeId } });
+  }
+
+  private sendError(transactionId: Buffer, address: NodeAddress, code: number, message: string): void {
+    this.send(address, { t: transactionId, y: Buffer.from('e'), e: [code, Buffer.from(message)] });
+  }
+
+  private send(address: NodeAddress, message: KrpcMessage): void {
+    this.socket?.send(encode(message), address.port, address.ip, (error) => {
+      if (error) {
+        this.emit('warning', error);
+      }
+    });
+  }
+
+  // Routing table upkeep
+  private seen(id: Buffer, address: NodeAddress): void {
+    const node: DHTNode = { id, ip: address.ip, port: address.port, lastSeen: Date.now(), failures: 0 };
+    const existing = this.table.get(id);
+    if (existing) {
+      existing.failures = 0;
+    }
+
+    if (!this.table.add(node)) {
+      this.evictQuestionable(node);
+    }
+  }
+
+  // A full bucket only takes a new node if its oldest member stops answering
+  private evictQuestionable(node: DHTNode): void {
+    const oldest = this.table.oldest(node.id);
+    if (!oldest || Date.now() - oldest.lastSeen < DHT.QUESTIONABLE_AFTER) {
+      return;
+    }
+
+    const key = oldest.id.toString('hex');
+    if (this.pinging.has(key)) {
+      return;
+    }
+    this.pinging.add(key);
+
+    this.query(oldest, 'ping', {})
+      .catch(() => {
+        this.table.remove(oldest.id);
+        this.table.add(node);
+      })
+      .finally(() => this.pinging.delete(key));
+  }
+
+  private markFailed(address: NodeAddress): void {
+    const node = this.table.all().find(n => n.ip === address.ip && n.port === address.port);
+    if (node && ++node.failures >= DHT.MAX_FAILURES) {
+      this.table.remove(node.id);
+    }
+  }
+
+  private addNodes(value: BencodeValue | undefined): void {
+    for (const node of decodeNodes(value)) {
+      this.table.add({ ...node, lastSeen: 0, failures: 0 });
+    }
+  }
+
+  private maintain(): void {
+    // Rotate token secrets
+    this.previousSecret = this.secret;
+    this.secret = crypto.randomBytes(16);
+
+    // Expire announced peers
+    const cutoff = Date.now() - DHT.PEER_TTL;
+    for (const [infoHash, peers] of this.peerStore) {
+      for (const [key, entry] of peers) {
+        if (entry.added < cutoff) {
+          peers.delete(key);
+        }
+      }
+      if (peers.size === 0) {
+        this.peerStore.delete(infoHash);
+      }
+    }
+
+    if (Date.now() - this.lastRefresh >= DHT.QUESTIONABLE_AFTER) {
+      this.lastRefresh = Date.now();
+      this.lookup(crypto.randomBytes(20), 'find_node').catch(() => {
+        // Refresh is best effort
+      });
+    }
+  }
+
+  private storePeer(infoHash: Buffer, peer: PeerInfo): void {
+    const key = infoHash.toString('hex');
+    let peers = this.peerStore.get(key);
+    if (!peers) {
+      peers = new Map();
+      this.peerStore.set(key, peers);
+    }
+
+    const address = `${peer.ip}:${peer.port}`;
+    if (!peers.has(address) && peers.size >= DHT.MAX_PEERS_PER_TORRENT) {
+      return;
+    }
+    peers.set(address, { peer, added: Date.now() });
+  }
+
+  private makeToken(ip: string, secret: Buffer): Buffer {
+    return crypto.createHash('sha1').update(ip).update(secret).digest().subarray(0, 8);
+  }
+
+  private isValidToken(token: Buffer, ip: string): boolean {
+    return token.equals(this.makeToken(ip, this.secret)) || token.equals(this.makeToken(ip, this.previousSecret));
+  }
+
+  // Persistence
+  private async load(): Promise<void> {
+    if (!this.options.statePath) {
+      return;
+    }
+
+    let state: { id?: string; nodes?: { id: string; ip: string; port: number }[] };
+    try {
+      state = JSON.parse(await fs.readFile(this.options.statePath, 'utf8'));
+    } catch {
+      return; // First run or unreadable state
+    }
+
+    // Keep our id across restarts so the rest of the network still finds us in the same place
+    if (!this.options.nodeId && state.id && /^[0-9a-f]{40}$/.test(state.id)) {
+      this.nodeId = Buffer.from(state.id, 'hex');
+      this.table = new RoutingTable(this.nodeId);
+    }
+
+    for (const node of state.nodes ?? []) {
+      if (/^[0-9a-f]{40}$/.test(node.id) && node.port > 0 && node.port <= 65535) {
+        this.table.add({ id: Buffer.from(node.id, 'hex'), ip: node.ip, port: node.port, lastSeen: 0, failures: 0 });
+      }
+    }
+  }
+
+  async save(): Promise<void> {
+    if (!this.options.statePath) {
+      return;
+    }
+
+    const state = {
+      id: this.nodeId.toString('hex'),
+      nodes: this.table.all().map(node => ({ id: node.id.toString('hex'), ip: node.ip, port: node.port })),
+    };
+
+    await fs.mkdir(path.dirname(this.options.statePath), { recursive: true });
+    await fs.writeFile(this.options.statePath, JSON.stringify(state));
+  }
+
+  // Public API
+  getNodeId(): Buffer {
+    return this.nodeId;
+  }
+
+  getPort(): number {
+    const address = this.socket?.address();
+    return address ? address.port : this.options.port ?? DHT.DEFAULT_PORT;
+  }
+
+  getNodes(): DHTNode[] {
+    return this.table.all().map(node => ({ ...node }));
+  }
+
+  getStats(): DHTStats {
+    return {
+      nodeId: this.nodeId.toString('hex'),
+      nodes: this.table.size(),
+      storedPeers: Array.from(this.peerStore.values()).reduce((sum, peers) => sum + peers.size, 0),
+      pendingQueries: this.pending.size,
+    };
+  }
+
+  async stop(): Promise<void> {
+    if (this.maintenanceTimer) {
+      clearInterval(this.maintenanceTimer);
+      this.maintenanceTimer = undefined;
+    }
+
+    for (const query of this.pending.values()) {
+      clearTimeout(query.timer);
+      query.reject(new DHTError('DHT stopped'));
+    }
+    this.pending.clear();
+
+    if (this.socket) {
+      this.socket.close();
+      this.socket = undefined;
+    }
+
+    try {
+      await this.save();
+    } catch (error) {
+      this.emit('warning', error);
+    }
+  }
+}
+
+// Compact encodings (BEP 5)
+function encodePeer(peer: PeerInfo): Buffer {
+  const buffer = Buffer.alloc(6);
+  peer.ip.split('.').forEach((octet, i) => buffer.writeUInt8(parseInt(octet, 10) & 0xff, i));
+  buffer.writeUInt16BE(peer.port, 4);
+  return buffer;
+}
+
+function decodePeer(buffer: Buffer): PeerInfo | undefined {
+  if (buffer.length !== 6) {
+    return undefined;
+  }
+  const port = buffer.readUInt16BE(4);
+  return port > 0 ? { ip: Array.from(buffer.subarray(0, 4)).join('.'), port } : undefined;
+}
+
+function encodeNodes(nodes: DHTNode[]): Buffer {
+  return Buffer.concat(nodes.map(node => Buffer.concat([node.id, encodePeer(node)])));
+}
+
+function decodeNodes(value: BencodeValue | undefined): { id: Buffer; ip: string; port: number }[] {
+  if (!Buffer.isBuffer(value)) {
+    return [];
+  }
+
+  const nodes: { id: Buffer; ip: string; port: number }[] = [];
+  for (let offset = 0; offset + 26 <= value.length; offset += 26) {
+    const peer = decodePeer(value.subarray(offset + 20, offset + 26));
+    if (peer) {
+      nodes.push({ id: Buffer.from(value.subarray(offset, offset + 20)), ...peer });
+    }
+  }
+  return nodes;
+}
+
+function compareDistance(target: Buffer, a: Buffer, b: Buffer): number {
+  for (let i = 0; i < 20; i++) {
+    const diff = (a[i] ^ target[i]) - (b[i] ^ target[i]);
+    if (diff !== 0) {
+      return diff;
+    }
+  }
+  return 0;
+}
+
+function isDictionary(value: BencodeValue | undefined): value is { [key: string]: BencodeValue } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !Buffer.isBuffer(value);
+}
+
+function isNodeId(value: BencodeValue | undefined): value is Buffer {
+  return Buffer.isBuffer(value) && value.length === 20;
+}
@@ -0,0 +1,96 @@
+import { DiskCache, DiskCacheError } from './disk-cache';
+
+describe('DiskCache', () => {
+  let writes: { offset: number; data: Buffer }[];
+  let cache: DiskCache;
+
+  const writer = async (offset: number, data: Buffer) => {
+    writes.push({ offset, data: Buffer.from(data) });
+  };
+
+  beforeEach(() => {
+    writes = [];
+    cache = new DiskCache(writer, { size: 1000, flushInterval: 50 });
+  });
+
+  afterEach(() => {
+    cache.destroy();
+  });
+
+  test('coalesces adjacent pieces into one write', async () => {
+    await cache.put(200, Buffer.alloc(100, 2));
+    await cache.put(0, Buffer.alloc(100, 0));
+    await cache.put(100, Buffer.alloc(100, 1));
+    await cache.put(500, Buffer.alloc(100, 5));
+
+    expect(writes).toHaveLength(0);
+    expect(cache.getStats()).toMatchObject({ dirtyBytes: 400, queueDepth: 4 });
+
+    await cache.flush();
+
+    expect(writes.map(write => [write.offset, write.data.length])).toEqual([[0, 300], [500, 100]]);
+    expect(writes[0].data.subarray(100, 200).every(b => b === 1)).toBe(true);
+    expect(cache.getStats()).toMatchObject({ dirtyBytes: 0, queueDepth: 0, writes: 2, flushes: 1 });
+  });
+
+  test('flushes once the budget fills up', async () => {
+    await cache.put(0, Buffer.alloc(600));
+    expect(writes).toHaveLength(0);
+
+    await cache.put(600, Buffer.alloc(600));
+    expect(writes.map(write => write.data.length)).toEqual([1200]);
+  });
+
+  test('flushes data that waited long enough', async () => {
+    await cache.put(0, Buffer.alloc(100));
+
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    expect(writes).toHaveLength(1);
+  });
+
+  test('serves queued data and counts hits and misses', async () => {
+    await cache.put(0, Buffer.alloc(100, 7));
+
+    const data = cache.read(0, 100)!;
+    expect(data.every(b => b === 7)).toBe(true);
+    expect(cache.read(100, 100)).toBeUndefined();
+    expect(cache.getStats()).toMatchObject({ hits: 1, misses: 1 });
+  });
+
+  test('keeps earlier data queued when a write fails', async () => {
+    let failing = true;
+    const flaky = new DiskCache(async (offset, data) => {
+      if (failing) throw new Error('disk full');
+      writes.push({ offset, data });
+    }, { size: 1000 });
+
+    await flaky.put(0, Buffer.alloc(600));
+    await expect(flaky.put(1000, Buffer.alloc(600))).rejects.toThrow(DiskCacheError);
+
+    // The piece that hit the failure was dropped, the earlier one is retried
+    expect(flaky.getStats()).toMatchObject({ dirtyBytes: 600, queueDepth: 1 });
+
+    failing = false;
+    await flaky.flush();
+    expect(writes.map(write => write.offset)).toEqual([0]);
+    flaky.destroy();
+  });
+
+  test('reports failures of data queued earlier without failing the new write', async () => {
+    const partial = new DiskCache(async (offset, data) => {
+      if (offset === 0) throw new Error('bad sector');
+      writes.push({ offset, data });
+    }, { size: 1000 });
+    const failures: unknown[] = [];
+    partial.on('flush_failed', (event) => failures.push(event));
+
+    await partial.put(0, Buffer.alloc(600));
+    await partial.put(1000, Buffer.alloc(600));
+
+    expect(writes.map(write => write.offset)).toEqual([1000]);
+    expect(failures).toEqual([{ error: expect.stringContaining('bad sector') }]);
+    expect(partial.getStats()).toMatchObject({ dirtyBytes: 600, queueDepth: 1 });
+    partial.destroy();
+  });
+});
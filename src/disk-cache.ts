@@ -0,0 +1,204 @@
+import { EventEmitter } from 'events';
+
+export class DiskCacheError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DiskCacheError';
+  }
+}
+
+export interface DiskCacheOptions {
+  size?: number;          // bytes of written data held back before a flush (0 = flush every write)
+  flushInterval?: number; // longest time data waits to be written, ms
+}
+
+export interface DiskCacheStats {
+  size: number;       // budget in bytes
+  dirtyBytes: number; // bytes waiting to be written
+  queueDepth: number; // pieces waiting to be written
+  hits: number;
+  misses: number;
+  writes: number;     // disk writes issued, after coalescing
+  flushes: number;
+}
+
+// Writes a byte range of the torrent's data to disk
+export type DiskWriter = (offset: number, data: Buffer) => Promise<void>;
+
+interface CacheEntry {
+  offset: number;
+  data: Buffer;
+}
+
+// Write-back cache in front of the torrent's files: verified pieces are held in memory and
+// written out in offset order, with adjacent pieces coalesced into one larger write. Data is
+// flushed once the budget fills up or it has waited flushInterval; fsync is left to the caller.
+export class DiskCache extends EventEmitter {
+  static readonly DEFAULT_SIZE = 16 * 1024 * 1024;
+  private static readonly DEFAULT_FLUSH_INTERVAL = 5000;
+  private static readonly MAX_WRITE_SIZE = 4 * 1024 * 1024;
+
+  private readonly size: number;
+  private readonly flushInterval: number;
+  private readonly write: DiskWriter;
+
+  private readonly entries: Map<number, CacheEntry> = new Map(); // offset -> dirty piece
+  private dirtyBytes = 0;
+  private flushing: Promise<void> = Promise.resolve();
+  private flushTimer?: NodeJS.Timeout;
+
+  // Statistics
+  private hits = 0;
+  private misses = 0;
+  private writes = 0;
+  private flushes = 0;
+
+  constructor(write: DiskWriter, options: DiskCacheOptions = {}) {
+    super();
+    this.write = write;
+    this.size = Math.max(0, options.size ?? DiskCache.DEFAULT_SIZE);
+    this.flushInterval = options.flushInterval ?? DiskCache.DEFAULT_FLUSH_INTERVAL;
+  }
+
+  // Queues data for writing. Once over budget this waits for the flush, and rejects if this data
+  // couldn't be written. Failures of data queued earlier are reported as flush_failed; it stays for a retry.
+  async put(offset: number, data: Buffer): Promise<void> {
+    this.remove(offset);
+    const entry: CacheEntry = { offset, data };
+    this.entries.set(offset, entry);
+    this.dirtyBytes += data.length;
+
+    if (this.dirtyBytes >= this.size) {
+      try {
+        await this.flush();
+      } catch (error) {
+        if (this.entries.get(offset) !== entry) {
+          this.reportFailure(error);
+          return;
+        }
+
+        this.remove(offset);
+        throw error;
+      }
+    } else if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => {
+        this.flushTimer = undefined;
+        this.flush().catch((error) => this.reportFailure(error));
+      }, this.flushInterval);
+      this.flushTimer.unref();
+    }
+  }
+
+  // Data queued at offset, copied, or undefined if it isn't waiting to be written
+  read(offset: number, length: number): Buffer | undefined {
+    const entry = this.entries.get(offset);
+    if (!entry || entry.data.length < length) {
+      this.misses++;
+      return undefined;
+    }
+
+    this.hits++;
+    return Buffer.from(entry.data.subarray(0, length));
+  }
+
+  // Writes everything queued so far. Flushes run one at a time; a failed range stays queued.
+  flush(): Promise<void> {
+    this.flushing = this.flushing.catch(() => undefined).then(() => this.writeQueued());
+    return this.flushing;
+  }
+
+  getStats(): DiskCacheStats {
+    return {
+      size: this.size,
+      dirtyBytes: this.dirtyBytes,
+      queueDepth: this.entries.size,
+      hits: this.hits,
+      misses: this.misses,
+      writes: this.writes,
+      flushes: this.flushes,
+    };
+  }
+
+  // Drops queued data without writing it
+  destroy(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+
+    this.entries.clear();
+    this.dirtyBytes = 0;
+    this.removeAllListeners();
+  }
+
+  private async writeQueued(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+
+    if (this.entries.size === 0) {
+      return;
+    }
+    this.flushes++;
+
+    let failure: unknown;
+    for (const run of this.getRuns()) {
+      const data = run.length === 1 ? run[0].data : Buffer.concat(run.map(entry => entry.data));
+
+      try {
+        await this.write(run[0].offset, data);
+        this.writes++;
+      } catch (error) {
+        failure = error;
+        continue;
+      }
+
+      // Pieces replaced while the write was in flight stay queued
+      for (const entry of run) {
+        if (this.entries.get(entry.offset) === entry) {
+          this.remove(entry.offset);
+        }
+      }
+    }
+
+    if (failure) {
+      throw new DiskCacheError(`Failed to write cached data: ${failure instanceof Error ? failure.message : 'Unknown error'}`);
+    }
+  }
+
+  // Queued entries in offset order, grouped into runs of adjacent ones up to MAX_WRITE_SIZE
+  private getRuns(): CacheEntry[][] {
+    const sorted = Array.from(this.entries.values()).sort((a, b) => a.offset - b.offset);
+    const runs: CacheEntry[][] = [];
+
+    let run: CacheEntry[] = [];
+    let runEnd = 0;
+    let runLength = 0;
+    for (const entry of sorted) {
+      if (run.length === 0 || entry.offset !== runEnd || runLength + entry.data.length > DiskCache.MAX_WRITE_SIZE) {
+        run = [];
+        runs.push(run);
+        runLength = 0;
+      }
+
+      run.push(entry);
+      runEnd = entry.offset + entry.data.length;
+      runLength += entry.data.length;
+    }
+
+    return runs;
+  }
+
+  private reportFailure(error: unknown): void {
+    this.emit('flush_failed', { error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+
+  private remove(offset: number): void {
+    const entry = this.entries.get(offset);
+    if (entry) {
+      this.entries.delete(offset);
+      this.dirtyBytes -= entry.data.length;
+    }
+  }
+}
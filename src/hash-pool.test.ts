@@ -0,0 +1,70 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { HashPool, HashPoolError } from './hash-pool';
+
+const sha1 = (data: Buffer) => crypto.createHash('sha1').update(data).digest();
+
+describe('HashPool', () => {
+  let pool: HashPool;
+  let tempDir: string;
+
+  beforeEach(async () => {
+    pool = new HashPool({ size: 2 });
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'hash-pool-test-'));
+  });
+
+  afterEach(async () => {
+    await pool.destroy();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  test('hashes pieces off the main thread', async () => {
+    const data = crypto.randomBytes(65536);
+    const shared = Buffer.from(new SharedArrayBuffer(data.length));
+    data.copy(shared);
+    const view = data.subarray(1000, 2000);
+
+    const digests = await Promise.all([pool.hashPiece(data), pool.hashPiece(shared), pool.hashPiece(view)]);
+
+    expect(digests[0]).toEqual(sha1(data));
+    expect(digests[1]).toEqual(sha1(data));
+    expect(digests[2]).toEqual(sha1(view));
+    // The caller's buffers stay usable
+    expect(data.length).toBe(65536);
+    expect(pool.getStats()).toMatchObject({ workers: 2, busy: 0, queued: 0, bytesHashed: 2 * 65536 + 1000 });
+  });
+
+  test('hashes ranges of files on disk', async () => {
+    const first = crypto.randomBytes(3 * 1024 * 1024);
+    const second = crypto.randomBytes(5000);
+    await fs.writeFile(path.join(tempDir, 'a'), first);
+    await fs.writeFile(path.join(tempDir, 'b'), second);
+
+    expect(await pool.hashRange(path.join(tempDir, 'a'), 100, first.length - 100))
+      .toEqual(sha1(first.subarray(100)));
+    expect(await pool.hashRanges([
+      { file: path.join(tempDir, 'a'), offset: first.length - 10, length: 10 },
+      { file: path.join(tempDir, 'b'), offset: 0, length: 4000 },
+    ])).toEqual(sha1(Buffer.concat([first.subarray(-10), second.subarray(0, 4000)])));
+  });
+
+  test('rejects ranges past the end of a file', async () => {
+    await fs.writeFile(path.join(tempDir, 'short'), Buffer.alloc(100));
+
+    await expect(pool.hashRange(path.join(tempDir, 'short'), 0, 200)).rejects.toThrow(HashPoolError);
+    await expect(pool.hashRange(path.join(tempDir, 'missing'), 0, 10)).rejects.toThrow(HashPoolError);
+
+    // The worker keeps serving
+    expect(await pool.hashPiece(Buffer.from('abc'))).toEqual(sha1(Buffer.from('abc')));
+  });
+
+  test('rejects work once destroyed', async () => {
+    const pending = expect(pool.hashPiece(crypto.randomBytes(1 << 20))).rejects.toThrow('Hash pool destroyed');
+    await pool.destroy();
+
+    await pending;
+    await expect(pool.hashPiece(Buffer.from('abc'))).rejects.toThrow(HashPoolError);
+  });
+});
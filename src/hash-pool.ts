@@ -0,0 +1,219 @@
+import { EventEmitter } from 'events';
+import { Worker } from 'worker_threads';
+import * as os from 'os';
+
+export class HashPoolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HashPoolError';
+  }
+}
+
+export interface HashPoolOptions {
+  size?: number; // worker threads, defaults to DEFAULT_SIZE
+}
+
+// A byte range of a file on disk; ranges are hashed back to back, e.g. a piece spanning files
+export interface HashRange {
+  file: string;
+  offset: number;
+  length: number;
+}
+
+export interface HashPoolStats {
+  workers: number;
+  busy: number;
+  queued: number;
+  bytesHashed: number;
+}
+
+interface HashTask {
+  message: { data?: Uint8Array; ranges?: HashRange[] };
+  transfer: ArrayBuffer[];
+  length: number;
+  resolve: (digest: Buffer) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  task?: HashTask;
+}
+
+// Runs in each worker. Files are read in chunks into one reused buffer, so ranges never reach the main thread.
+const WORKER_SOURCE = `
+const { parentPort } = require('worker_threads');
+const crypto = require('crypto');
+const fs = require('fs');
+
+const CHUNK_SIZE = 1 << 20;
+let chunk;
+
+function hashRanges(hash, ranges) {
+  chunk = chunk || Buffer.allocUnsafe(CHUNK_SIZE);
+  for (const range of ranges) {
+    const fd = fs.openSync(range.file, 'r');
+    try {
+      let done = 0;
+      while (done < range.length) {
+        const bytesRead = fs.readSync(fd, chunk, 0, Math.min(CHUNK_SIZE, range.length - done), range.offset + done);
+        if (bytesRead === 0) {
+          throw new Error('Unexpected end of file: ' + range.file);
+        }
+        hash.update(chunk.subarray(0, bytesRead));
+        done += bytesRead;
+      }
+    } finally {
+      fs.closeSync(fd);
+    }
+  }
+}
+
+parentPort.on('message', (message) => {
+  try {
+    const hash = crypto.createHash('sha1');
+    if (message.data) {
+      hash.update(message.data);
+    } else {
+      hashRanges(hash, message.ranges);
+    }
+    parentPort.postMessage({ digest: hash.digest() });
+  } catch (error) {
+    parentPort.postMessage({ error: error.message });
+  }
+});
+`;
+
+// SHA-1 hashing on worker threads, so verification doesn't stall peer I/O and timers
+export class HashPool extends EventEmitter {
+  // One worker per core besides the main thread, at most 4
+  static readonly DEFAULT_SIZE = Math.max(1, Math.min(4, os.availableParallelism() - 1));
+
+  readonly size: number;
+
+  private readonly workers: PoolWorker[] = [];
+  private readonly queue: HashTask[] = [];
+  private bytesHashed = 0;
+  private destroyed = false;
+
+  constructor(options: HashPoolOptions = {}) {
+    super();
+    this.size = Math.max(1, options.size ?? HashPool.DEFAULT_SIZE);
+  }
+
+  // Buffers backed by a SharedArrayBuffer are handed over as they are. Others are copied once and
+  // the copy is moved to the worker, instead of cloning whatever larger buffer the view belongs to.
+  hashPiece(data: Buffer): Promise<Buffer> {
+    if (data.buffer instanceof SharedArrayBuffer) {
+      return this.submit({ data }, [], data.length);
+    }
+
+    const copy = new Uint8Array(data);
+    return this.submit({ data: copy }, [copy.buffer], data.length);
+  }
+
+  hashRange(file: string, offset: number, length: number): Promise<Buffer> {
+    return this.hashRanges([{ file, offset, length }]);
+  }
+
+  hashRanges(ranges: HashRange[]): Promise<Buffer> {
+    return this.submit({ ranges }, [], ranges.reduce((total, range) => total + range.length, 0));
+  }
+
+  getStats(): HashPoolStats {
+    return {
+      workers: this.workers.length,
+      busy: this.workers.filter(poolWorker => poolWorker.task).length,
+      queued: this.queue.length,
+      bytesHashed: this.bytesHashed,
+    };
+  }
+
+  async destroy(): Promise<void> {
+    this.destroyed = true;
+
+    const pending = [...this.queue, ...this.workers.flatMap(poolWorker => poolWorker.task ?? [])];
+    this.queue.length = 0;
+    for (const task of pending) {
+      task.reject(new HashPoolError('Hash pool destroyed'));
+    }
+
+    const workers = this.workers.splice(0);
+    await Promise.all(workers.map(poolWorker => poolWorker.worker.terminate()));
+    this.removeAllListeners();
+  }
+
+  private submit(message: HashTask['message'], transfer: ArrayBuffer[], length: number): Promise<Buffer> {
+    if (this.destroyed) {
+      return Promise.reject(new HashPoolError('Hash pool destroyed'));
+    }
+
+    return new Promise((resolve, reject) => {
+      this.queue.push({ message, transfer, length, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      let poolWorker = this.workers.find(candidate => !candidate.task);
+      if (!poolWorker) {
+        if (this.workers.length >= this.size) {
+          return;
+        }
+        poolWorker = this.spawn();
+      }
+
+      const task = this.queue.shift()!;
+      poolWorker.task = task;
+      poolWorker.worker.ref();
+      poolWorker.worker.postMessage(task.message, task.transfer);
+    }
+  }
+
+  private spawn(): PoolWorker {
+    const poolWorker: PoolWorker = { worker: new Worker(WORKER_SOURCE, { eval: true }) };
+
+    // Only workers with a task keep the process alive
+    poolWorker.worker.unref();
+
+    poolWorker.worker.on('message', (result: { digest?: Uint8Array; error?: string }) => {
+      const task = poolWorker.task;
+      poolWorker.task = undefined;
+      poolWorker.worker.unref();
+
+      if (task) {
+        if (result.digest) {
+          this.bytesHashed += task.length;
+          task.resolve(Buffer.from(result.digest.buffer, result.digest.byteOffset, result.digest.byteLength));
+        } else {
+          task.reject(new HashPoolError(result.error ?? 'Hashing failed'));
+        }
+      }
+      this.dispatch();
+    });
+
+    // A crashed worker fails its task and is replaced on the next dispatch
+    poolWorker.worker.on('error', (error) => this.retire(poolWorker, error));
+    poolWorker.worker.on('exit', (code) => this.retire(poolWorker, new Error(`Worker exited with code ${code}`)));
+
+    this.workers.push(poolWorker);
+    return poolWorker;
+  }
+
+  private retire(poolWorker: PoolWorker, error: Error): void {
+    const index = this.workers.indexOf(poolWorker);
+    if (index === -1) {
+      return;
+    }
+
+    this.workers.splice(index, 1);
+    poolWorker.task?.reject(new HashPoolError(`Hash worker failed: ${error.message}`));
+    poolWorker.task = undefined;
+    this.emit('worker_error', { error: error.message });
+
+    if (!this.destroyed) {
+      this.dispatch();
+    }
+  }
+}
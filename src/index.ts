@@ -1,18 +1,42 @@
 // Main library exports
 export { TorrentClient, ClientError } from './client';
-export { parseTorrentFile, TorrentMeta, Piece, getPieceMap } from './metainfo';
+export { parseTorrentFile, parseInfoBuffer, TorrentMeta, TorrentFile, Piece, getPieceMap, getFiles } from './metainfo';
 export { TrackerClient, TrackerError } from './tracker';
+export { UdpTrackerClient } from './udp-tracker';
+export { TrackerManager } from './tracker-manager';
 export { PeerConnection, BitSet, MessageType } from './peer';
+export { parseMagnetUri, isMagnetUri, MagnetError } from './magnet';
+export { MetadataFetcher, MetadataError } from './metadata';
+export { DHT, DHTError, RoutingTable, DHT_BOOTSTRAP_NODES } from './dht';
 export { PieceScheduler, SchedulerError } from './scheduler';
+export { AvailabilityIndex } from './availability';
+export { PiecePriorities, PRIORITY_LEVELS, matchFiles } from './priorities';
 export { TorrentStorage, StorageError } from './storage';
-export { encode as bencodeEncode, decode as bencodeDecode } from './bencode';
+export { HashPool, HashPoolError } from './hash-pool';
+export { DiskCache, DiskCacheError } from './disk-cache';
+export { ReadCache } from './read-cache';
+export { encodeResumeData, decodeResumeData, RESUME_VERSION } from './resume';
+export { UploadManager, UploadError } from './upload';
+export { Choker } from './choker';
+export { encode as bencodeEncode, decode as bencodeDecode, decodePrefix as bencodeDecodePrefix } from './bencode';
 
 // Type exports
-export type { ClientOptions, ClientStats, PeerStats } from './client';
-export type { AnnounceRequest, AnnounceResponse, Peer } from './tracker';
-export type { PeerState, RequestMessage, PieceMessage, CancelMessage, HaveMessage, PeerInfo } from './peer';
+export type { ClientOptions, ClientStats, PeerStats, FileStatus } from './client';
+export type { AnnounceRequest, AnnounceResponse, ScrapeResult, Peer } from './tracker';
+export type { TrackerManagerOptions, TrackerState, TrackerAnnounceResult, TrackerScrapeResult } from './tracker-manager';
+export type { PeerState, RequestMessage, PieceMessage, CancelMessage, HaveMessage, PeerInfo, ExtendedHandshake, ExtendedMessage } from './peer';
+export type { MagnetLink } from './magnet';
+export type { MetadataFetcherOptions } from './metadata';
+export type { DHTOptions, DHTNode, DHTStats } from './dht';
 export type { BlockRequest, PieceProgress, SchedulerStats } from './scheduler';
-export type { StorageStats, PieceBuffer } from './storage';
+export type { Priority } from './priorities';
+export type { StorageOptions, StorageStats, PieceBuffer, PartialPiece } from './storage';
+export type { HashPoolOptions, HashRange, HashPoolStats } from './hash-pool';
+export type { DiskCacheOptions, DiskCacheStats, DiskWriter } from './disk-cache';
+export type { ReadCacheStats } from './read-cache';
+export type { ResumeData, ResumeFileState } from './resume';
+export type { UploadStats } from './upload';
+export type { ChokerOptions, ChokerStats } from './choker';
 export type { BencodeValue } from './bencode';
 
 // Version info
@@ -0,0 +1,50 @@
+import { parseMagnetUri, isMagnetUri, MagnetError } from './magnet';
+
+describe('Magnet Module', () => {
+  const hexHash = 'c12fe1c06bba254a9dc9f519b335aa7c1367a88a';
+
+  test('detects magnet URIs', () => {
+    expect(isMagnetUri(`magnet:?xt=urn:btih:${hexHash}`)).toBe(true);
+    expect(isMagnetUri('ubuntu.torrent')).toBe(false);
+  });
+
+  test('parses hex info hash', () => {
+    const magnet = parseMagnetUri(`magnet:?xt=urn:btih:${hexHash.toUpperCase()}`);
+
+    expect(magnet.infoHash.toString('hex')).toBe(hexHash);
+    expect(magnet.trackers).toEqual([]);
+    expect(magnet.peers).toEqual([]);
+    expect(magnet.name).toBeUndefined();
+  });
+
+  test('parses base32 info hash', () => {
+    const magnet = parseMagnetUri('magnet:?xt=urn:btih:YEX6DQDLXISUVHOJ6UM3GNNKPQJWPKEK');
+
+    expect(magnet.infoHash.toString('hex')).toBe(hexHash);
+  });
+
+  test('parses name, trackers and peers', () => {
+    const uri = `magnet:?xt=urn:btih:${hexHash}` +
+      '&dn=Some+File.iso' +
+      '&tr=' + encodeURIComponent('http://tracker.example.com/announce') +
+      '&tr=' + encodeURIComponent('udp://tracker.example.org:6969') +
+      '&tr=' + encodeURIComponent('http://tracker.example.com/announce') +
+      '&x.pe=10.0.0.1:6881' +
+      '&x.pe=[2001:db8::1]:6881';
+
+    const magnet = parseMagnetUri(uri);
+
+    expect(magnet.name).toBe('Some File.iso');
+    expect(magnet.trackers).toEqual([
+      'http://tracker.example.com/announce',
+      'udp://tracker.example.org:6969',
+    ]);
+    expect(magnet.peers).toEqual([{ ip: '10.0.0.1', port: 6881 }]);
+  });
+
+  test('rejects malformed magnet URIs', () => {
+    expect(() => parseMagnetUri('http://example.com')).toThrow(MagnetError);
+    expect(() => parseMagnetUri('magnet:?dn=missing-topic')).toThrow('no urn:btih');
+    expect(() => parseMagnetUri('magnet:?xt=urn:btih:1234')).toThrow('Invalid btih info hash');
+  });
+});
@@ -0,0 +1,98 @@
+import { PeerInfo } from './peer';
+
+export class MagnetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MagnetError';
+  }
+}
+
+export interface MagnetLink {
+  infoHash: Buffer;
+  name?: string;        // dn
+  trackers: string[];   // tr
+  peers: PeerInfo[];    // x.pe
+}
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export function isMagnetUri(value: string): boolean {
+  return value.startsWith('magnet:?');
+}
+
+export function parseMagnetUri(uri: string): MagnetLink {
+  if (!isMagnetUri(uri)) {
+    throw new MagnetError('Magnet URI must start with "magnet:?"');
+  }
+
+  const params = new URLSearchParams(uri.substring('magnet:?'.length));
+
+  // Several xt values may be present (e.g. btmh for v2); use the v1 one
+  const topic = params.getAll('xt').find(xt => xt.startsWith('urn:btih:'));
+  if (!topic) {
+    throw new MagnetError('Magnet URI has no urn:btih exact topic');
+  }
+
+  const infoHash = parseInfoHash(topic.substring('urn:btih:'.length));
+
+  const trackers = Array.from(new Set(params.getAll('tr').filter(tr => tr.length > 0)));
+
+  const peers: PeerInfo[] = [];
+  for (const value of params.getAll('x.pe')) {
+    const peer = parsePeerAddress(value);
+    if (peer) {
+      peers.push(peer);
+    }
+  }
+
+  const name = params.get('dn') ?? undefined;
+
+  return { infoHash, name, trackers, peers };
+}
+
+function parseInfoHash(value: string): Buffer {
+  if (/^[0-9a-fA-F]{40}$/.test(value)) {
+    return Buffer.from(value, 'hex');
+  }
+
+  if (/^[A-Za-z2-7]{32}$/.test(value)) {
+    return decodeBase32(value.toUpperCase());
+  }
+
+  throw new MagnetError(`Invalid btih info hash: ${value}`);
+}
+
+function decodeBase32(value: string): Buffer {
+  const bytes: number[] = [];
+  let bits = 0;
+  let buffer = 0;
+
+  for (const char of value) {
+    buffer = (buffer << 5) | BASE32_ALPHABET.indexOf(char);
+    bits += 5;
+
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >> bits) & 0xff);
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+function parsePeerAddress(value: string): PeerInfo | undefined {
+  const separator = value.lastIndexOf(':');
+  if (separator <= 0) {
+    return undefined;
+  }
+
+  const ip = value.substring(0, separator);
+  const port = parseInt(value.substring(separator + 1), 10);
+
+  // IPv6 peers are not supported
+  if (ip.includes(':') || ip.startsWith('[') || !port || port > 65535) {
+    return undefined;
+  }
+
+  return { ip, port };
+}
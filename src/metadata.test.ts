@@ -0,0 +1,223 @@
+import * as crypto from 'crypto';
+import * as net from 'net';
+import { EventEmitter } from 'events';
+import { MetadataFetcher, MetadataError } from './metadata';
+import { PeerConnection, ExtendedHandshake, ExtendedMessage } from './peer';
+import { encode, decodePrefix } from './bencode';
+import { MagnetLink } from './magnet';
+import { generatePeerId } from './tracker';
+
+const PIECE_SIZE = 16384;
+
+// Mock peer that speaks ut_metadata through the extension events
+class MockMetadataPeer extends EventEmitter {
+  public sent: { msg_type: number; piece: number }[] = [];
+
+  constructor(private handshake?: ExtendedHandshake) {
+    super();
+  }
+
+  getExtendedHandshake(): ExtendedHandshake | undefined {
+    return this.handshake;
+  }
+
+  async sendExtended(_name: string, payload: Buffer): Promise<void> {
+    this.sent.push(decodePrefix(payload).value as { msg_type: number; piece: number });
+  }
+
+  receive(header: { [key: string]: number }, data: Buffer = Buffer.alloc(0)): void {
+    const message: ExtendedMessage = {
+      id: MetadataFetcher.EXTENSION_ID,
+      payload: Buffer.concat([encode(header), data]),
+    };
+    this.emit('extended', message);
+  }
+
+  destroy(): void {
+    this.removeAllListeners();
+  }
+}
+
+function buildInfo(): { info: Buffer; infoHash: Buffer } {
+  const info = encode({
+    name: Buffer.from('magnet-file.bin'),
+    'piece length': 16384,
+    pieces: crypto.randomBytes(20 * 2000), // Large enough to span several metadata pieces
+    length: 16384 * 2000,
+  });
+  return { info, infoHash: crypto.createHash('sha1').update(info).digest() };
+}
+
+function handshakeFor(size: number): ExtendedHandshake {
+  return { extensions: { ut_metadata: 3 }, metadataSize: size, raw: {} };
+}
+
+describe('MetadataFetcher', () => {
+  const { info, infoHash } = buildInfo();
+  const pieceCount = Math.ceil(info.length / PIECE_SIZE);
+  const magnet: MagnetLink = { infoHash, trackers: [], peers: [] };
+
+  const serve = (peer: MockMetadataPeer, data: Buffer = info, until = () => false) => {
+    while (peer.sent.length > 0 && !until()) {
+      const { piece } = peer.sent.shift()!;
+      peer.receive(
+        { msg_type: 1, piece, total_size: data.length },
+        data.subarray(piece * PIECE_SIZE, (piece + 1) * PIECE_SIZE)
+      );
+    }
+  };
+
+  test('requests pieces after the extended handshake and verifies the result', () => {
+    const fetcher = new MetadataFetcher(magnet, { peerId: generatePeerId() });
+    const peer = new MockMetadataPeer();
+    const metadata = jest.fn();
+    fetcher.on('metadata', metadata);
+
+    fetcher.addPeer(peer as unknown as PeerConnection);
+    expect(peer.sent).toHaveLength(0);
+
+    peer.emit('extended_handshake', handshakeFor(info.length));
+    expect(peer.sent.length).toBeGreaterThan(0);
+    expect(peer.sent.length).toBeLessThanOrEqual(4); // Outstanding request cap
+
+    serve(peer);
+
+    expect(metadata).toHaveBeenCalledWith(info);
+    expect(fetcher.getProgress()).toEqual({ received: pieceCount, total: pieceCount });
+    fetcher.destroy();
+  });
+
+  test('moves rejected pieces to another peer', () => {
+    const fetcher = new MetadataFetcher(magnet, { peerId: generatePeerId() });
+    const refusing = new MockMetadataPeer(handshakeFor(info.length));
+    const serving = new MockMetadataPeer(handshakeFor(info.length));
+
+    fetcher.addPeer(refusing as unknown as PeerConnection);
+    fetcher.addPeer(serving as unknown as PeerConnection);
+
+    const refused = refusing.sent.splice(0).map(request => request.piece);
+    for (const piece of refused) {
+      refusing.receive({ msg_type: 2, piece });
+    }
+
+    serve(serving);
+
+    expect(fetcher.getMetadata()).toEqual(info);
+    expect(refusing.sent).toHaveLength(0);
+    fetcher.destroy();
+  });
+
+  test('discards metadata that does not match the info hash and its senders', () => {
+    const fetcher = new MetadataFetcher(magnet, { peerId: generatePeerId() });
+    const liar = new MockMetadataPeer(handshakeFor(info.length + 100));
+    const honest = new MockMetadataPeer(handshakeFor(info.length));
+    const invalid = jest.fn();
+    fetcher.on('metadata_invalid', invalid);
+
+    // The liar's size is taken first, so the honest peer isn't asked
+    fetcher.addPeer(liar as unknown as PeerConnection);
+    fetcher.addPeer(honest as unknown as PeerConnection);
+    expect(honest.sent).toHaveLength(0);
+
+    serve(liar, crypto.randomBytes(info.length + 100), () => invalid.mock.calls.length > 0);
+
+    expect(invalid).toHaveBeenCalled();
+    expect(fetcher.getMetadata()).toBeUndefined();
+    expect(liar.sent).toHaveLength(0);
+
+    // Starts over with the size the honest peer advertised
+    expect(fetcher.getProgress()).toEqual({ received: 0, total: pieceCount });
+    serve(honest);
+    expect(fetcher.getMetadata()).toEqual(info);
+    expect(liar.sent).toHaveLength(0);
+    fetcher.destroy();
+  });
+
+  test('asks another peer for pieces left unanswered', () => {
+    jest.useFakeTimers();
+    try {
+      const fetcher = new MetadataFetcher(magnet, { peerId: generatePeerId() });
+      const silent = new MockMetadataPeer(handshakeFor(info.length));
+      const serving = new MockMetadataPeer(handshakeFor(info.length));
+
+      fetcher.addPeer(silent as unknown as PeerConnection);
+      fetcher.addPeer(serving as unknown as PeerConnection);
+      const unanswered = silent.sent.splice(0).map(request => request.piece);
+      expect(unanswered).toHaveLength(pieceCount);
+      expect(serving.sent).toHaveLength(0);
+
+      jest.advanceTimersByTime(15000);
+
+      expect(serving.sent.map(request => request.piece)).toEqual(unanswered);
+      serve(serving);
+
+      expect(fetcher.getMetadata()).toEqual(info);
+      expect(silent.sent).toHaveLength(0);
+      fetcher.destroy();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  test('rejects metadata requests from peers', () => {
+    const fetcher = new MetadataFetcher(magnet, { peerId: generatePeerId() });
+    const peer = new MockMetadataPeer({ extensions: { ut_metadata: 3 }, raw: {} });
+
+    fetcher.addPeer(peer as unknown as PeerConnection);
+    peer.receive({ msg_type: 0, piece: 0 });
+
+    expect(peer.sent).toEqual([{ msg_type: 2, piece: 0 }]);
+    fetcher.destroy();
+  });
+
+  test('fails without trackers or peers', async () => {
+    const fetcher = new MetadataFetcher(magnet, { peerId: generatePeerId() });
+
+    await expect(fetcher.fetch()).rejects.toThrow(MetadataError);
+  });
+
+  test('fetches metadata from a peer over TCP', async () => {
+    const seeds: PeerConnection[] = [];
+    const server = net.createServer((socket) => {
+      const seed = new PeerConnection(
+        { ip: socket.remoteAddress || '127.0.0.1', port: socket.remotePort || 0 },
+        infoHash,
+        generatePeerId(),
+        0,
+        socket
+      );
+      seed.registerExtension('ut_metadata', 2);
+      seed.setMetadataSize(info.length);
+      seed.on('error', () => {});
+      seed.on('extended', (message: ExtendedMessage) => {
+        const { piece } = decodePrefix(message.payload).value as { piece: number };
+        const header = encode({ msg_type: 1, piece, total_size: info.length });
+        seed.sendExtended('ut_metadata', Buffer.concat([
+          header,
+          info.subarray(piece * PIECE_SIZE, (piece + 1) * PIECE_SIZE),
+        ])).catch(() => {});
+      });
+      seed.accept().catch(() => {});
+      seeds.push(seed);
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const port = (server.address() as net.AddressInfo).port;
+
+    const fetcher = new MetadataFetcher(
+      { infoHash, trackers: [], peers: [{ ip: '127.0.0.1', port }] },
+      { peerId: generatePeerId(), timeout: 10000 }
+    );
+
+    try {
+      const meta = await fetcher.fetch();
+
+      expect(meta.name).toBe('magnet-file.bin');
+      expect(meta.infoHashV1).toEqual(infoHash);
+      expect(meta.length).toBe(16384 * 2000);
+    } finally {
+      seeds.forEach(seed => seed.destroy());
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  });
+});
@@ -0,0 +1,413 @@
+import * as crypto from 'crypto';
+import { EventEmitter } from 'events';
+import { PeerConnection, PeerInfo, ExtendedHandshake, ExtendedMessage } from './peer';
+import { decodePrefix, encode, BencodeValue } from './bencode';
+import { TorrentMeta, parseInfoBuffer } from './metainfo';
+import { TrackerManager } from './tracker-manager';
+import { MagnetLink } from './magnet';
+import { DHT } from './dht';
+
+export class MetadataError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MetadataError';
+  }
+}
+
+export interface MetadataFetcherOptions {
+  peerId: Buffer;
+  port?: number;       // advertised to trackers
+  maxPeers?: number;   // concurrent connections while fetching
+  timeout?: number;    // ms before giving up
+  dht?: DHT;           // started DHT node to look up peers with
+}
+
+// BEP 9 message types
+enum MetadataMessageType {
+  REQUEST = 0,
+  DATA = 1,
+  REJECT = 2,
+}
+
+interface MetadataRequest {
+  peer: PeerConnection;
+  timer: NodeJS.Timeout;
+}
+
+export class MetadataFetcher extends EventEmitter {
+  static readonly EXTENSION_NAME = 'ut_metadata';
+  static readonly EXTENSION_ID = 1; // our id for ut_metadata
+  private static readonly PIECE_SIZE = 16384; // 16 KiB
+  private static readonly MAX_METADATA_SIZE = 10 * 1024 * 1024; // 10 MiB
+  private static readonly MAX_OUTSTANDING = 4; // requests per peer
+  private static readonly REQUEST_TIMEOUT = 15000; // ms before a piece is asked from another peer
+  private static readonly DEFAULT_MAX_PEERS = 10;
+  private static readonly DEFAULT_TIMEOUT = 120000; // 2 minutes
+
+  private readonly infoHash: Buffer;
+  private readonly peers: Set<PeerConnection> = new Set();
+  private readonly sources: Set<PeerConnection> = new Set(); // peers able to serve metadata
+  private readonly badSources: Set<PeerConnection> = new Set(); // sent metadata that failed the hash check
+  private readonly requested: Map<number, MetadataRequest> = new Map();
+  private metadataSize?: number;
+  private pieces: (Buffer | undefined)[] = [];
+  private readonly senders: Map<number, PeerConnection> = new Map(); // piece -> peer that sent it
+  private metadata?: Buffer;
+
+  // Connection management for fetch()
+  private readonly pendingPeers: PeerInfo[] = [];
+  private readonly seenPeers: Set<string> = new Set();
+  private trackers?: TrackerManager;
+  private destroyed = false;
+
+  constructor(
+    private readonly magnet: MagnetLink,
+    private readonly options: MetadataFetcherOptions
+  ) {
+    super();
+    this.infoHash = magnet.infoHash;
+  }
+
+  // Finds peers through the magnet's trackers, x.pe hints and the DHT and downloads the info dictionary
+  async fetch(): Promise<TorrentMeta> {
+    const timeout = this.options.timeout ?? MetadataFetcher.DEFAULT_TIMEOUT;
+    const trackerMeta = {
+      announce: this.magnet.trackers[0] ?? '',
+      announceList: this.magnet.trackers.length > 0 ? [this.magnet.trackers] : undefined,
+    };
+
+    if (this.magnet.trackers.length === 0 && this.magnet.peers.length === 0 && !this.options.dht) {
+      throw new MetadataError('Magnet link has neither trackers nor peers');
+    }
+
+    try {
+      const metadata = await new Promise<Buffer>((resolve, reject) => {
+        const timer = setTimeout(() => {
+          reject(new MetadataError(`Timed out fetching metadata from ${this.seenPeers.size} peers`));
+        }, timeout);
+
+        this.once('metadata', (data: Buffer) => {
+          clearTimeout(timer);
+          resolve(data);
+        });
+
+        this.addCandidates(this.magnet.peers);
+
+        if (trackerMeta.announce) {
+          this.trackers = new TrackerManager(trackerMeta);
+          this.trackers.on('tracker_error', (event) => this.emit('tracker_error', event));
+          this.announce();
+        }
+
+        this.options.dht?.getPeers(this.infoHash)
+          .then((peers) => this.addCandidates(peers))
+          .catch((error) => this.emit('dht_error', { error }));
+      });
+
+      return parseInfoBuffer(metadata, trackerMeta.announce, trackerMeta.announceList);
+    } finally {
+      this.destroy();
+    }
+  }
+
+  private announce(): void {
+    this.trackers?.announce({
+      infoHash: this.infoHash,
+      peerId: this.options.peerId,
+      port: this.options.port ?? 6881,
+      uploaded: 0,
+      downloaded: 0,
+      left: 1, // Size is unknown until the metadata arrives; non-zero keeps us a leecher
+      compact: true,
+      event: 'started',
+    }).then((response) => {
+      this.addCandidates(response.peers);
+    }).catch((error) => {
+      this.emit('announce_error', { error });
+    });
+  }
+
+  private addCandidates(peers: PeerInfo[]): void {
+    for (const peer of peers) {
+      const address = `${peer.ip}:${peer.port}`;
+      if (!this.seenPeers.has(address)) {
+        this.seenPeers.add(address);
+        this.pendingPeers.push(peer);
+      }
+    }
+    this.connectPeers();
+  }
+
+  private connectPeers(): void {
+    const maxPeers = this.options.maxPeers ?? MetadataFetcher.DEFAULT_MAX_PEERS;
+
+    while (!this.destroyed && !this.metadata && this.peers.size < maxPeers && this.pendingPeers.length > 0) {
+      const info = this.pendingPeers.shift()!;
+      // Piece count is unknown, so peers start with an empty bitfield
+      const peer = new PeerConnection(info, this.infoHash, this.options.peerId, 0);
+      peer.registerExtension(MetadataFetcher.EXTENSION_NAME, MetadataFetcher.EXTENSION_ID);
+
+      peer.on('handshake', () => {
+        if (!peer.supportsExtensions()) {
+          this.dropPeer(peer);
+        }
+      });
+
+      this.addPeer(peer);
+      peer.connect().catch(() => this.dropPeer(peer));
+    }
+  }
+
+  private dropPeer(peer: PeerConnection): void {
+    this.removePeer(peer);
+    peer.destroy();
+    this.connectPeers();
+  }
+
+  // Runs the ut_metadata exchange on a connection that registered the extension
+  addPeer(peer: PeerConnection): void {
+    if (this.peers.has(peer)) {
+      return;
+    }
+
+    this.peers.add(peer);
+
+    peer.on('extended_handshake', (handshake: ExtendedHandshake) => this.handleHandshake(peer, handshake));
+    peer.on('extended', (message: ExtendedMessage) => {
+      if (message.id === MetadataFetcher.EXTENSION_ID) {
+        this.handleMessage(peer, message.payload);
+      }
+    });
+    peer.on('close', () => this.dropPeer(peer));
+    peer.on('error', () => this.dropPeer(peer));
+
+    const handshake = peer.getExtendedHandshake();
+    if (handshake) {
+      this.handleHandshake(peer, handshake);
+    }
+  }
+
+  removePeer(peer: PeerConnection): void {
+    if (!this.peers.delete(peer)) {
+      return;
+    }
+    this.sources.delete(peer);
+
+    // Hand its outstanding pieces to other peers
+    for (const [piece, request] of this.requested) {
+      if (request.peer === peer) {
+        this.cancelRequest(piece);
+      }
+    }
+    this.requestPieces();
+  }
+
+  private handleHandshake(peer: PeerConnection, handshake: ExtendedHandshake): void {
+    const size = handshake.metadataSize;
+    if (!handshake.extensions[MetadataFetcher.EXTENSION_NAME] || size === undefined || this.badSources.has(peer)) {
+      return;
+    }
+
+    if (size <= 0 || size > MetadataFetcher.MAX_METADATA_SIZE) {
+      this.emit('debug', `Ignoring peer advertising metadata size ${size}`);
+      return;
+    }
+
+    if (this.metadataSize === undefined) {
+      this.metadataSize = size;
+      this.pieces = new Array(Math.ceil(size / MetadataFetcher.PIECE_SIZE)).fill(undefined);
+    } else if (size !== this.metadataSize) {
+      this.emit('debug', `Ignoring peer advertising metadata size ${size}, expected ${this.metadataSize}`);
+      return;
+    }
+
+    this.sources.add(peer);
+    this.requestPieces();
+  }
+
+  private handleMessage(peer: PeerConnection, payload: Buffer): void {
+    let header: { [key: string]: BencodeValue };
+    let dataOffset: number;
+
+    try {
+      const { value, length } = decodePrefix(payload);
+      if (typeof value !== 'object' || value === null || Array.isArray(value) || Buffer.isBuffer(value)) {
+        throw new MetadataError('ut_metadata message must start with a dictionary');
+      }
+      header = value;
+      dataOffset = length;
+    } catch (error) {
+      this.emit('debug', `Invalid ut_metadata message: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return;
+    }
+
+    const piece = header.piece;
+    if (typeof piece !== 'number') {
+      return;
+    }
+
+    switch (header.msg_type) {
+      case MetadataMessageType.REQUEST:
+        // We only fetch metadata, never serve it
+        this.send(peer, { msg_type: MetadataMessageType.REJECT, piece });
+        break;
+
+      case MetadataMessageType.DATA:
+        this.handleData(peer, piece, payload.subarray(dataOffset));
+        break;
+
+      case MetadataMessageType.REJECT:
+        // The peer won't serve us metadata, try the others
+        this.cancelRequest(piece);
+        this.sources.delete(peer);
+        this.requestPieces();
+        break;
+    }
+  }
+
+  private handleData(peer: PeerConnection, piece: number, data: Buffer): void {
+    if (this.metadataSize === undefined || piece < 0 || piece >= this.pieces.length || this.pieces[piece]) {
+      return;
+    }
+
+    const expectedLength = Math.min(MetadataFetcher.PIECE_SIZE, this.metadataSize - piece * MetadataFetcher.PIECE_SIZE);
+    if (data.length !== expectedLength) {
+      this.emit('debug', `Metadata piece ${piece} has ${data.length} bytes, expected ${expectedLength}`);
+      this.cancelRequest(piece);
+      this.sources.delete(peer);
+      this.requestPieces();
+      return;
+    }
+
+    this.pieces[piece] = Buffer.from(data);
+    this.senders.set(piece, peer);
+    this.cancelRequest(piece);
+    this.emit('metadata_piece', { piece, total: this.pieces.length });
+
+    if (this.pieces.every(p => p !== undefined)) {
+      this.verify();
+    } else {
+      this.requestPieces();
+    }
+  }
+
+  private verify(): void {
+    const metadata = Buffer.concat(this.pieces as Buffer[]);
+    const hash = crypto.createHash('sha1').update(metadata).digest();
+
+    if (!hash.equals(this.infoHash)) {
+      // Any of the senders may have lied about the data or its size, so none of them is asked again.
+      // Start over with the size the remaining peers advertise.
+      this.emit('metadata_invalid');
+      for (const sender of this.senders.values()) {
+        this.badSources.add(sender);
+        this.sources.delete(sender);
+      }
+      this.senders.clear();
+      this.metadataSize = undefined;
+      this.pieces = [];
+
+      for (const peer of this.peers) {
+        const handshake = peer.getExtendedHandshake();
+        if (handshake) {
+          this.handleHandshake(peer, handshake);
+        }
+      }
+      return;
+    }
+
+    this.metadata = metadata;
+    this.emit('metadata', metadata);
+  }
+
+  private requestPieces(): void {
+    if (this.metadata || this.metadataSize === undefined) {
+      return;
+    }
+
+    for (let piece = 0; piece < this.pieces.length; piece++) {
+      if (this.pieces[piece] || this.requested.has(piece)) {
+        continue;
+      }
+
+      const peer = this.pickSource();
+      if (!peer) {
+        return;
+      }
+
+      // A peer that doesn't answer in time isn't asked again
+      const timer = setTimeout(() => {
+        this.emit('debug', `Metadata piece ${piece} timed out, asking another peer`);
+        this.cancelRequest(piece);
+        this.sources.delete(peer);
+        this.requestPieces();
+      }, MetadataFetcher.REQUEST_TIMEOUT);
+
+      this.requested.set(piece, { peer, timer });
+      this.send(peer, { msg_type: MetadataMessageType.REQUEST, piece });
+    }
+  }
+
+  private cancelRequest(piece: number): void {
+    const request = this.requested.get(piece);
+    if (request) {
+      clearTimeout(request.timer);
+      this.requested.delete(piece);
+    }
+  }
+
+  // Least busy peer with a free request slot
+  private pickSource(): PeerConnection | undefined {
+    let best: PeerConnection | undefined;
+    let bestOutstanding = MetadataFetcher.MAX_OUTSTANDING;
+
+    for (const peer of this.sources) {
+      let outstanding = 0;
+      for (const request of this.requested.values()) {
+        if (request.peer === peer) outstanding++;
+      }
+
+      if (outstanding < bestOutstanding) {
+        best = peer;
+        bestOutstanding = outstanding;
+      }
+    }
+
+    return best;
+  }
+
+  private send(peer: PeerConnection, message: { [key: string]: BencodeValue }): void {
+    peer.sendExtended(MetadataFetcher.EXTENSION_NAME, encode(message)).catch(() => {
+      this.dropPeer(peer);
+    });
+  }
+
+  // Public API
+  getMetadata(): Buffer | undefined {
+    return this.metadata;
+  }
+
+  getProgress(): { received: number; total: number } {
+    return {
+      received: this.pieces.filter(p => p !== undefined).length,
+      total: this.pieces.length,
+    };
+  }
+
+  destroy(): void {
+    this.destroyed = true;
+
+    for (const peer of this.peers) {
+      peer.destroy();
+    }
+    this.peers.clear();
+    this.sources.clear();
+    for (const piece of Array.from(this.requested.keys())) {
+      this.cancelRequest(piece);
+    }
+    this.pendingPeers.length = 0;
+
+    this.trackers?.destroy();
+    this.trackers = undefined;
+  }
+}
@@ -1,6 +1,6 @@
 import * as fs from 'fs';
 import * as crypto from 'crypto';
-import { parseTorrentBuffer, parseTorrentFile, getPieceMap, getFileOffset, validatePieceIndex, getTotalPieces, MetainfoError } from './metainfo';
+import { parseTorrentBuffer, parseTorrentFile, getPieceMap, getFileOffset, validatePieceIndex, getTotalPieces, getFiles, mapRangeToFiles, MetainfoError } from './metainfo';
 import { encode } from './bencode';
 
 describe('Metainfo Parser', () => {
@@ -113,6 +113,37 @@ describe('Metainfo Parser', () => {
       expect(result.pieces.length).toBe(80); // 4 pieces * 20 bytes each
     });
 
+    test('parses multi-file torrent', () => {
+      const torrentData = encode({
+        announce: Buffer.from('http://tracker.example.com/announce'),
+        info: {
+          name: Buffer.from('album'),
+          files: [
+            { length: 500, path: [Buffer.from('cd1'), Buffer.from('track1.flac')] },
+            { length: 0, path: [Buffer.from('empty.txt')] },
+            { length: 300, path: [Buffer.from('cover.jpg')] },
+          ],
+          'piece length': 256,
+          pieces: Buffer.alloc(80), // 4 pieces for 800 bytes
+        }
+      });
+
+      const result = parseTorrentBuffer(torrentData);
+
+      expect(result.name).toBe('album');
+      expect(result.length).toBe(800);
+      expect(result.files).toEqual([
+        { path: ['cd1', 'track1.flac'], length: 500, offset: 0 },
+        { path: ['empty.txt'], length: 0, offset: 500 },
+        { path: ['cover.jpg'], length: 300, offset: 500 },
+      ]);
+    });
+
+    test('leaves files undefined for single-file torrent', () => {
+      const result = parseTorrentBuffer(createTestTorrent());
+      expect(result.files).toBeUndefined();
+    });
+
     describe('Error handling', () => {
       test('throws on invalid bencode data', () => {
         const invalidData = Buffer.from('not bencode');
@@ -161,19 +192,59 @@ describe('Metainfo Parser', () => {
         expect(() => parseTorrentBuffer(torrentData)).toThrow('Missing or invalid name');
       });
 
-      test('throws on multi-file torrent', () => {
-        const torrentData = createTestTorrent({
+      test('throws on invalid files list', () => {
+        const torrentData = encode({
+          announce: Buffer.from('http://example.com'),
+          info: {
+            name: Buffer.from('multi-file'),
+            files: [{ length: 500 }],
+            'piece length': 256,
+            pieces: Buffer.alloc(40),
+          }
+        });
+        expect(() => parseTorrentBuffer(torrentData)).toThrow('Missing or invalid file path');
+      });
+
+      test('throws on unsafe file path segments', () => {
+        const torrentData = encode({
+          announce: Buffer.from('http://example.com'),
           info: {
             name: Buffer.from('multi-file'),
-            files: [
-              { length: 500, path: [Buffer.from('file1.txt')] },
-              { length: 500, path: [Buffer.from('file2.txt')] },
-            ],
+            files: [{ length: 500, path: [Buffer.from('..'), Buffer.from('escape.txt')] }],
             'piece length': 256,
-            pieces: Buffer.alloc(40), // 2 pieces
+            pieces: Buffer.alloc(40),
           }
         });
-        expect(() => parseTorrentBuffer(torrentData)).toThrow('Multi-file torrents are not supported');
+        expect(() => parseTorrentBuffer(torrentData)).toThrow('Unsafe file path segment');
+      });
+
+      test('throws on torrent names that escape the output directory', () => {
+        for (const name of ['..', '../x', '']) {
+          const torrentData = encode({
+            announce: Buffer.from('http://example.com'),
+            info: {
+              name: Buffer.from(name),
+              files: [{ length: 500, path: [Buffer.from('a.txt')] }],
+              'piece length': 256,
+              pieces: Buffer.alloc(40),
+            }
+          });
+          expect(() => parseTorrentBuffer(torrentData)).toThrow('Unsafe torrent name');
+        }
+      });
+
+      test('throws when both length and files are present', () => {
+        const torrentData = encode({
+          announce: Buffer.from('http://example.com'),
+          info: {
+            name: Buffer.from('multi-file'),
+            length: 1000,
+            files: [{ length: 1000, path: [Buffer.from('file1.txt')] }],
+            'piece length': 256,
+            pieces: Buffer.alloc(80),
+          }
+        });
+        expect(() => parseTorrentBuffer(torrentData)).toThrow('cannot contain both length and files');
       });
 
       test('throws on missing length', () => {
@@ -376,6 +447,32 @@ describe('Metainfo Parser', () => {
       expect(getTotalPieces(meta)).toBe(3);
     });
 
+    test('getFiles returns single entry for single-file torrent', () => {
+      const meta = parseTorrentBuffer(createTestTorrent());
+      expect(getFiles(meta)).toEqual([{ path: ['test.txt'], length: 1000, offset: 0 }]);
+    });
+
+    test('mapRangeToFiles splits ranges across file boundaries', () => {
+      const files = [
+        { path: ['a'], length: 100, offset: 0 },
+        { path: ['b'], length: 0, offset: 100 },
+        { path: ['c'], length: 50, offset: 100 },
+        { path: ['d'], length: 200, offset: 150 },
+      ];
+
+      expect(mapRangeToFiles(files, 0, 50)).toEqual([
+        { fileIndex: 0, fileOffset: 0, length: 50 },
+      ]);
+      expect(mapRangeToFiles(files, 80, 128)).toEqual([
+        { fileIndex: 0, fileOffset: 80, length: 20 },
+        { fileIndex: 2, fileOffset: 0, length: 50 },
+        { fileIndex: 3, fileOffset: 0, length: 58 },
+      ]);
+      expect(mapRangeToFiles(files, 340, 100)).toEqual([
+        { fileIndex: 3, fileOffset: 190, length: 10 },
+      ]);
+    });
+
     test('validatePieceIndex accepts valid indices', () => {
       expect(() => validatePieceIndex(0, 5)).not.toThrow();
       expect(() => validatePieceIndex(4, 5)).not.toThrow();
@@ -13,12 +13,25 @@ export interface TorrentMeta {
   announce: string;
   announceList?: string[][];
   name: string;
-  length: number;            // single-file only in MVP
+  length: number;            // total bytes across all files
+  files?: TorrentFile[];     // multi-file layout only
   pieceLength: number;       // bytes
   pieces: Buffer;            // 20B * numPieces
   infoHashV1: Buffer;        // 20B SHA-1
 }
 
+export interface TorrentFile {
+  path: string[];            // path segments relative to the torrent root
+  length: number;            // bytes
+  offset: number;            // byte offset within the concatenated torrent data
+}
+
+export interface FileSpan {
+  fileIndex: number;
+  fileOffset: number;        // offset within the file
+  length: number;            // bytes covered in this file
+}
+
 export interface Piece {
   index: number;
   length: number;            // last piece may be shorter
@@ -94,8 +107,23 @@ export function parseTorrentBuffer(data: Buffer): TorrentMeta {
     }
   }
   
-  // Extract info dictionary
-  const infoValue = torrent.info;
+  return parseInfoDictionary(torrent.info, announce, announceList);
+}
+
+// Builds metadata from a bare info dictionary, e.g. one fetched from peers for a magnet link
+export function parseInfoBuffer(data: Buffer, announce = '', announceList?: string[][]): TorrentMeta {
+  let decoded: BencodeValue;
+  
+  try {
+    decoded = decode(data);
+  } catch (error) {
+    throw new MetainfoError(`Failed to decode bencode: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+  
+  return parseInfoDictionary(decoded, announce, announceList);
+}
+
+function parseInfoDictionary(infoValue: BencodeValue | undefined, announce: string, announceList?: string[][]): TorrentMeta {
   if (typeof infoValue !== 'object' || infoValue === null || Array.isArray(infoValue) || Buffer.isBuffer(infoValue)) {
     throw new MetainfoError('Missing or invalid info dictionary');
   }
@@ -108,21 +136,37 @@ export function parseTorrentBuffer(data: Buffer): TorrentMeta {
     throw new MetainfoError('Missing or invalid name in info dictionary');
   }
   const name = nameValue.toString('utf8');
-  
-  // Check for multi-file layout and reject (MVP limitation)
-  if (info.files) {
-    throw new MetainfoError('Multi-file torrents are not supported in MVP');
+
+  // Multi-file torrents are laid out in a directory of this name, and magnet metadata comes from peers
+  if (!isSafePathSegment(name)) {
+    throw new MetainfoError(`Unsafe torrent name: ${JSON.stringify(name)}`);
   }
   
-  // Extract length (single-file only)
-  const lengthValue = info.length;
-  if (typeof lengthValue !== 'number') {
-    throw new MetainfoError('Missing or invalid length in info dictionary');
-  }
-  const length = lengthValue;
+  // Extract file layout (single-file length or multi-file list)
+  let length: number;
+  let files: TorrentFile[] | undefined;
   
-  if (length <= 0) {
-    throw new MetainfoError('File length must be positive');
+  if (info.files !== undefined) {
+    if (info.length !== undefined) {
+      throw new MetainfoError('Info dictionary cannot contain both length and files');
+    }
+    
+    files = parseFileList(info.files);
+    length = files.reduce((total, file) => total + file.length, 0);
+    
+    if (length <= 0) {
+      throw new MetainfoError('Total length of files must be positive');
+    }
+  } else {
+    const lengthValue = info.length;
+    if (typeof lengthValue !== 'number') {
+      throw new MetainfoError('Missing or invalid length in info dictionary');
+    }
+    length = lengthValue;
+    
+    if (length <= 0) {
+      throw new MetainfoError('File length must be positive');
+    }
   }
   
   // Extract piece length
@@ -163,12 +207,64 @@ export function parseTorrentBuffer(data: Buffer): TorrentMeta {
     announceList,
     name,
     length,
+    files,
     pieceLength,
     pieces,
     infoHashV1,
   };
 }
 
+function parseFileList(filesValue: BencodeValue): TorrentFile[] {
+  if (!Array.isArray(filesValue) || filesValue.length === 0) {
+    throw new MetainfoError('Invalid files list in info dictionary');
+  }
+  
+  const files: TorrentFile[] = [];
+  let offset = 0;
+  
+  for (const entry of filesValue) {
+    if (typeof entry !== 'object' || entry === null || Array.isArray(entry) || Buffer.isBuffer(entry)) {
+      throw new MetainfoError('Invalid file entry in files list');
+    }
+    
+    const fileDict = entry as { [key: string]: BencodeValue };
+    
+    const fileLength = fileDict.length;
+    if (typeof fileLength !== 'number' || fileLength < 0) {
+      throw new MetainfoError('Missing or invalid file length in files list');
+    }
+    
+    const pathValue = fileDict.path;
+    if (!Array.isArray(pathValue) || pathValue.length === 0) {
+      throw new MetainfoError('Missing or invalid file path in files list');
+    }
+    
+    const segments: string[] = [];
+    for (const segment of pathValue) {
+      if (!Buffer.isBuffer(segment)) {
+        throw new MetainfoError('Invalid file path segment in files list');
+      }
+      
+      const name = segment.toString('utf8');
+      
+      // Reject segments that could escape the torrent root directory
+      if (!isSafePathSegment(name)) {
+        throw new MetainfoError(`Unsafe file path segment: ${JSON.stringify(name)}`);
+      }
+      segments.push(name);
+    }
+    
+    files.push({ path: segments, length: fileLength, offset });
+    offset += fileLength;
+  }
+  
+  return files;
+}
+
+function isSafePathSegment(name: string): boolean {
+  return name !== '' && name !== '.' && name !== '..' && !/[/\\\0]/.test(name);
+}
+
 export function getPieceMap(meta: TorrentMeta): Piece[] {
   const pieces: Piece[] = [];
   const numPieces = meta.pieces.length / 20;
@@ -203,4 +299,42 @@ export function validatePieceIndex(pieceIndex: number, totalPieces: number): voi
 
 export function getTotalPieces(meta: TorrentMeta): number {
   return meta.pieces.length / 20;
-}
\ No newline at end of file
+}
+
+export function getFiles(meta: TorrentMeta): TorrentFile[] {
+  if (meta.files) {
+    return meta.files;
+  }
+  
+  return [{ path: [meta.name], length: meta.length, offset: 0 }];
+}
+
+export function mapRangeToFiles(
+  files: ReadonlyArray<Pick<TorrentFile, 'offset' | 'length'>>,
+  offset: number,
+  length: number
+): FileSpan[] {
+  const spans: FileSpan[] = [];
+  const end = offset + length;
+  
+  for (let i = 0; i < files.length; i++) {
+    const file = files[i];
+    const fileEnd = file.offset + file.length;
+    
+    // Skip empty files and files entirely outside the range
+    if (file.length === 0 || fileEnd <= offset || file.offset >= end) {
+      continue;
+    }
+    
+    const start = Math.max(offset, file.offset);
+    const stop = Math.min(end, fileEnd);
+    
+    spans.push({
+      fileIndex: i,
+      fileOffset: start - file.offset,
+      length: stop - start,
+    });
+  }
+  
+  return spans;
+}
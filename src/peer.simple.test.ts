@@ -1,5 +1,6 @@
 import * as crypto from 'crypto';
 import { PeerConnection, PeerError, BitSet, MessageType } from './peer';
+import { encode } from './bencode';
 
 describe('Peer Module - Core Functionality', () => {
   const infoHash = crypto.randomBytes(20);
@@ -129,10 +130,17 @@ describe('Peer Module - Core Functionality', () => {
       expect(handshake.length).toBe(68);
       expect(handshake[0]).toBe(19); // Protocol string length
       expect(handshake.subarray(1, 20).toString()).toBe('BitTorrent protocol');
-      expect(handshake.subarray(20, 28)).toEqual(Buffer.alloc(8, 0)); // Reserved
+      expect(handshake.subarray(20, 28)).toEqual(Buffer.from([0, 0, 0, 0, 0, 0x10, 0, 0])); // Reserved, BEP 10 bit
       expect(handshake.subarray(28, 48)).toEqual(infoHash);
       expect(handshake.subarray(48, 68)).toEqual(peerId);
     });
+
+    test('advertises DHT support when enabled', () => {
+      peer.enableDht(6881);
+      const handshake = peer['buildHandshake']();
+
+      expect(handshake[27] & 0x01).toBe(0x01); // Reserved, BEP 5 bit
+    });
   });
 
   describe('Message Parsing', () => {
@@ -264,6 +272,65 @@ describe('Peer Module - Core Functionality', () => {
       expect(peer.hasPiece(5)).toBe(true);
     });
 
+    test('tracks download throughput from received blocks', () => {
+      const payload = Buffer.alloc(8 + 16384);
+      peer['handleMessage']({ type: MessageType.PIECE, payload });
+      peer['handleMessage']({ type: MessageType.PIECE, payload });
+
+      const throughput = peer.getState().throughput;
+      expect(throughput.downBps).toBeCloseTo((2 * 16384) / 20, 5);
+      expect(throughput.upBps).toBe(0);
+    });
+
+    test('drops blocks that left the throughput window', () => {
+      let now = 0;
+      const clock = jest.spyOn(Date, 'now').mockImplementation(() => now);
+      const payload = Buffer.alloc(8 + 16384);
+
+      try {
+        peer['handleMessage']({ type: MessageType.PIECE, payload });
+        now = 15000;
+        peer['handleMessage']({ type: MessageType.PIECE, payload });
+        expect(peer.getState().throughput.downBps).toBeCloseTo((2 * 16384) / 20, 5);
+
+        now = 25000;
+        peer.updateThroughput();
+        expect(peer.getState().throughput.downBps).toBeCloseTo(16384 / 20, 5);
+
+        // Reading the state doesn't recompute it
+        now = 40000;
+        expect(peer.getState().throughput.downBps).toBeCloseTo(16384 / 20, 5);
+        peer.updateThroughput();
+        expect(peer.getState().throughput.downBps).toBe(0);
+      } finally {
+        clock.mockRestore();
+      }
+    });
+
+    test('parses extended handshake', () => {
+      const handshake = encode({ m: { ut_metadata: 3, ut_pex: 0 }, metadata_size: 31235, reqq: 500, v: Buffer.from('Test 1.0') });
+      const received = jest.fn();
+      peer.on('extended_handshake', received);
+
+      peer['handleMessage']({ type: MessageType.EXTENDED, payload: Buffer.concat([Buffer.from([0]), handshake]) });
+
+      const ext = peer.getExtendedHandshake();
+      expect(received).toHaveBeenCalled();
+      expect(ext?.extensions).toEqual({ ut_metadata: 3 }); // id 0 means disabled
+      expect(ext?.metadataSize).toBe(31235);
+      expect(ext?.reqq).toBe(500);
+      expect(ext?.client).toBe('Test 1.0');
+    });
+
+    test('emits extension messages by id', () => {
+      const received = jest.fn();
+      peer.on('extended', received);
+
+      peer['handleMessage']({ type: MessageType.EXTENDED, payload: Buffer.from([1, 0xAB]) });
+
+      expect(received).toHaveBeenCalledWith({ id: 1, payload: Buffer.from([0xAB]) });
+    });
+
     test('handles bitfield message', () => {
       const bitfieldBuffer = Buffer.from([0b10100000, 0b01000000]); // Bits 0, 2, 9 set
       peer['handleMessage']({ type: MessageType.BITFIELD, payload: bitfieldBuffer });
@@ -1,5 +1,6 @@
 import * as net from 'net';
 import { EventEmitter } from 'events';
+import { decode, encode, BencodeValue } from './bencode';
 
 export class PeerError extends Error {
   constructor(message: string) {
@@ -98,6 +99,7 @@ export enum MessageType {
   PIECE = 7,
   CANCEL = 8,
   PORT = 9,
+  EXTENDED = 20, // BEP 10
 }
 
 export interface WireMessage {
@@ -131,13 +133,39 @@ export interface PortMessage {
   port: number;
 }
 
+export interface ExtendedHandshake {
+  extensions: { [name: string]: number }; // the peer's extension message ids
+  metadataSize?: number;                  // BEP 9
+  reqq?: number;                          // requests the peer queues before dropping more
+  client?: string;
+  raw: { [key: string]: BencodeValue };
+}
+
+export interface ExtendedMessage {
+  id: number;       // our extension id, as the peer addresses us
+  payload: Buffer;
+}
+
+// Bytes moved within the throughput window, kept as a running total so reading it is O(1)
+interface ThroughputWindow {
+  samples: { timestamp: number; bytes: number }[];
+  start: number; // oldest sample still in the window
+  bytes: number;
+}
+
 export class PeerConnection extends EventEmitter {
   private static readonly PROTOCOL_STRING = 'BitTorrent protocol';
   private static readonly HANDSHAKE_LENGTH = 68;
   private static readonly KEEPALIVE_INTERVAL = 120000; // 2 minutes
   private static readonly MESSAGE_TIMEOUT = 30000; // 30 seconds
+  private static readonly HANDSHAKE_TIMEOUT = 10000; // 10 seconds
+  private static readonly THROUGHPUT_WINDOW = 20000; // 20 seconds
+  private static readonly EXTENSION_PROTOCOL_BIT = 0x10; // reserved[5], BEP 10
+  private static readonly DHT_BIT = 0x01; // reserved[7], BEP 5
+  private static readonly CLIENT_VERSION = 'torrent-poc 1.0.0';
 
   private socket: net.Socket;
+  private readonly inbound: boolean;
   private state: PeerState;
   private infoHash: Buffer;
   private peerId: Buffer;
@@ -145,6 +173,14 @@ export class PeerConnection extends EventEmitter {
   private messageBuffer = Buffer.alloc(0);
   private keepAliveTimer?: NodeJS.Timeout;
   private lastMessageTime = Date.now();
+  private readonly downloadWindow: ThroughputWindow = { samples: [], start: 0, bytes: 0 };
+  private readonly uploadWindow: ThroughputWindow = { samples: [], start: 0, bytes: 0 };
+  private peerReserved = Buffer.alloc(8);
+  private readonly localExtensions: { [name: string]: number } = {};
+  private localMetadataSize?: number;
+  private peerExtensions?: ExtendedHandshake;
+  private dhtPort?: number;
+  private localBitfield?: BitSet;
 
   constructor(
     private readonly peerInfo: PeerInfo,
@@ -166,6 +202,7 @@ export class PeerConnection extends EventEmitter {
     this.infoHash = infoHash;
     this.peerId = peerId;
     this.socket = socket || new net.Socket();
+    this.inbound = socket !== undefined;
     
     this.state = {
       choked: true,
@@ -210,6 +247,51 @@ export class PeerConnection extends EventEmitter {
     });
   }
 
+  async accept(): Promise<void> {
+    if (!this.inbound) {
+      throw new PeerError('Only inbound connections can be accepted');
+    }
+
+    if (this.handshakeComplete) {
+      return;
+    }
+
+    return new Promise((resolve, reject) => {
+      const cleanup = () => {
+        clearTimeout(timeout);
+        this.off('handshake', onHandshake);
+        this.off('error', onError);
+        this.off('close', onClose);
+      };
+
+      const onHandshake = () => {
+        cleanup();
+        resolve();
+      };
+
+      const onError = (error: Error) => {
+        cleanup();
+        this.socket.destroy();
+        reject(error);
+      };
+
+      const onClose = () => {
+        cleanup();
+        reject(new PeerError('Connection closed before handshake'));
+      };
+
+      const timeout = setTimeout(() => {
+        cleanup();
+        this.socket.destroy();
+        reject(new PeerError('Handshake timeout'));
+      }, PeerConnection.HANDSHAKE_TIMEOUT);
+
+      this.on('handshake', onHandshake);
+      this.on('error', onError);
+      this.on('close', onClose);
+    });
+  }
+
   private async sendHandshake(): Promise<void> {
     const handshake = this.buildHandshake();
     
@@ -228,7 +310,11 @@ export class PeerConnection extends EventEmitter {
   private buildHandshake(): Buffer {
     const protocolLength = Buffer.from([PeerConnection.PROTOCOL_STRING.length]);
     const protocol = Buffer.from(PeerConnection.PROTOCOL_STRING);
-    const reserved = Buffer.alloc(8, 0); // All zeros for now
+    const reserved = Buffer.alloc(8, 0);
+    reserved[5] |= PeerConnection.EXTENSION_PROTOCOL_BIT;
+    if (this.dhtPort !== undefined) {
+      reserved[7] |= PeerConnection.DHT_BIT;
+    }
     
     return Buffer.concat([
       protocolLength,
@@ -260,6 +346,32 @@ export class PeerConnection extends EventEmitter {
       this.parseHandshake(this.messageBuffer.subarray(0, PeerConnection.HANDSHAKE_LENGTH));
       this.messageBuffer = this.messageBuffer.subarray(PeerConnection.HANDSHAKE_LENGTH);
       this.handshakeComplete = true;
+
+      // Inbound peers speak first; answer only once their info hash checks out
+      if (this.inbound) {
+        this.sendHandshake().catch((error) => {
+          this.emit('error', error);
+        });
+      }
+
+      // The bitfield may only be sent as the first message
+      if (this.localBitfield && this.localBitfield.countSet() > 0) {
+        this.sendBitfield(this.localBitfield).catch((error) => {
+          this.emit('error', error);
+        });
+      }
+
+      if (this.supportsExtensions()) {
+        this.sendExtendedHandshake().catch((error) => {
+          this.emit('error', error);
+        });
+      }
+
+      if (this.dhtPort !== undefined && this.supportsDht()) {
+        this.sendPort(this.dhtPort).catch((error) => {
+          this.emit('error', error);
+        });
+      }
       
       this.emit('handshake', this.state.id);
       
@@ -287,8 +399,8 @@ export class PeerConnection extends EventEmitter {
       throw new PeerError(`Invalid protocol: ${protocol}`);
     }
 
-    // Reserved bytes (skip)
-    const reserved = handshake.subarray(offset, offset + 8);
+    // Reserved bytes, advertising protocol extensions
+    this.peerReserved = Buffer.from(handshake.subarray(offset, offset + 8));
     offset += 8;
 
     // Info hash
@@ -372,7 +484,10 @@ export class PeerConnection extends EventEmitter {
           throw new PeerError('Invalid HAVE message');
         }
         const pieceIndex = message.payload.readUInt32BE(0);
-        this.state.bitfield.set(pieceIndex);
+        // The piece count is unknown while fetching metadata for a magnet link
+        if (this.state.bitfield.getSize() > 0) {
+          this.state.bitfield.set(pieceIndex);
+        }
         this.emit('have', { index: pieceIndex });
         break;
 
@@ -405,6 +520,7 @@ export class PeerConnection extends EventEmitter {
           begin: message.payload.readUInt32BE(4),
           block: message.payload.subarray(8),
         };
+        this.recordSample(this.downloadWindow, piece.block.length);
         this.emit('piece', piece);
         break;
 
@@ -430,6 +546,13 @@ export class PeerConnection extends EventEmitter {
         this.emit('port', port);
         break;
 
+      case MessageType.EXTENDED:
+        if (!message.payload || message.payload.length < 1) {
+          throw new PeerError('Invalid EXTENDED message');
+        }
+        this.handleExtendedMessage(message.payload[0], message.payload.subarray(1));
+        break;
+
       default:
         // Unknown message type - ignore for forward compatibility
         this.emit('unknown_message', { type: message.type, payload: message.payload });
@@ -437,6 +560,135 @@ export class PeerConnection extends EventEmitter {
     }
   }
 
+  private recordSample(window: ThroughputWindow, bytes: number): void {
+    window.samples.push({ timestamp: Date.now(), bytes });
+    window.bytes += bytes;
+    this.updateThroughput();
+  }
+
+  // Drops samples that left the window from the front, compacting the array now and then
+  private pruneSamples(window: ThroughputWindow, now: number): void {
+    const cutoff = now - PeerConnection.THROUGHPUT_WINDOW;
+    while (window.start < window.samples.length && window.samples[window.start].timestamp <= cutoff) {
+      window.bytes -= window.samples[window.start].bytes;
+      window.start++;
+    }
+
+    if (window.start > 1024 && window.start * 2 > window.samples.length) {
+      window.samples = window.samples.slice(window.start);
+      window.start = 0;
+    }
+  }
+
+  // Runs whenever a block moves; owners call it periodically too so the rates of idle peers decay
+  updateThroughput(): void {
+    const now = Date.now();
+    this.pruneSamples(this.downloadWindow, now);
+    this.pruneSamples(this.uploadWindow, now);
+
+    // Average over the whole window so idle peers decay towards zero
+    const windowSeconds = PeerConnection.THROUGHPUT_WINDOW / 1000;
+    this.state.throughput = {
+      downBps: this.downloadWindow.bytes / windowSeconds,
+      upBps: this.uploadWindow.bytes / windowSeconds,
+    };
+  }
+
+  private handleExtendedMessage(id: number, payload: Buffer): void {
+    if (id !== 0) {
+      this.emit('extended', { id, payload } as ExtendedMessage);
+      return;
+    }
+
+    let decoded: BencodeValue;
+    try {
+      decoded = decode(payload);
+    } catch (error) {
+      throw new PeerError(`Invalid extended handshake: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    if (typeof decoded !== 'object' || decoded === null || Array.isArray(decoded) || Buffer.isBuffer(decoded)) {
+      throw new PeerError('Extended handshake must be a dictionary');
+    }
+
+    const extensions: { [name: string]: number } = {};
+    const m = decoded.m;
+    if (typeof m === 'object' && m !== null && !Array.isArray(m) && !Buffer.isBuffer(m)) {
+      for (const [name, value] of Object.entries(m)) {
+        // An id of 0 means the extension was disabled
+        if (typeof value === 'number' && value > 0) {
+          extensions[name] = value;
+        }
+      }
+    }
+
+    this.peerExtensions = {
+      extensions,
+      metadataSize: typeof decoded.metadata_size === 'number' ? decoded.metadata_size : undefined,
+      reqq: typeof decoded.reqq === 'number' && decoded.reqq > 0 ? decoded.reqq : undefined,
+      client: Buffer.isBuffer(decoded.v) ? decoded.v.toString('utf8') : undefined,
+      raw: decoded,
+    };
+
+    this.emit('extended_handshake', this.peerExtensions);
+  }
+
+  // Extensions must be registered before the handshake to be advertised
+  registerExtension(name: string, id: number): void {
+    if (id < 1 || id > 255) {
+      throw new PeerError(`Invalid extension id: ${id}`);
+    }
+    this.localExtensions[name] = id;
+  }
+
+  setMetadataSize(size: number): void {
+    this.localMetadataSize = size;
+  }
+
+  // Pieces we have, sent right after the handshake
+  setLocalBitfield(bitfield: BitSet): void {
+    this.localBitfield = bitfield;
+  }
+
+  // Advertises DHT support and sends our DHT port once the handshake completes
+  enableDht(port: number): void {
+    this.dhtPort = port;
+  }
+
+  supportsDht(): boolean {
+    return (this.peerReserved[7] & PeerConnection.DHT_BIT) !== 0;
+  }
+
+  supportsExtensions(): boolean {
+    return (this.peerReserved[5] & PeerConnection.EXTENSION_PROTOCOL_BIT) !== 0;
+  }
+
+  getExtendedHandshake(): ExtendedHandshake | undefined {
+    return this.peerExtensions;
+  }
+
+  private async sendExtendedHandshake(): Promise<void> {
+    const handshake: { [key: string]: BencodeValue } = {
+      m: { ...this.localExtensions },
+      v: Buffer.from(PeerConnection.CLIENT_VERSION),
+    };
+
+    if (this.localMetadataSize !== undefined) {
+      handshake.metadata_size = this.localMetadataSize;
+    }
+
+    return this.sendMessage(MessageType.EXTENDED, Buffer.concat([Buffer.from([0]), encode(handshake)]));
+  }
+
+  async sendExtended(name: string, payload: Buffer): Promise<void> {
+    const id = this.peerExtensions?.extensions[name];
+    if (id === undefined) {
+      throw new PeerError(`Peer does not support extension: ${name}`);
+    }
+
+    return this.sendMessage(MessageType.EXTENDED, Buffer.concat([Buffer.from([id]), payload]));
+  }
+
   // Public API for sending messages
   async sendChoke(): Promise<void> {
     this.state.peerChoked = true;
@@ -482,7 +734,8 @@ export class PeerConnection extends EventEmitter {
     payload.writeUInt32BE(piece.index, 0);
     payload.writeUInt32BE(piece.begin, 4);
     piece.block.copy(payload, 8);
-    return this.sendMessage(MessageType.PIECE, payload);
+    await this.sendMessage(MessageType.PIECE, payload);
+    this.recordSample(this.uploadWindow, piece.block.length);
   }
 
   async sendCancel(cancel: CancelMessage): Promise<void> {
@@ -584,6 +837,10 @@ export class PeerConnection extends EventEmitter {
     return { ...this.peerInfo };
   }
 
+  isInbound(): boolean {
+    return this.inbound;
+  }
+
   isConnected(): boolean {
     return this.socket && !this.socket.destroyed && this.handshakeComplete;
   }
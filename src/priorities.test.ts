@@ -0,0 +1,84 @@
+import * as crypto from 'crypto';
+import { PiecePriorities, matchFiles } from './priorities';
+import { TorrentMeta } from './metainfo';
+
+describe('PiecePriorities', () => {
+  // 4 pieces of 100 bytes: a.bin covers pieces 0-1, b.bin pieces 1-2, c.bin piece 3
+  const meta: TorrentMeta = {
+    announce: '',
+    name: 'album',
+    length: 350,
+    pieceLength: 100,
+    pieces: Buffer.alloc(80),
+    infoHashV1: crypto.randomBytes(20),
+    files: [
+      { path: ['a.bin'], length: 150, offset: 0 },
+      { path: ['b.bin'], length: 120, offset: 150 },
+      { path: ['empty.txt'], length: 0, offset: 270 },
+      { path: ['c.bin'], length: 80, offset: 270 },
+    ],
+  };
+
+  const levels = (priorities: PiecePriorities) => [0, 1, 2, 3].map(i => priorities.getLevel(i));
+
+  test('wants every piece by default', () => {
+    const priorities = new PiecePriorities(meta);
+
+    expect(levels(priorities)).toEqual([2, 2, 2, 2]);
+    expect(priorities.getWantedPieces()).toBe(4);
+    expect(priorities.getWantedBytes()).toBe(350);
+    expect(priorities.getLevels()).toEqual([2]);
+  });
+
+  test('gives shared pieces the highest priority of their files', () => {
+    const priorities = new PiecePriorities(meta);
+    priorities.setFilePriority(0, 'skip');
+    priorities.setFilePriority(1, 'high');
+    priorities.setFilePriority(3, 'low');
+
+    expect(levels(priorities)).toEqual([0, 3, 3, 1]);
+    expect(priorities.getLevels()).toEqual([3, 1]);
+    expect(priorities.getWantedBytes()).toBe(250);
+
+    // a.bin is skipped but still shares piece 1 with b.bin
+    expect(priorities.isFileWanted(0)).toBe(true);
+  });
+
+  test('lets piece ranges override their files', () => {
+    const priorities = new PiecePriorities(meta);
+    priorities.setFilePriority(0, 'skip');
+    priorities.setPiecePriority(1, 3, 'skip');
+
+    expect(levels(priorities)).toEqual([0, 0, 0, 2]);
+    expect(priorities.isFileWanted(0)).toBe(false);
+    expect(priorities.isFileWanted(1)).toBe(false);
+    expect(priorities.isFileWanted(2)).toBe(true);
+    expect(priorities.getWantedBytes()).toBe(50);
+
+    // Overrides survive later file changes
+    priorities.setFilePriority(1, 'high');
+    expect(levels(priorities)).toEqual([0, 0, 0, 2]);
+  });
+});
+
+describe('matchFiles', () => {
+  const paths = ['disc1/track1.flac', 'disc1/track2.flac', 'disc2/track1.flac', 'cover.jpg', 'notes.txt'];
+
+  test('matches file indices', () => {
+    expect(matchFiles(paths, '3')).toEqual([3]);
+    expect(matchFiles(paths, '9')).toEqual([]);
+  });
+
+  test('matches names when the glob has no slash', () => {
+    expect(matchFiles(paths, '*.flac')).toEqual([0, 1, 2]);
+    expect(matchFiles(paths, 'track?.flac')).toEqual([0, 1, 2]);
+    expect(matchFiles(paths, 'cover.jpg')).toEqual([3]);
+  });
+
+  test('matches whole paths when the glob has one', () => {
+    expect(matchFiles(paths, 'disc1/*')).toEqual([0, 1]);
+    expect(matchFiles(paths, '*/track1.flac')).toEqual([0, 2]);
+    expect(matchFiles(paths, '**.flac')).toEqual([0, 1, 2]);
+    expect(matchFiles(paths, 'disc*/track1.flac')).toEqual([0, 2]);
+  });
+});
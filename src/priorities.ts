@@ -0,0 +1,173 @@
+import { TorrentMeta, TorrentFile, getFiles } from './metainfo';
+
+export type Priority = 'skip' | 'low' | 'normal' | 'high';
+
+// Pieces with higher levels are picked first; level 0 isn't downloaded at all
+export const PRIORITY_LEVELS: Readonly<Record<Priority, number>> = { skip: 0, low: 1, normal: 2, high: 3 };
+
+// Per-piece download priority. A piece takes the highest priority of the files it
+// overlaps, so a wanted file never loses its edge pieces, unless a piece range was set directly.
+export class PiecePriorities {
+  private readonly files: TorrentFile[];
+  private readonly pieceLength: number;
+  private readonly totalLength: number;
+  private readonly filePriorities: Priority[];
+  private readonly overrides: Int8Array; // piece -> level set for the piece itself, -1 if none
+  private readonly levels: Uint8Array;   // piece -> resolved level
+  private levelsInUse: number[] = [];
+  private wantedPieces = 0;
+  private wantedBytes = 0;
+
+  constructor(meta: TorrentMeta) {
+    const pieceCount = meta.pieces.length / 20;
+
+    this.files = getFiles(meta);
+    this.pieceLength = meta.pieceLength;
+    this.totalLength = meta.length;
+    this.filePriorities = this.files.map(() => 'normal' as Priority);
+    this.overrides = new Int8Array(pieceCount).fill(-1);
+    this.levels = new Uint8Array(pieceCount);
+    this.resolve();
+  }
+
+  get pieceCount(): number {
+    return this.levels.length;
+  }
+
+  setFilePriority(fileIndex: number, priority: Priority): void {
+    this.filePriorities[fileIndex] = priority;
+    this.resolve();
+  }
+
+  // Pieces from start up to, but not including, end
+  setPiecePriority(start: number, end: number, priority: Priority): void {
+    this.overrides.fill(PRIORITY_LEVELS[priority], Math.max(0, start), Math.min(this.pieceCount, end));
+    this.resolve();
+  }
+
+  getFilePriorities(): Priority[] {
+    return [...this.filePriorities];
+  }
+
+  getLevel(pieceIndex: number): number {
+    return this.levels[pieceIndex];
+  }
+
+  isWanted(pieceIndex: number): boolean {
+    return this.levels[pieceIndex] > 0;
+  }
+
+  // Wanted levels in use, highest first
+  getLevels(): number[] {
+    return this.levelsInUse;
+  }
+
+  getWantedPieces(): number {
+    return this.wantedPieces;
+  }
+
+  getWantedBytes(): number {
+    return this.wantedBytes;
+  }
+
+  getPieceLength(pieceIndex: number): number {
+    return Math.min(this.pieceLength, this.totalLength - pieceIndex * this.pieceLength);
+  }
+
+  // Whether any wanted piece touches the file, i.e. whether it needs to exist on disk
+  isFileWanted(fileIndex: number): boolean {
+    const file = this.files[fileIndex];
+    if (file.length === 0) {
+      return this.filePriorities[fileIndex] !== 'skip';
+    }
+
+    const [first, last] = this.getFilePieces(file);
+    for (let i = first; i <= last; i++) {
+      if (this.levels[i] > 0) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private getFilePieces(file: TorrentFile): [number, number] {
+    return [
+      Math.floor(file.offset / this.pieceLength),
+      Math.floor((file.offset + file.length - 1) / this.pieceLength),
+    ];
+  }
+
+  private resolve(): void {
+    this.levels.fill(0);
+
+    this.files.forEach((file, fileIndex) => {
+      if (file.length === 0) {
+        return;
+      }
+
+      const level = PRIORITY_LEVELS[this.filePriorities[fileIndex]];
+      const [first, last] = this.getFilePieces(file);
+      for (let i = first; i <= last; i++) {
+        this.levels[i] = Math.max(this.levels[i], level);
+      }
+    });
+
+    const inUse = new Set<number>();
+    this.wantedPieces = 0;
+    this.wantedBytes = 0;
+
+    for (let i = 0; i < this.levels.length; i++) {
+      if (this.overrides[i] >= 0) {
+        this.levels[i] = this.overrides[i];
+      }
+      if (this.levels[i] > 0) {
+        inUse.add(this.levels[i]);
+        this.wantedPieces++;
+        this.wantedBytes += this.getPieceLength(i);
+      }
+    }
+
+    this.levelsInUse = Array.from(inUse).sort((a, b) => b - a);
+  }
+}
+
+// Resolves a file index or glob against '/'-separated file paths. Patterns without a '/'
+// match the file name only; '*' and '?' stay within a path segment and '**' crosses them.
+export function matchFiles(paths: ReadonlyArray<string>, selector: string): number[] {
+  if (/^\d+$/.test(selector)) {
+    const index = parseInt(selector, 10);
+    return index < paths.length ? [index] : [];
+  }
+
+  const pattern = globToRegExp(selector);
+  const matchPath = selector.includes('/');
+
+  const matches: number[] = [];
+  paths.forEach((filePath, index) => {
+    const name = matchPath ? filePath : filePath.slice(filePath.lastIndexOf('/') + 1);
+    if (pattern.test(name)) {
+      matches.push(index);
+    }
+  });
+  return matches;
+}
+
+function globToRegExp(glob: string): RegExp {
+  let source = '';
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      source += '.*';
+      i++;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
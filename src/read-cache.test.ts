@@ -0,0 +1,39 @@
+import { ReadCache } from './read-cache';
+
+describe('ReadCache', () => {
+  test('evicts the least recently used pieces first', () => {
+    const cache = new ReadCache(300);
+    cache.set(0, Buffer.alloc(100));
+    cache.set(1, Buffer.alloc(100));
+    cache.set(2, Buffer.alloc(100));
+
+    // Touching piece 0 leaves piece 1 as the oldest
+    expect(cache.get(0)).toBeDefined();
+    cache.set(3, Buffer.alloc(150));
+
+    expect(cache.get(1)).toBeUndefined();
+    expect(cache.get(2)).toBeUndefined();
+    expect(cache.get(0)).toBeDefined();
+    expect(cache.getStats()).toEqual({
+      size: 300,
+      cachedBytes: 250,
+      cachedPieces: 2,
+      hits: 2,
+      misses: 2,
+      evictions: 2,
+      evictedBytes: 200,
+    });
+  });
+
+  test('skips pieces larger than the cap', () => {
+    const cache = new ReadCache(100);
+    cache.set(0, Buffer.alloc(50));
+    cache.set(1, Buffer.alloc(200));
+
+    expect(cache.get(1)).toBeUndefined();
+    expect(cache.getStats()).toMatchObject({ cachedBytes: 50, evictions: 0 });
+
+    cache.delete(0);
+    expect(cache.getStats().cachedBytes).toBe(0);
+  });
+});
@@ -0,0 +1,86 @@
+export interface ReadCacheStats {
+  size: number;        // memory cap in bytes
+  cachedBytes: number;
+  cachedPieces: number;
+  hits: number;
+  misses: number;
+  evictions: number;   // pieces dropped to make room
+  evictedBytes: number;
+}
+
+// Verified pieces read from disk, least recently used evicted first. Map keeps insertion
+// order, so re-inserting a piece on every hit keeps the oldest one at the front.
+export class ReadCache {
+  static readonly DEFAULT_SIZE = 32 * 1024 * 1024;
+
+  private readonly size: number;
+  private readonly pieces: Map<number, Buffer> = new Map();
+  private cachedBytes = 0;
+
+  // Statistics
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+  private evictedBytes = 0;
+
+  constructor(size: number = ReadCache.DEFAULT_SIZE) {
+    this.size = Math.max(0, size);
+  }
+
+  get(pieceIndex: number): Buffer | undefined {
+    const data = this.pieces.get(pieceIndex);
+    if (!data) {
+      this.misses++;
+      return undefined;
+    }
+
+    this.hits++;
+    this.pieces.delete(pieceIndex);
+    this.pieces.set(pieceIndex, data);
+    return data;
+  }
+
+  // Pieces larger than the whole cache aren't kept
+  set(pieceIndex: number, data: Buffer): void {
+    this.delete(pieceIndex);
+    if (data.length > this.size) {
+      return;
+    }
+
+    while (this.cachedBytes + data.length > this.size) {
+      const [oldest, oldestData] = this.pieces.entries().next().value as [number, Buffer];
+      this.pieces.delete(oldest);
+      this.cachedBytes -= oldestData.length;
+      this.evictions++;
+      this.evictedBytes += oldestData.length;
+    }
+
+    this.pieces.set(pieceIndex, data);
+    this.cachedBytes += data.length;
+  }
+
+  delete(pieceIndex: number): void {
+    const data = this.pieces.get(pieceIndex);
+    if (data) {
+      this.pieces.delete(pieceIndex);
+      this.cachedBytes -= data.length;
+    }
+  }
+
+  clear(): void {
+    this.pieces.clear();
+    this.cachedBytes = 0;
+  }
+
+  getStats(): ReadCacheStats {
+    return {
+      size: this.size,
+      cachedBytes: this.cachedBytes,
+      cachedPieces: this.pieces.size,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      evictedBytes: this.evictedBytes,
+    };
+  }
+}
@@ -0,0 +1,29 @@
+import * as crypto from 'crypto';
+import { encodeResumeData, decodeResumeData, ResumeData, RESUME_VERSION } from './resume';
+import { encode, decode } from './bencode';
+
+describe('Resume Data', () => {
+  const data: ResumeData = {
+    infoHash: crypto.randomBytes(20),
+    blockSize: 16384,
+    pieces: Buffer.from([0xA0]),
+    files: [{ size: 24384, mtime: 1700000000123 }, null],
+    partial: new Map([[1, [0, 32768]]]),
+  };
+
+  test('round-trips through bencode', () => {
+    const encoded = encodeResumeData(data);
+
+    expect((decode(encoded) as any).version).toBe(RESUME_VERSION);
+    expect(decodeResumeData(encoded)).toEqual(data);
+  });
+
+  test('ignores other versions and malformed records', () => {
+    const record = decode(encodeResumeData(data)) as any;
+
+    expect(decodeResumeData(encode({ ...record, version: RESUME_VERSION + 1 }))).toBeUndefined();
+    expect(decodeResumeData(encode({ ...record, pieces: 7 }))).toBeUndefined();
+    expect(decodeResumeData(encode({ ...record, partial: [{ piece: 1, blocks: [Buffer.from('x')] }] }))).toBeUndefined();
+    expect(decodeResumeData(Buffer.from('not bencode'))).toBeUndefined();
+  });
+});
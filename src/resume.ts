@@ -0,0 +1,78 @@
+import { encode, decode, BencodeValue } from './bencode';
+
+// Bumped whenever the layout changes; records of other versions are ignored
+export const RESUME_VERSION = 1;
+
+export interface ResumeFileState {
+  size: number;
+  mtime: number; // ms, truncated
+}
+
+export interface ResumeData {
+  infoHash: Buffer;
+  blockSize: number;
+  pieces: Buffer; // bitfield of verified pieces
+  files: (ResumeFileState | null)[]; // null for files that weren't on disk
+  partial: Map<number, number[]>; // piece -> offsets of blocks written to disk but not verified yet
+}
+
+export function encodeResumeData(data: ResumeData): Buffer {
+  return encode({
+    version: RESUME_VERSION,
+    'info-hash': data.infoHash,
+    'block-size': data.blockSize,
+    pieces: data.pieces,
+    files: data.files.map((file): BencodeValue => file ? { size: file.size, mtime: file.mtime } : {}),
+    partial: Array.from(data.partial, ([piece, blocks]) => ({ piece, blocks })),
+  });
+}
+
+// Undefined for records that are unreadable or of another version
+export function decodeResumeData(buffer: Buffer): ResumeData | undefined {
+  let decoded: BencodeValue;
+  try {
+    decoded = decode(buffer);
+  } catch {
+    return undefined;
+  }
+
+  if (!isDict(decoded) || decoded.version !== RESUME_VERSION) {
+    return undefined;
+  }
+
+  const infoHash = decoded['info-hash'];
+  const blockSize = decoded['block-size'];
+  const pieces = decoded.pieces;
+  const files = decoded.files;
+  const partial = decoded.partial;
+
+  if (!Buffer.isBuffer(infoHash) || typeof blockSize !== 'number' || !Buffer.isBuffer(pieces) ||
+    !Array.isArray(files) || !Array.isArray(partial)) {
+    return undefined;
+  }
+
+  const fileStates: (ResumeFileState | null)[] = [];
+  for (const file of files) {
+    if (!isDict(file)) {
+      return undefined;
+    }
+    fileStates.push(typeof file.size === 'number' && typeof file.mtime === 'number'
+      ? { size: file.size, mtime: file.mtime }
+      : null);
+  }
+
+  const partialBlocks = new Map<number, number[]>();
+  for (const entry of partial) {
+    if (!isDict(entry) || typeof entry.piece !== 'number' || !Array.isArray(entry.blocks) ||
+      !entry.blocks.every(block => typeof block === 'number')) {
+      return undefined;
+    }
+    partialBlocks.set(entry.piece, entry.blocks as number[]);
+  }
+
+  return { infoHash, blockSize, pieces, files: fileStates, partial: partialBlocks };
+}
+
+function isDict(value: BencodeValue): value is { [key: string]: BencodeValue } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !Buffer.isBuffer(value);
+}
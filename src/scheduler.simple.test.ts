@@ -24,6 +24,14 @@ class SimpleMockPeer extends EventEmitter {
     super();
   }
 
+  getPeerInfo() {
+    return { ip: '127.0.0.1', port: 6881 };
+  }
+
+  getExtendedHandshake() {
+    return undefined;
+  }
+
   getState() {
     return { ...this.mockState };
   }
@@ -56,6 +64,16 @@ class SimpleMockPeer extends EventEmitter {
     return Promise.resolve();
   }
 
+  async sendInterested() {
+    this.mockState.interested = true;
+    return Promise.resolve();
+  }
+
+  async sendNotInterested() {
+    this.mockState.interested = false;
+    return Promise.resolve();
+  }
+
   getSentRequests() {
     return [...this.sentRequests];
   }
@@ -82,7 +100,7 @@ describe('PieceScheduler - Core Logic', () => {
       infoHashV1: crypto.randomBytes(20),
     };
 
-    scheduler = new PieceScheduler(torrentMeta, 16384, 2); // Window size 2 for testing
+    scheduler = new PieceScheduler(torrentMeta, 16384, 2, { randomFirstPieces: 0 }); // Window size 2 for testing
   });
 
   afterEach(() => {
@@ -266,7 +284,7 @@ describe('PieceScheduler - Core Logic', () => {
     test('implements rarest-first piece selection', () => {
       // Create scheduler with smaller blocks for easier testing
       scheduler.destroy();
-      scheduler = new PieceScheduler(torrentMeta, 4096, 4); // 4KB blocks, window 4
+      scheduler = new PieceScheduler(torrentMeta, 4096, 4, { randomFirstPieces: 0 }); // 4KB blocks, window 4
 
       const peer1 = new SimpleMockPeer('peer1') as any;
       
@@ -279,8 +297,8 @@ describe('PieceScheduler - Core Logic', () => {
       peer1.setChoked(false);
 
       // Also add availability for other pieces through different method
-      scheduler['availabilityMap'].set(1, 5); // Piece 1 very common
-      scheduler['availabilityMap'].set(2, 3); // Piece 2 less common
+      for (let i = 0; i < 5; i++) scheduler['availability'].increment(1); // Piece 1 very common
+      for (let i = 0; i < 3; i++) scheduler['availability'].increment(2); // Piece 2 less common
 
       scheduler['scheduleRequests']();
 
@@ -2,6 +2,7 @@ import * as crypto from 'crypto';
 import { PieceScheduler, SchedulerError } from './scheduler';
 import { PeerConnection, BitSet, MessageType } from './peer';
 import { TorrentMeta } from './metainfo';
+import { PiecePriorities } from './priorities';
 import { EventEmitter } from 'events';
 
 // Mock PeerConnection for testing
@@ -19,11 +20,24 @@ class MockPeerConnection extends EventEmitter {
 
   private connected = false;
   private requests: any[] = [];
+  private extendedHandshake?: any;
 
-  constructor(private peerId: string) {
+  constructor(private peerId: string, private ip = '127.0.0.1') {
     super();
   }
 
+  getPeerInfo() {
+    return { ip: this.ip, port: 6881 };
+  }
+
+  getExtendedHandshake() {
+    return this.extendedHandshake;
+  }
+
+  setExtendedHandshake(handshake: any) {
+    this.extendedHandshake = handshake;
+  }
+
   getState() {
     return { ...this.mockState };
   }
@@ -56,6 +70,16 @@ class MockPeerConnection extends EventEmitter {
     return Promise.resolve();
   }
 
+  async sendInterested() {
+    this.mockState.interested = true;
+    return Promise.resolve();
+  }
+
+  async sendNotInterested() {
+    this.mockState.interested = false;
+    return Promise.resolve();
+  }
+
   getRequests() {
     return [...this.requests];
   }
@@ -84,6 +108,17 @@ class MockPeerConnection extends EventEmitter {
   }
 }
 
+// Adds a connected mock peer that has the given pieces, unchoked unless asked otherwise
+function addPeer(target: PieceScheduler, id: string, ip: string, pieces: number[], unchoked = true): any {
+  const bitfield = new BitSet(Math.max(0, ...pieces) + 1);
+  pieces.forEach(piece => bitfield.set(piece));
+  const peer = new MockPeerConnection(id, ip);
+  peer.setChoked(!unchoked);
+  peer.setConnected(true);
+  target.addPeer(peer as any, bitfield);
+  return peer;
+}
+
 describe('PieceScheduler', () => {
   let torrentMeta: TorrentMeta;
   let scheduler: PieceScheduler;
@@ -104,7 +139,8 @@ describe('PieceScheduler', () => {
       infoHashV1: crypto.randomBytes(20),
     };
 
-    scheduler = new PieceScheduler(torrentMeta, 16384, 2); // 2 request window for testing
+    // 2 request window and no random first pieces, so picks are predictable
+    scheduler = new PieceScheduler(torrentMeta, 16384, 2, { randomFirstPieces: 0 });
   });
 
   afterEach(() => {
@@ -134,6 +170,53 @@ describe('PieceScheduler', () => {
       expect(emptyScheduler.isComplete()).toBe(true);
       emptyScheduler.destroy();
     });
+
+    test('resumes from pieces already on disk', () => {
+      scheduler.destroy();
+      scheduler = new PieceScheduler(torrentMeta, 16384, 4, { randomFirstPieces: 0, completedPieces: [0, 2] });
+
+      const peer = new MockPeerConnection('peer1') as any;
+      const bitfield = new BitSet(3);
+      [0, 1, 2].forEach(i => bitfield.set(i));
+      peer.setChoked(false);
+      peer.setConnected(true);
+      scheduler.addPeer(peer, bitfield);
+
+      expect(scheduler.getStats().piecesCompleted).toBe(2);
+      expect(peer.getRequests().map((r: any) => r.index)).toEqual([1]);
+
+      const completed = jest.fn();
+      scheduler.on('download_completed', completed);
+      scheduler.on('piece_assembled', (event) => scheduler.pieceVerified(event.pieceIndex));
+      peer.simulatePiece(1, 0, Buffer.alloc(16384));
+
+      expect(completed).toHaveBeenCalledTimes(1);
+      expect(scheduler.isComplete()).toBe(true);
+    });
+
+    test('requests only the blocks missing from restored partial pieces', () => {
+      const data = Buffer.alloc(16384, 0x11);
+      scheduler.destroy();
+      scheduler = new PieceScheduler(torrentMeta, 4096, 8, {
+        randomFirstPieces: 0,
+        partialPieces: [{ pieceIndex: 1, data, receivedBlocks: new Set([0, 8192]) }],
+      });
+
+      expect(scheduler.getPartialPieces()).toEqual([{ pieceIndex: 1, data, receivedBlocks: new Set([0, 8192]) }]);
+      expect(scheduler['pieceProgress'].get(1)!.buffer!.buffer).toBeInstanceOf(SharedArrayBuffer);
+
+      const peer = new MockPeerConnection('peer1') as any;
+      const bitfield = new BitSet(3);
+      bitfield.set(1);
+      peer.setChoked(false);
+      peer.setConnected(true);
+      scheduler.addPeer(peer, bitfield);
+
+      expect(peer.getRequests()).toEqual([
+        { index: 1, begin: 4096, length: 4096 },
+        { index: 1, begin: 12288, length: 4096 },
+      ]);
+    });
   });
 
   describe('Peer Management', () => {
@@ -203,6 +286,263 @@ describe('PieceScheduler', () => {
     });
   });
 
+  describe('Interest', () => {
+    test('becomes interested in peers with pieces we need', () => {
+      const peer = new MockPeerConnection('peer1') as any;
+      const bitfield = new BitSet(3);
+      bitfield.set(1);
+
+      scheduler.addPeer(peer, bitfield);
+
+      expect(peer.getState().interested).toBe(true);
+    });
+
+    test('stays uninterested in peers without pieces', () => {
+      const peer = new MockPeerConnection('peer1') as any;
+      const notInterested = jest.spyOn(peer, 'sendNotInterested');
+
+      scheduler.addPeer(peer);
+      peer.emit('bitfield', new BitSet(3));
+
+      expect(peer.getState().interested).toBe(false);
+      expect(notInterested).not.toHaveBeenCalled(); // Nothing changed
+    });
+
+    test('becomes interested when the peer announces a needed piece', () => {
+      const peer = new MockPeerConnection('peer1') as any;
+      scheduler.addPeer(peer, new BitSet(3));
+      expect(peer.getState().interested).toBe(false);
+
+      peer.emit('have', { index: 2 });
+
+      expect(peer.getState().interested).toBe(true);
+    });
+
+    test('loses interest once we have everything the peer has', async () => {
+      const pieceData = Buffer.alloc(16384, 7);
+      crypto.createHash('sha1').update(pieceData).digest().copy(torrentMeta.pieces, 0);
+      const hashed = new PieceScheduler(torrentMeta, 16384, 2);
+
+      const peer = new MockPeerConnection('peer1') as any;
+      const bitfield = new BitSet(3);
+      bitfield.set(0);
+      peer.setChoked(false);
+      peer.setConnected(true);
+      hashed.addPeer(peer, bitfield);
+      expect(peer.getState().interested).toBe(true);
+
+      hashed.on('piece_assembled', (event) => hashed.pieceVerified(event.pieceIndex));
+
+      await new Promise(resolve => setImmediate(resolve)); // Requests are tracked once sent
+      peer.simulatePiece(0, 0, pieceData);
+
+      expect(hashed.getCompletedPieces().has(0)).toBe(true);
+      expect(peer.getState().interested).toBe(false);
+      hashed.destroy();
+    });
+  });
+
+  describe('Smart Ban', () => {
+    const tick = () => new Promise(resolve => setImmediate(resolve)); // Requests are tracked once sent
+
+    test('bans a peer that keeps sending bad pieces on its own', async () => {
+      const peer = addPeer(scheduler, 'peer1', '10.0.0.1', [0]);
+      const strikes: any[] = [];
+      const banned = jest.fn();
+      scheduler.on('peer_strike', (event) => strikes.push(event));
+      scheduler.on('peer_banned', banned);
+      scheduler.on('piece_assembled', (event) => {
+        scheduler.pieceFailed(event.pieceIndex, 'Hash verification failed');
+      });
+
+      for (let i = 0; i < 3; i++) {
+        await tick();
+        peer.simulatePiece(0, 0, Buffer.alloc(16384, 0xFF));
+      }
+
+      expect(strikes.map(s => s.strikes)).toEqual([1, 2, 3]);
+      expect(banned).toHaveBeenCalledWith({ ip: '10.0.0.1', strikes: 3 });
+      expect(scheduler.isBanned('10.0.0.1')).toBe(true);
+      expect(scheduler.getPeerCount()).toBe(0);
+
+      // Banned addresses are not taken back
+      addPeer(scheduler, 'peer1-again', '10.0.0.1', [0]);
+      expect(scheduler.getPeerCount()).toBe(0);
+    });
+
+    test('blames only the peer whose blocks differed once the piece verifies', () => {
+      scheduler.destroy();
+      scheduler = new PieceScheduler(torrentMeta, 8192, 1); // One block per peer
+
+      const good = Buffer.alloc(16384, 0xAA);
+      const honest = addPeer(scheduler, 'honest', '10.0.0.1', [0]);
+      const liar = addPeer(scheduler, 'liar', '10.0.0.2', [0]);
+
+      scheduler.on('piece_assembled', (event) => {
+        if (event.data.equals(good)) {
+          scheduler.pieceVerified(event.pieceIndex);
+        } else {
+          scheduler.pieceFailed(event.pieceIndex, 'Hash verification failed');
+        }
+      });
+
+      // Mixed copy: nobody can be blamed yet
+      honest.simulatePiece(0, 0, good.subarray(0, 8192));
+      liar.simulatePiece(0, 8192, Buffer.alloc(8192, 0xFF));
+      expect(scheduler.getStrikes('10.0.0.1')).toBe(0);
+      expect(scheduler.getStrikes('10.0.0.2')).toBe(0);
+
+      // A good copy singles out the liar's block
+      honest.simulatePiece(0, 0, good.subarray(0, 8192));
+      liar.simulatePiece(0, 8192, good.subarray(8192));
+
+      expect(scheduler.getCompletedPieces().has(0)).toBe(true);
+      expect(scheduler.getStrikes('10.0.0.1')).toBe(0);
+      expect(scheduler.getStrikes('10.0.0.2')).toBe(1);
+    });
+    test('keeps only the latest bad copies of a piece', () => {
+      scheduler.destroy();
+      scheduler = new PieceScheduler(torrentMeta, 8192, 1); // One block per peer
+
+      const first = addPeer(scheduler, 'first', '10.0.0.1', [0]);
+      const second = addPeer(scheduler, 'second', '10.0.0.2', [0]);
+      scheduler.on('piece_assembled', (event) => {
+        scheduler.pieceFailed(event.pieceIndex, 'Hash verification failed');
+      });
+
+      for (let i = 1; i <= 4; i++) {
+        first.simulatePiece(0, 0, Buffer.alloc(8192, i));
+        second.simulatePiece(0, 8192, Buffer.alloc(8192, i));
+      }
+
+      const copies = scheduler['failedPieces'].get(0)!;
+      expect(copies.map(copy => copy.data[0])).toEqual([3, 4]);
+    });
+
+    test('blames nobody for a piece that failed with blocks restored from disk', () => {
+      scheduler.destroy();
+      scheduler = new PieceScheduler(torrentMeta, 8192, 1, {
+        randomFirstPieces: 0,
+        partialPieces: [{ pieceIndex: 0, data: Buffer.alloc(16384, 0xFF), receivedBlocks: new Set([0]) }],
+      });
+      scheduler.on('piece_assembled', (event) => {
+        scheduler.pieceFailed(event.pieceIndex, 'Hash verification failed');
+      });
+
+      const peer = addPeer(scheduler, 'peer1', '10.0.0.1', [0]);
+      expect(peer.getRequests()).toEqual([{ index: 0, begin: 8192, length: 8192 }]);
+      peer.simulatePiece(0, 8192, Buffer.alloc(8192, 0xAA));
+
+      expect(scheduler.getStrikes('10.0.0.1')).toBe(0);
+      expect(scheduler['failedPieces'].has(0)).toBe(false);
+
+      // The restored block is requested from the network again
+      expect(peer.getRequests().map((r: any) => r.begin)).toContain(0);
+    });
+
+    test('blames nobody for a piece that could not be stored', async () => {
+      const peer = addPeer(scheduler, 'peer1', '10.0.0.1', [0]);
+      const errors: any[] = [];
+      scheduler.on('piece_error', (event) => errors.push(event));
+      scheduler.on('piece_assembled', (event) => {
+        scheduler.pieceStoreFailed(event.pieceIndex, 'disk full');
+      });
+
+      for (let i = 0; i < 3; i++) {
+        await tick();
+        peer.simulatePiece(0, 0, Buffer.alloc(16384, 0xFF));
+      }
+
+      expect(errors).toHaveLength(3);
+      expect(errors[0]).toEqual({ pieceIndex: 0, error: 'disk full' });
+      expect(scheduler.getStrikes('10.0.0.1')).toBe(0);
+      expect(scheduler.isBanned('10.0.0.1')).toBe(false);
+
+      // The piece is requested again
+      await tick();
+      expect(peer.getRequests().map((r: any) => r.index)).toContain(0);
+    });
+  });
+
+  describe('Availability', () => {
+    test('counts HAVEs even when the peer updates its bitfield first', () => {
+      const peer = new MockPeerConnection('peer1') as any;
+      const bitfield = new BitSet(3);
+      bitfield.set(0);
+      scheduler.addPeer(peer, bitfield);
+
+      // PeerConnection sets the bit on its own bitfield before emitting HAVE
+      bitfield.set(1);
+      peer.emit('have', { index: 1 });
+
+      expect(scheduler.getAvailability(0)).toBe(1);
+      expect(scheduler.getAvailability(1)).toBe(1);
+    });
+
+    test('counts seeds without walking their bitfield', () => {
+      const seed = new MockPeerConnection('seed', '10.0.0.1') as any;
+      const leecher = new MockPeerConnection('leecher', '10.0.0.2') as any;
+      const full = new BitSet(3);
+      [0, 1, 2].forEach(i => full.set(i));
+      const partial = new BitSet(3);
+      partial.set(2);
+
+      scheduler.addPeer(seed, full);
+      scheduler.addPeer(leecher, partial);
+      expect([0, 1, 2].map(i => scheduler.getAvailability(i))).toEqual([1, 1, 2]);
+
+      scheduler.removePeer(seed);
+      expect([0, 1, 2].map(i => scheduler.getAvailability(i))).toEqual([0, 0, 1]);
+    });
+
+    test('picks rarest pieces quickly on a large torrent', () => {
+      const pieceCount = 100000;
+      const large = new PieceScheduler({
+        ...torrentMeta,
+        length: pieceCount * 16384,
+        pieces: Buffer.alloc(pieceCount * 20),
+      }, 16384, 16);
+      large.on('piece_assembled', (event) => large.pieceVerified(event.pieceIndex));
+
+      // Mostly complete peers, one seed and one peer that just joined
+      const peers: any[] = [];
+      for (let p = 0; p < 20; p++) {
+        const peer = new MockPeerConnection(`peer${p}`, `10.0.${p}.1`) as any;
+        const bitfield = new BitSet(pieceCount);
+        for (let i = 0; i < pieceCount; i++) {
+          if (p === 0 || (p === 1 ? i % 100 === 0 : i % 20 !== p)) bitfield.set(i);
+        }
+        peer.setChoked(false);
+        peer.setConnected(true);
+        large.addPeer(peer, bitfield);
+        peers.push(peer);
+      }
+
+      const started = Date.now();
+
+      // Deliver a few thousand blocks, each followed by a HAVE from another peer
+      let delivered = 0;
+      for (let round = 0; round < 10; round++) {
+        for (const peer of peers) {
+          const requests = peer.getRequests();
+          peer.clearRequests();
+
+          for (const request of requests) {
+            peer.simulatePiece(request.index, request.begin, Buffer.alloc(request.length));
+            peers[(delivered + 1) % peers.length].emit('have', { index: (delivered * 7919) % pieceCount });
+            delivered++;
+          }
+        }
+      }
+
+      const elapsed = Date.now() - started;
+      expect(delivered).toBeGreaterThan(1000);
+      expect(large.getStats().piecesCompleted).toBe(delivered);
+      expect(elapsed).toBeLessThan(10000);
+      large.destroy();
+    });
+  });
+
   describe('Request Scheduling', () => {
     test('schedules requests when peer is available', (done) => {
       const peer = new MockPeerConnection('peer1') as any;
@@ -318,9 +658,14 @@ describe('PieceScheduler', () => {
       peer.setChoked(false);
       peer.setConnected(true);
 
+      scheduler.on('piece_assembled', (event) => {
+        expect(event.data.length).toBe(16384);
+        scheduler.pieceVerified(event.pieceIndex);
+      });
+
       scheduler.on('piece_completed', (event) => {
         expect(event.pieceIndex).toBe(0);
-        expect(event.data.length).toBe(16384);
+        expect(event.length).toBe(16384);
         expect(scheduler.getStats().piecesCompleted).toBe(1);
         done();
       });
@@ -343,30 +688,41 @@ describe('PieceScheduler', () => {
       }, 10);
     });
 
-    test('rejects piece with invalid hash', (done) => {
+    test('re-requests a piece that failed verification', async () => {
       const peer = new MockPeerConnection('peer1') as any;
       const bitfield = new BitSet(3);
       bitfield.set(0);
-      
-      scheduler.addPeer(peer, bitfield);
       peer.setChoked(false);
       peer.setConnected(true);
 
-      scheduler.on('piece_error', (event) => {
-        expect(event.pieceIndex).toBe(0);
-        expect(event.error).toContain('Hash verification failed');
-        done();
+      const errors: any[] = [];
+      scheduler.on('piece_error', (event) => errors.push(event));
+      scheduler.on('piece_assembled', (event) => {
+        scheduler.pieceFailed(event.pieceIndex, 'Hash verification failed');
       });
 
-      setTimeout(() => {
-        peer.simulateUnchoke();
-        
-        setTimeout(() => {
-          // Send piece with wrong data (will have wrong hash)
-          const wrongData = Buffer.alloc(16384, 0xFF);
-          peer.simulatePiece(0, 0, wrongData);
-        }, 10);
-      }, 10);
+      scheduler.addPeer(peer, bitfield);
+      await new Promise(resolve => setImmediate(resolve)); // Requests are tracked once sent
+      peer.clearRequests();
+      peer.simulatePiece(0, 0, Buffer.alloc(16384, 0xFF));
+
+      expect(errors).toEqual([{ pieceIndex: 0, error: 'Hash verification failed' }]);
+      expect(scheduler.getCompletedPieces().has(0)).toBe(false);
+      expect(peer.getRequests()).toContainEqual({ index: 0, begin: 0, length: 16384 });
+    });
+
+    test('ignores verification results for pieces it is not waiting on', () => {
+      const completed = jest.fn();
+      const failed = jest.fn();
+      scheduler.on('piece_completed', completed);
+      scheduler.on('piece_error', failed);
+
+      scheduler.pieceVerified(0);
+      scheduler.pieceFailed(1, 'Hash verification failed');
+
+      expect(completed).not.toHaveBeenCalled();
+      expect(failed).not.toHaveBeenCalled();
+      expect(scheduler.getCompletedPieces().size).toBe(0);
     });
 
     test('emits download completion', (done) => {
@@ -381,6 +737,7 @@ describe('PieceScheduler', () => {
       peer.setConnected(true);
 
       let piecesCompleted = 0;
+      scheduler.on('piece_assembled', (event) => scheduler.pieceVerified(event.pieceIndex));
       scheduler.on('piece_completed', () => {
         piecesCompleted++;
       });
@@ -461,6 +818,397 @@ describe('PieceScheduler', () => {
     }, 10000);
   });
 
+  describe('Piece Picking', () => {
+    test('finishes open pieces before starting rarer ones', () => {
+      scheduler.destroy();
+      scheduler = new PieceScheduler(torrentMeta, 4096, 2, { randomFirstPieces: 0 });
+
+      const first = addPeer(scheduler, 'first', '10.0.0.1', [0, 1, 2]);
+      expect(first.getRequests().map((r: any) => r.index)).toEqual([0, 0]);
+
+      addPeer(scheduler, 'other', '10.0.0.2', [0], false);
+      const second = addPeer(scheduler, 'second', '10.0.0.3', [0, 2]);
+
+      // Piece 2 is rarer, but piece 0 is already half requested
+      expect(second.getRequests()).toEqual([
+        { index: 0, begin: 8192, length: 4096 },
+        { index: 0, begin: 12288, length: 4096 },
+      ]);
+    });
+
+    test('caps the number of open pieces', () => {
+      scheduler.destroy();
+      scheduler = new PieceScheduler(torrentMeta, 4096, 8, { randomFirstPieces: 0, maxOpenPieces: 1 });
+
+      const peer = addPeer(scheduler, 'peer', '10.0.0.1', [0, 1, 2]);
+
+      expect(peer.getRequests().map((r: any) => r.index)).toEqual([0, 0, 0, 0]);
+      expect(scheduler.getStats().openPieces).toBe(1);
+    });
+
+    test('starts with random pieces while it has nothing to trade', () => {
+      const random = jest.spyOn(Math, 'random').mockReturnValue(0.7);
+
+      try {
+        scheduler.destroy();
+        scheduler = new PieceScheduler(torrentMeta, 16384, 1);
+        const peer = addPeer(scheduler, 'peer', '10.0.0.1', [0, 1, 2]);
+
+        // Rarest-first would have picked piece 0
+        expect(peer.getRequests()[0].index).toBe(2);
+      } finally {
+        random.mockRestore();
+      }
+    });
+  });
+
+  describe('Request Pipeline', () => {
+    const fullBitfield = (size: number) => {
+      const bitfield = new BitSet(size);
+      for (let i = 0; i < size; i++) {
+        bitfield.set(i);
+      }
+      return bitfield;
+    };
+
+    test('honors the request queue a peer advertises', () => {
+      scheduler.destroy();
+      scheduler = new PieceScheduler(torrentMeta, 4096, 8, { randomFirstPieces: 0 });
+
+      const early = new MockPeerConnection('early', '10.0.0.1') as any;
+      early.setExtendedHandshake({ extensions: {}, reqq: 3, raw: {} });
+      early.setChoked(false);
+      early.setConnected(true);
+      scheduler.addPeer(early, fullBitfield(3));
+
+      expect(early.getRequests()).toHaveLength(3);
+
+      const late = new MockPeerConnection('late', '10.0.0.2') as any;
+      scheduler.addPeer(late, fullBitfield(3));
+      expect(scheduler.getPipelineDepth(late)).toBe(8);
+
+      late.emit('extended_handshake', { extensions: {}, reqq: 2, raw: {} });
+      expect(scheduler.getPipelineDepth(late)).toBe(2);
+    });
+
+    test('sizes each pipeline from the peer\'s bandwidth-delay product', () => {
+      let now = 0;
+      const clock = jest.spyOn(Date, 'now').mockImplementation(() => now);
+
+      // Serves requests in order over a link with the given latency and bandwidth
+      const link = (peer: any, latency: number, bytesPerSecond: number) => {
+        const sentAt = new Map<string, number>();
+        let busyUntil = 0;
+
+        return () => {
+          for (const request of peer.getRequests()) {
+            const key = `${request.index}:${request.begin}`;
+            if (!sentAt.has(key)) {
+              sentAt.set(key, now);
+            }
+          }
+
+          const request = peer.getRequests()[0];
+          if (!request) {
+            return;
+          }
+
+          const start = Math.max(sentAt.get(`${request.index}:${request.begin}`)! + latency, busyUntil);
+          const arrival = start + (request.length * 1000) / bytesPerSecond;
+          if (now >= arrival) {
+            busyUntil = arrival;
+            peer.requests.shift();
+            peer.simulatePiece(request.index, request.begin, Buffer.alloc(request.length));
+          }
+        };
+      };
+
+      try {
+        const pieceCount = 1024;
+        scheduler.destroy();
+        scheduler = new PieceScheduler({
+          ...torrentMeta,
+          length: pieceCount * 16384,
+          pieces: Buffer.alloc(pieceCount * 20),
+        }, 16384, 12, { randomFirstPieces: 0, maxWindow: 20 });
+
+        const fast = new MockPeerConnection('fast', '10.0.0.1') as any;
+        const slow = new MockPeerConnection('slow', '10.0.0.2') as any;
+        for (const peer of [fast, slow]) {
+          peer.setChoked(false);
+          peer.setConnected(true);
+          scheduler.addPeer(peer, fullBitfield(pieceCount));
+        }
+
+        const serveFast = link(fast, 50, 4 * 1024 * 1024);
+        const serveSlow = link(slow, 50, 32 * 1024);
+        for (now = 0; now < 3000; now++) {
+          serveFast();
+          serveSlow();
+        }
+
+        expect(scheduler.getPipelineDepth(fast)).toBe(20); // capped by maxWindow
+        expect(scheduler.getPipelineDepth(slow)).toBeLessThan(12);
+        expect(slow.getRequests().length).toBeLessThan(12);
+      } finally {
+        clock.mockRestore();
+      }
+    });
+  });
+
+  describe('Timeouts and Snubbing', () => {
+    let now: number;
+    let clock: jest.SpyInstance;
+
+    beforeEach(() => {
+      now = 0;
+      clock = jest.spyOn(Date, 'now').mockImplementation(() => now);
+    });
+
+    afterEach(() => {
+      clock.mockRestore();
+    });
+
+    test('derives request timeouts from the peer\'s round trip', () => {
+      scheduler.destroy();
+      scheduler = new PieceScheduler(torrentMeta, 4096, 1, { randomFirstPieces: 0, requestTimeout: 10000 });
+      const peer = addPeer(scheduler, 'peer1', '10.0.0.1', [0, 1, 2]);
+
+      // Nothing measured yet, so the configured bound applies
+      const [first] = scheduler['getActiveRequests']();
+      expect(first.timeoutAt - first.requestedAt).toBe(10000);
+
+      for (let i = 0; i < 4; i++) {
+        const [request] = scheduler['getActiveRequests']();
+        now += 100;
+        peer.simulatePiece(request.pieceIndex, request.begin, Buffer.alloc(request.length));
+      }
+
+      const [next] = scheduler['getActiveRequests']();
+      expect(scheduler.getRtt(peer)).toBe(100);
+      expect(next.timeoutAt - next.requestedAt).toBe(2000); // rounded up to the minimum
+    });
+
+    test('snubs a peer that stops delivering and hands its blocks to others', () => {
+      scheduler.destroy();
+      scheduler = new PieceScheduler(torrentMeta, 4096, 2, { randomFirstPieces: 0, snubTimeout: 5000 });
+      const snubbed = jest.fn();
+      const unsnubbed = jest.fn();
+      scheduler.on('peer_snubbed', snubbed);
+      scheduler.on('peer_unsnubbed', unsnubbed);
+
+      const stalled = addPeer(scheduler, 'stalled', '10.0.0.1', [0, 1, 2]);
+      const helper = addPeer(scheduler, 'helper', '10.0.0.2', [0, 1, 2]);
+      expect(stalled.getRequests().map((r: any) => r.begin)).toEqual([0, 4096]);
+      expect(helper.getRequests().map((r: any) => r.begin)).toEqual([8192, 12288]);
+
+      now = 4000;
+      helper.simulatePiece(0, 8192, Buffer.alloc(4096));
+      now = 5000;
+      scheduler['handleTimeouts']();
+
+      expect(snubbed).toHaveBeenCalledWith({ peer: stalled });
+      expect(scheduler.isSnubbed(stalled)).toBe(true);
+      expect(scheduler.isSnubbed(helper)).toBe(false);
+      expect(scheduler.getPipelineDepth(stalled)).toBe(1);
+
+      // The helper picks up the block the stalled peer gave back first
+      helper.simulatePiece(0, 12288, Buffer.alloc(4096));
+      expect(helper.getRequests().map((r: any) => `${r.index}:${r.begin}`)).toContain('0:4096');
+
+      // Delivering again lifts the snub
+      const [retry] = stalled.getRequests();
+      stalled.simulatePiece(retry.index, retry.begin, Buffer.alloc(4096));
+      expect(unsnubbed).toHaveBeenCalledWith({ peer: stalled });
+      expect(scheduler.getPipelineDepth(stalled)).toBe(2);
+    });
+    test('stops the wait of an endgame peer whose duplicate was cancelled', () => {
+      scheduler.destroy();
+      scheduler = new PieceScheduler(torrentMeta, 16384, 1, { randomFirstPieces: 0, snubTimeout: 5000 });
+      const snubbed = jest.fn();
+      scheduler.on('peer_snubbed', snubbed);
+
+      // Both peers hold the only block of piece 0, the second one as an endgame duplicate
+      const peers = ['10.0.0.1', '10.0.0.2'].map((ip, i) => addPeer(scheduler, `peer${i}`, ip, [0]));
+      expect(scheduler.getStats().endgameActive).toBe(true);
+
+      now = 1000;
+      peers[0].simulatePiece(0, 0, Buffer.alloc(16384));
+      expect(scheduler['pipelines'].get(peers[1])!.waitingSince).toBeUndefined();
+
+      now = 10000;
+      scheduler['handleTimeouts']();
+
+      expect(snubbed).not.toHaveBeenCalled();
+      expect(scheduler.isSnubbed(peers[1])).toBe(false);
+    });
+  });
+
+  describe('Priorities', () => {
+    test('never requests skipped pieces and completes once the wanted ones are in', () => {
+      const priorities = new PiecePriorities(torrentMeta);
+      priorities.setPiecePriority(1, 3, 'skip');
+      scheduler.destroy();
+      scheduler = new PieceScheduler(torrentMeta, 16384, 4, { randomFirstPieces: 0, priorities });
+
+      const completed = jest.fn();
+      scheduler.on('download_completed', completed);
+      scheduler.on('piece_assembled', (event) => scheduler.pieceVerified(event.pieceIndex));
+
+      const peer = addPeer(scheduler, 'peer', '10.0.0.1', [0, 1, 2]);
+      expect(peer.getRequests().map((r: any) => r.index)).toEqual([0]);
+
+      peer.simulatePiece(0, 0, Buffer.alloc(16384));
+
+      expect(completed).toHaveBeenCalledTimes(1);
+      expect(scheduler.isComplete()).toBe(true);
+      expect(scheduler.getStats().piecesWanted).toBe(1);
+      expect(peer.getState().interested).toBe(false);
+    });
+
+    test('picks higher priority pieces before rarer ones', () => {
+      const priorities = new PiecePriorities(torrentMeta);
+      priorities.setPiecePriority(2, 3, 'high');
+      scheduler.destroy();
+      scheduler = new PieceScheduler(torrentMeta, 16384, 1, { randomFirstPieces: 0, priorities });
+
+      addPeer(scheduler, 'seed', '10.0.0.2', [1, 2], false);
+      const peer = addPeer(scheduler, 'peer', '10.0.0.1', [0, 2]);
+
+      // Piece 0 is rarer, but piece 2 is high priority
+      expect(peer.getRequests().map((r: any) => r.index)).toEqual([2]);
+    });
+
+    test('cancels requests for pieces that become skipped', async () => {
+      const priorities = new PiecePriorities(torrentMeta);
+      scheduler.destroy();
+      scheduler = new PieceScheduler(torrentMeta, 8192, 2, { randomFirstPieces: 0, priorities });
+
+      const peer = addPeer(scheduler, 'peer', '10.0.0.1', [0, 1, 2]);
+      await new Promise(resolve => setImmediate(resolve)); // Requests are tracked once sent
+      expect(peer.getRequests().map((r: any) => r.index)).toEqual([0, 0]);
+
+      priorities.setPiecePriority(0, 1, 'skip');
+      scheduler.updatePriorities();
+
+      expect(peer.getRequests().map((r: any) => r.index)).toEqual([1, 1]);
+      expect(scheduler.getStats().piecesWanted).toBe(2);
+    });
+  });
+
+  describe('Sequential Mode and Deadlines', () => {
+    test('requests pieces in order from the playback position', () => {
+      const pieceCount = 16;
+      const meta = { ...torrentMeta, length: pieceCount * 16384, pieces: Buffer.alloc(pieceCount * 20) };
+      const all = Array.from({ length: pieceCount }, (_, i) => i);
+
+      scheduler.destroy();
+      scheduler = new PieceScheduler(meta, 16384, 2, { randomFirstPieces: 0, maxOpenPieces: 4, sequential: true });
+      scheduler.on('piece_assembled', (event) => scheduler.pieceVerified(event.pieceIndex));
+
+      // Pieces 8 and up are rarer, rarest-first would start there
+      const peer = addPeer(scheduler, 'peer', '10.0.0.1', all);
+      const other = new MockPeerConnection('other', '10.0.0.2') as any;
+      const bitfield = new BitSet(pieceCount);
+      all.slice(0, 8).forEach(i => bitfield.set(i));
+      scheduler.addPeer(other, bitfield);
+
+      expect(peer.getRequests().map((r: any) => r.index)).toEqual([0, 1]);
+
+      peer.clearRequests();
+      peer.simulatePiece(0, 0, Buffer.alloc(16384));
+      peer.simulatePiece(1, 0, Buffer.alloc(16384));
+      expect(peer.getRequests().map((r: any) => r.index)).toEqual([2, 3]);
+    });
+
+    test('requests pieces with a deadline first', () => {
+      scheduler.destroy();
+      scheduler = new PieceScheduler(torrentMeta, 16384, 1, { randomFirstPieces: 0 });
+      scheduler.setPieceDeadline(2, 5000);
+
+      const peer = addPeer(scheduler, 'peer', '10.0.0.1', [0, 1, 2]);
+
+      expect(peer.getRequests().map((r: any) => r.index)).toEqual([2]);
+      expect(() => scheduler.setPieceDeadline(3, 1000)).toThrow(SchedulerError);
+    });
+
+    test('duplicates blocks to a faster peer when a deadline is at risk', () => {
+      let now = 0;
+      const clock = jest.spyOn(Date, 'now').mockImplementation(() => now);
+
+      try {
+        scheduler.destroy();
+        scheduler = new PieceScheduler(torrentMeta, 16384, 1, { randomFirstPieces: 0 });
+        const duplicated = jest.fn();
+        scheduler.on('deadline_duplicate', duplicated);
+
+        const slow = addPeer(scheduler, 'slow', '10.0.0.1', [0, 1, 2]);
+        const fast = addPeer(scheduler, 'fast', '10.0.0.2', [0, 1, 2]);
+        expect(slow.getRequests().map((r: any) => r.index)).toEqual([0]);
+        expect(fast.getRequests().map((r: any) => r.index)).toEqual([1]);
+
+        // The fast peer answers in 100ms, nothing is known about the slow one
+        now = 100;
+        fast.simulatePiece(1, 0, Buffer.alloc(16384));
+
+        scheduler.setPieceDeadline(0, 1000);
+
+        expect(duplicated).toHaveBeenCalledWith({ peer: fast, pieceIndex: 0, begin: 0 });
+        expect(fast.getRequests().map((r: any) => r.index)).toContain(0);
+
+        // The first copy to arrive cancels the other
+        now = 200;
+        fast.simulatePiece(0, 0, Buffer.alloc(16384));
+        expect(slow.getRequests().map((r: any) => r.index)).not.toContain(0);
+      } finally {
+        clock.mockRestore();
+      }
+    });
+  });
+
+  describe('Endgame Requests', () => {
+    test('starts once every block is in flight and a peer sits idle', () => {
+      const first = addPeer(scheduler, 'peer1', '10.0.0.1', [0]);
+      expect(scheduler.getStats().endgameActive).toBe(false);
+
+      const second = addPeer(scheduler, 'peer2', '10.0.0.2', [0]);
+
+      expect(scheduler.getStats().endgameActive).toBe(true);
+      expect(first.getRequests()).toEqual([{ index: 0, begin: 0, length: 16384 }]);
+      expect(second.getRequests()).toEqual([{ index: 0, begin: 0, length: 16384 }]);
+      expect(scheduler.getStats().activeRequests).toBe(2);
+    });
+
+    test('cancels the other holders when the block arrives', () => {
+      const first = addPeer(scheduler, 'peer1', '10.0.0.1', [0]);
+      const second = addPeer(scheduler, 'peer2', '10.0.0.2', [0]);
+      const assembled = jest.fn();
+      scheduler.on('piece_assembled', assembled);
+
+      first.simulatePiece(0, 0, Buffer.alloc(16384));
+
+      expect(assembled).toHaveBeenCalledTimes(1);
+      expect(second.getRequests()).toEqual([]);
+      expect(scheduler.getStats().activeRequests).toBe(0);
+    });
+
+    test('keeps a block in flight while another peer still holds it', () => {
+      const first = addPeer(scheduler, 'peer1', '10.0.0.1', [0]);
+      const second = addPeer(scheduler, 'peer2', '10.0.0.2', [0]);
+      const assembled = jest.fn();
+      scheduler.on('piece_assembled', assembled);
+
+      first.simulateChoke();
+
+      expect(first.getRequests()).toEqual([]);
+      expect(second.getRequests()).toHaveLength(1);
+      expect(scheduler.getStats().activeRequests).toBe(1);
+
+      second.simulatePiece(0, 0, Buffer.alloc(16384));
+      expect(assembled).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('Request Management', () => {
     test('cancels requests when peer chokes', (done) => {
       const peer = new MockPeerConnection('peer1') as any;
@@ -1,6 +1,9 @@
 import { EventEmitter } from 'events';
 import { PeerConnection, BitSet, RequestMessage, PieceMessage, CancelMessage } from './peer';
 import { TorrentMeta, Piece, getPieceMap } from './metainfo';
+import { AvailabilityIndex, forEachSet, isFull } from './availability';
+import { PiecePriorities } from './priorities';
+import type { PartialPiece } from './storage';
 
 export class SchedulerError extends Error {
   constructor(message: string) {
@@ -21,17 +24,54 @@ export interface BlockRequest {
 export interface PieceProgress {
   pieceIndex: number;
   totalLength: number;
-  receivedBlocks: Map<number, Buffer>; // offset -> block data
+  buffer?: Buffer; // allocated on the first block, blocks are copied in place
+  receivedBlocks: Set<number>; // set of received block offsets
+  blockSources: Map<number, string>; // offset -> ip of the peer that sent it
   requestedBlocks: Set<number>; // set of requested block offsets
   availableBlocks: Set<number>; // set of blocks still needed
 }
 
+// A copy of a piece that failed its hash check, kept to find the culprit once a good copy arrives
+interface FailedPiece {
+  data: Buffer;
+  blockSources: Map<number, string>;
+}
+
+// Per-peer request pipeline, sized from the peer's bandwidth-delay product
+interface PeerPipeline {
+  depth: number;         // requests we keep in flight to the peer
+  minRtt?: number;       // lowest block round trip seen, ms
+  srtt?: number;         // smoothed block round trip including queueing, ms
+  rttVar?: number;
+  waitingSince?: number; // when we last started waiting on a block from the peer
+  snubbed: boolean;      // stopped delivering; pipeline cut to one request
+  rate?: number;         // smoothed download rate, bytes per second
+  intervalStart?: number;
+  intervalBytes: number;
+  requestLimit?: number; // reqq from the peer's extended handshake
+}
+
+export interface SchedulerOptions {
+  randomFirstPieces?: number; // pieces picked at random before switching to rarest-first
+  maxOpenPieces?: number;     // partially downloaded pieces at once; 0 sizes it from the peers' pipelines
+  minWindow?: number;         // bounds for each peer's adaptive pipeline depth
+  maxWindow?: number;
+  requestTimeout?: number;    // upper bound on a request's round-trip based timeout, ms
+  snubTimeout?: number;       // ms without a block before a peer counts as snubbed
+  priorities?: PiecePriorities; // shared with the client, see updatePriorities
+  sequential?: boolean;       // request pieces in order ahead of the playback position, for streaming
+  completedPieces?: Iterable<number>; // already verified on disk, e.g. when resuming
+  partialPieces?: PartialPiece[];     // blocks kept from an earlier run
+}
+
 export interface SchedulerStats {
   piecesCompleted: number;
   piecesTotal: number;
+  piecesWanted: number;
   bytesDownloaded: number;
   bytesTotal: number;
   activeRequests: number;
+  openPieces: number;
   availablePeers: number;
   downloadRate: number; // bytes per second
   endgameActive: boolean;
@@ -40,26 +80,61 @@ export interface SchedulerStats {
 export class PieceScheduler extends EventEmitter {
   private static readonly DEFAULT_BLOCK_SIZE = 16384; // 16KB
   private static readonly DEFAULT_WINDOW_SIZE = 12; // requests per peer
-  private static readonly REQUEST_TIMEOUT = 30000; // 30 seconds
-  private static readonly ENDGAME_THRESHOLD = 20; // blocks remaining to trigger endgame
+  private static readonly DEFAULT_REQUEST_TIMEOUT = 30000; // 30 seconds
+  private static readonly MIN_REQUEST_TIMEOUT = 2000;
+  private static readonly DEFAULT_SNUB_TIMEOUT = 60000;
+  private static readonly MAINTENANCE_INTERVAL = 1000;
+  private static readonly BAN_STRIKES = 3; // bad pieces before a peer is banned
+  private static readonly MAX_FAILED_COPIES = 2; // bad copies kept per piece for blaming
+  private static readonly SPARSE_PEER_RATIO = 8; // peers with under 1/8 of the pieces are picked for directly
+  private static readonly DEFAULT_RANDOM_FIRST_PIECES = 4;
+  private static readonly RANDOM_PICK_ATTEMPTS = 32;
+  private static readonly MIN_OPEN_PIECES = 4;
+  private static readonly DEFAULT_MIN_WINDOW = 1;
+  private static readonly DEFAULT_MAX_WINDOW = 250;
+  private static readonly PIPELINE_GAIN = 2; // requests in flight per bandwidth-delay product
+  private static readonly RATE_INTERVAL = 1000; // ms of downloading per rate sample
+  private static readonly RATE_SMOOTHING = 0.25;
+  private static readonly RTT_SMOOTHING = 0.125; // RFC 6298 alpha
+  private static readonly RTT_VAR_SMOOTHING = 0.25; // RFC 6298 beta
+  private static readonly MAX_DEADLINE_HOLDERS = 2; // peers fetching the same block of a piece at risk
 
   private readonly torrentMeta: TorrentMeta;
   private readonly pieces: Piece[];
   private readonly blockSize: number;
   private readonly windowSize: number;
+  private readonly randomFirstPieces: number;
+  private readonly maxOpenPieces: number;
+  private readonly minWindow: number;
+  private readonly maxWindow: number;
+  private readonly requestTimeout: number;
+  private readonly snubTimeout: number;
+  private readonly priorities: PiecePriorities;
+  private readonly sequential: boolean;
 
   // Piece tracking
   private readonly pieceProgress: Map<number, PieceProgress> = new Map();
   private readonly completedPieces: Set<number> = new Set();
-  private readonly availabilityMap: Map<number, number> = new Map(); // piece -> count of peers who have it
+  private readonly verifyingPieces: Map<number, PieceProgress> = new Map(); // assembled, waiting for pieceVerified/pieceFailed
+  private readonly failedPieces: Map<number, FailedPiece[]> = new Map();
+  private readonly openPieces: Set<number> = new Set(); // requested or partly received, not yet assembled
+  private readonly availability: AvailabilityIndex; // piece -> count of peers who have it
+  private wantedRemaining: number; // wanted pieces not completed yet
+  private readonly deadlines: Map<number, number> = new Map(); // piece -> time it's needed by
+  private playbackPosition = 0; // no needed piece before this one, in sequential mode
   
   // Request tracking
-  private readonly activeRequests: Map<string, BlockRequest> = new Map(); // requestId -> request
+  private readonly activeRequests: Map<string, Map<PeerConnection, BlockRequest>> = new Map(); // requestId -> request per peer
   private readonly peerRequests: Map<PeerConnection, Set<string>> = new Map(); // peer -> set of requestIds
+  private readonly pipelines: Map<PeerConnection, PeerPipeline> = new Map();
   
   // Peer tracking
   private readonly peers: Set<PeerConnection> = new Set();
-  private readonly peerBitfields: Map<PeerConnection, BitSet> = new Map();
+  private readonly peerBitfields: Map<PeerConnection, BitSet> = new Map(); // our own copies
+  private readonly seedPeers: Set<PeerConnection> = new Set(); // counted once in the availability index
+  private readonly peerPieceCounts: Map<PeerConnection, number> = new Map();
+  private readonly peerStrikes: Map<string, number> = new Map(); // ip -> bad pieces sent
+  private readonly bannedPeers: Set<string> = new Set(); // ips
   
   // State
   private endgameActive = false;
@@ -69,7 +144,8 @@ export class PieceScheduler extends EventEmitter {
   constructor(
     torrentMeta: TorrentMeta,
     blockSize: number = PieceScheduler.DEFAULT_BLOCK_SIZE,
-    windowSize: number = PieceScheduler.DEFAULT_WINDOW_SIZE
+    windowSize: number = PieceScheduler.DEFAULT_WINDOW_SIZE,
+    options: SchedulerOptions = {}
   ) {
     super();
 
@@ -77,13 +153,24 @@ export class PieceScheduler extends EventEmitter {
     this.pieces = getPieceMap(torrentMeta);
     this.blockSize = blockSize;
     this.windowSize = windowSize;
+    this.randomFirstPieces = options.randomFirstPieces ?? PieceScheduler.DEFAULT_RANDOM_FIRST_PIECES;
+    this.maxOpenPieces = options.maxOpenPieces ?? 0;
+    this.minWindow = Math.max(1, options.minWindow ?? PieceScheduler.DEFAULT_MIN_WINDOW);
+    this.maxWindow = Math.max(this.minWindow, options.maxWindow ?? PieceScheduler.DEFAULT_MAX_WINDOW);
+    this.requestTimeout = options.requestTimeout ?? PieceScheduler.DEFAULT_REQUEST_TIMEOUT;
+    this.snubTimeout = options.snubTimeout ?? PieceScheduler.DEFAULT_SNUB_TIMEOUT;
+    this.priorities = options.priorities ?? new PiecePriorities(torrentMeta);
+    this.wantedRemaining = this.priorities.getWantedPieces();
+    this.sequential = options.sequential ?? false;
+    this.availability = new AvailabilityIndex(this.pieces.length);
 
     // Initialize piece progress tracking
     for (const piece of this.pieces) {
       const progress: PieceProgress = {
         pieceIndex: piece.index,
         totalLength: piece.length,
-        receivedBlocks: new Map(),
+        receivedBlocks: new Set(),
+        blockSources: new Map(),
         requestedBlocks: new Set(),
         availableBlocks: new Set(),
       };
@@ -96,7 +183,20 @@ export class PieceScheduler extends EventEmitter {
       }
 
       this.pieceProgress.set(piece.index, progress);
-      this.availabilityMap.set(piece.index, 0);
+    }
+
+    for (const pieceIndex of options.completedPieces ?? []) {
+      if (this.pieceProgress.delete(pieceIndex)) {
+        this.completedPieces.add(pieceIndex);
+        this.availability.remove(pieceIndex);
+        if (this.priorities.isWanted(pieceIndex)) {
+          this.wantedRemaining--;
+        }
+      }
+    }
+
+    for (const partial of options.partialPieces ?? []) {
+      this.restorePartialPiece(partial);
     }
 
     // Start periodic maintenance
@@ -104,16 +204,25 @@ export class PieceScheduler extends EventEmitter {
   }
 
   addPeer(peer: PeerConnection, bitfield?: BitSet): void {
-    if (this.peers.has(peer)) {
+    if (this.peers.has(peer) || this.bannedPeers.has(peer.getPeerInfo().ip)) {
       return;
     }
 
     this.peers.add(peer);
     this.peerRequests.set(peer, new Set());
 
+    // The extended handshake may have arrived before the peer was handed to us
+    const requestLimit = peer.getExtendedHandshake()?.reqq;
+    this.pipelines.set(peer, {
+      depth: this.clampDepth(this.windowSize, requestLimit),
+      intervalBytes: 0,
+      requestLimit,
+      snubbed: false,
+    });
+
     if (bitfield) {
-      this.peerBitfields.set(peer, bitfield);
       this.updateAvailability(peer, bitfield);
+      this.updateInterest(peer);
     }
 
     // Set up peer event handlers
@@ -122,6 +231,7 @@ export class PieceScheduler extends EventEmitter {
     peer.on('piece', (message) => this.handlePeerPiece(peer, message));
     peer.on('choke', () => this.handlePeerChoke(peer));
     peer.on('unchoke', () => this.handlePeerUnchoke(peer));
+    peer.on('extended_handshake', (handshake) => this.setRequestLimit(peer, handshake.reqq));
     peer.on('close', () => this.removePeer(peer));
     peer.on('error', () => this.removePeer(peer));
 
@@ -135,44 +245,32 @@ export class PieceScheduler extends EventEmitter {
     }
 
     // Cancel all requests from this peer
-    const peerRequestIds = this.peerRequests.get(peer) || new Set();
-    for (const requestId of peerRequestIds) {
-      const request = this.activeRequests.get(requestId);
-      if (request) {
-        this.cancelBlockRequest(request);
-      }
-    }
+    this.cancelPeerRequests(peer);
 
     // Remove peer tracking
     this.peers.delete(peer);
     this.peerRequests.delete(peer);
-    const oldBitfield = this.peerBitfields.get(peer);
-    this.peerBitfields.delete(peer);
+    this.pipelines.delete(peer);
 
     // Update availability counts
-    if (oldBitfield) {
-      for (let i = 0; i < oldBitfield.getSize(); i++) {
-        if (oldBitfield.get(i)) {
-          const currentCount = this.availabilityMap.get(i) || 0;
-          this.availabilityMap.set(i, Math.max(0, currentCount - 1));
-        }
-      }
-    }
+    this.forgetAvailability(peer);
 
     this.emit('peer_removed', peer);
     this.scheduleRequests();
   }
 
   private handlePeerBitfield(peer: PeerConnection, bitfield: BitSet): void {
-    const oldBitfield = this.peerBitfields.get(peer);
-    this.peerBitfields.set(peer, bitfield);
-
     // Update availability counts
-    this.updateAvailability(peer, bitfield, oldBitfield);
+    this.updateAvailability(peer, bitfield);
+    this.updateInterest(peer);
     this.scheduleRequests();
   }
 
   private handlePeerHave(peer: PeerConnection, pieceIndex: number): void {
+    if (pieceIndex < 0 || pieceIndex >= this.pieces.length) {
+      return;
+    }
+
     let bitfield = this.peerBitfields.get(peer);
     if (!bitfield) {
       bitfield = new BitSet(this.pieces.length);
@@ -181,17 +279,23 @@ export class PieceScheduler extends EventEmitter {
 
     if (!bitfield.get(pieceIndex)) {
       bitfield.set(pieceIndex);
-      const currentCount = this.availabilityMap.get(pieceIndex) || 0;
-      this.availabilityMap.set(pieceIndex, currentCount + 1);
+      this.availability.increment(pieceIndex);
+      this.peerPieceCounts.set(peer, (this.peerPieceCounts.get(peer) ?? 0) + 1);
       this.scheduleRequests();
     }
+
+    // A piece we still need makes the peer interesting
+    if (this.isNeeded(pieceIndex) && !peer.getState().interested) {
+      this.setInterest(peer, true);
+    }
   }
 
   private handlePeerPiece(peer: PeerConnection, message: PieceMessage): void {
     const requestId = this.getRequestId(message.index, message.begin);
-    const request = this.activeRequests.get(requestId);
+    const holders = this.activeRequests.get(requestId);
+    const request = holders?.get(peer);
 
-    if (!request) {
+    if (!holders || !request) {
       // Unexpected piece, ignore
       return;
     }
@@ -208,25 +312,41 @@ export class PieceScheduler extends EventEmitter {
         begin: message.begin, 
         error: 'Invalid block length' 
       });
+      this.releaseRequest(request);
       return;
     }
 
+    this.updatePipeline(request, message.block.length);
+    this.unsnubPeer(peer);
+
     // Store block data
     const progress = this.pieceProgress.get(message.index);
-    if (!progress) {
+    if (!progress || progress.receivedBlocks.has(message.begin)) {
       return;
     }
 
-    progress.receivedBlocks.set(message.begin, message.block);
+    if (!progress.buffer) {
+      // Shared memory, so a hash worker can verify the finished piece without a copy
+      progress.buffer = Buffer.from(new SharedArrayBuffer(progress.totalLength));
+    }
+    message.block.copy(progress.buffer, message.begin);
+    progress.receivedBlocks.add(message.begin);
+    progress.blockSources.set(message.begin, peer.getPeerInfo().ip);
     progress.requestedBlocks.delete(message.begin);
     progress.availableBlocks.delete(message.begin);
 
+    // Endgame duplicates of this block are no longer needed
+    for (const duplicate of Array.from(holders.values())) {
+      this.sendCancel(duplicate);
+      this.removeActiveRequest(duplicate);
+    }
+
     this.bytesDownloaded += message.block.length;
     this.updateDownloadRate(message.block.length);
 
     // Check if piece is complete
-    if (progress.availableBlocks.size === 0) {
-      this.completePiece(message.index);
+    if (progress.receivedBlocks.size === Math.ceil(progress.totalLength / this.blockSize)) {
+      this.assemblePiece(message.index);
     } else {
       this.emit('block_received', {
         peer,
@@ -241,12 +361,14 @@ export class PieceScheduler extends EventEmitter {
 
   private handlePeerChoke(peer: PeerConnection): void {
     // Cancel all requests from this peer
-    const peerRequestIds = this.peerRequests.get(peer) || new Set();
-    for (const requestId of peerRequestIds) {
-      const request = this.activeRequests.get(requestId);
-      if (request) {
-        this.cancelBlockRequest(request);
-      }
+    this.cancelPeerRequests(peer);
+
+    // Time spent choked says nothing about the peer's rate
+    const pipeline = this.pipelines.get(peer);
+    if (pipeline) {
+      pipeline.intervalStart = undefined;
+      pipeline.intervalBytes = 0;
+      pipeline.waitingSince = undefined;
     }
   }
 
@@ -254,35 +376,116 @@ export class PieceScheduler extends EventEmitter {
     this.scheduleRequests();
   }
 
-  private updateAvailability(peer: PeerConnection, newBitfield: BitSet, oldBitfield?: BitSet): void {
-    for (let i = 0; i < newBitfield.getSize(); i++) {
-      const hadPiece = oldBitfield?.get(i) || false;
-      const hasPiece = newBitfield.get(i);
+  // Tells the peer whether it has anything we still need
+  private updateInterest(peer: PeerConnection): void {
+    const bitfield = this.peerBitfields.get(peer);
+    let interested = false;
 
-      if (hasPiece && !hadPiece) {
-        const currentCount = this.availabilityMap.get(i) || 0;
-        this.availabilityMap.set(i, currentCount + 1);
-      } else if (!hasPiece && hadPiece) {
-        const currentCount = this.availabilityMap.get(i) || 0;
-        this.availabilityMap.set(i, Math.max(0, currentCount - 1));
+    if (bitfield) {
+      for (let i = 0; i < this.pieces.length; i++) {
+        if (bitfield.get(i) && this.isNeeded(i)) {
+          interested = true;
+          break;
+        }
       }
     }
+
+    if (interested !== peer.getState().interested) {
+      this.setInterest(peer, interested);
+    }
+  }
+
+  private setInterest(peer: PeerConnection, interested: boolean): void {
+    const send = interested ? peer.sendInterested() : peer.sendNotInterested();
+    send.catch(() => {
+      // Ignore send errors, the peer is going away
+    });
+  }
+
+  // Replaces whatever the peer advertised before; full bitfields only bump the seed count
+  private updateAvailability(peer: PeerConnection, bitfield: BitSet): void {
+    this.forgetAvailability(peer);
+
+    // Keep a copy, the peer keeps updating its own on HAVE
+    const copy = BitSet.fromBuffer(bitfield.toBuffer(), this.pieces.length);
+    this.peerBitfields.set(peer, copy);
+
+    if (isFull(copy, this.pieces.length)) {
+      this.seedPeers.add(peer);
+      this.availability.addSeed();
+      this.peerPieceCounts.set(peer, this.pieces.length);
+    } else {
+      this.peerPieceCounts.set(peer, this.availability.addBitfield(copy));
+    }
+  }
+
+  private forgetAvailability(peer: PeerConnection): void {
+    const bitfield = this.peerBitfields.get(peer);
+    this.peerBitfields.delete(peer);
+    this.peerPieceCounts.delete(peer);
+
+    if (this.seedPeers.delete(peer)) {
+      this.availability.removeSeed();
+    } else if (bitfield) {
+      this.availability.removeBitfield(bitfield);
+    }
   }
 
   private scheduleRequests(): void {
-    // Skip scheduling if in endgame mode and no capacity
-    const totalRemainingBlocks = this.getRemainingBlockCount();
-    
-    // Check if we should enter endgame mode
-    if (!this.endgameActive && totalRemainingBlocks <= PieceScheduler.ENDGAME_THRESHOLD) {
+    // Snubbed peers only get the blocks other peers leave
+    const peers = Array.from(this.peers).sort((a, b) => Number(this.isSnubbed(a)) - Number(this.isSnubbed(b)));
+
+    for (const peer of peers) {
+      this.schedulePeerRequests(peer);
+    }
+
+    if (!this.endgameActive && this.shouldEnterEndgame()) {
       this.endgameActive = true;
       this.emit('endgame_started');
+
+      // Idle peers may now duplicate blocks that are in flight elsewhere
+      for (const peer of peers) {
+        this.schedulePeerRequests(peer);
+      }
+    }
+  }
+
+  // Endgame starts once every missing block is in flight while some peer has room for more requests
+  private shouldEnterEndgame(): boolean {
+    let inFlight = 0;
+    for (const progress of this.pieceProgress.values()) {
+      if (!this.priorities.isWanted(progress.pieceIndex)) {
+        continue;
+      }
+
+      // Pieces no peer has can't be requested either way
+      if (progress.availableBlocks.size > 0 && this.availability.get(progress.pieceIndex) > 0) {
+        return false;
+      }
+      inFlight += progress.requestedBlocks.size;
     }
 
-    // Schedule requests for each available peer
+    if (inFlight === 0) {
+      return false;
+    }
+
+    // Worth it only if an idle peer could duplicate a block someone else is fetching
     for (const peer of this.peers) {
-      this.schedulePeerRequests(peer);
+      const requests = this.peerRequests.get(peer)?.size ?? 0;
+      const bitfield = this.peerBitfields.get(peer);
+      if (peer.getState().choked || !peer.isConnected() || requests >= this.getPipelineDepth(peer) || !bitfield) {
+        continue;
+      }
+
+      for (const holders of this.activeRequests.values()) {
+        const request = holders.values().next().value;
+        if (request && !holders.has(peer) && bitfield.get(request.pieceIndex)) {
+          return true;
+        }
+      }
     }
+
+    return false;
   }
 
   private schedulePeerRequests(peer: PeerConnection): void {
@@ -294,7 +497,7 @@ export class PieceScheduler extends EventEmitter {
     }
 
     const currentRequests = this.peerRequests.get(peer)?.size || 0;
-    const availableCapacity = this.windowSize - currentRequests;
+    const availableCapacity = this.getPipelineDepth(peer) - currentRequests;
 
     if (availableCapacity <= 0) {
       return;
@@ -305,8 +508,7 @@ export class PieceScheduler extends EventEmitter {
       return;
     }
 
-    // Get pieces to request in rarest-first order
-    const candidatePieces = this.getRarestFirstPieces(peerBitfield);
+    const candidatePieces = this.getCandidatePieces(peer, peerBitfield);
     let requestsScheduled = 0;
 
     for (const pieceIndex of candidatePieces) {
@@ -319,39 +521,155 @@ export class PieceScheduler extends EventEmitter {
     }
   }
 
-  private getRarestFirstPieces(peerBitfield: BitSet): number[] {
-    const candidates: { pieceIndex: number; availability: number }[] = [];
+  // Pieces with a deadline and, in sequential mode, the pieces ahead of the playback position come first.
+  // Then open pieces so they complete and free their buffers, then random pieces until we have
+  // something to trade, then rarest-first. New pieces are only opened below the open piece limit.
+  private *getCandidatePieces(peer: PeerConnection, peerBitfield: BitSet): IterableIterator<number> {
+    for (const pieceIndex of this.getUrgentPieces()) {
+      if (peerBitfield.get(pieceIndex) && this.isRequestable(pieceIndex)) {
+        yield pieceIndex;
+      }
+    }
 
-    for (let i = 0; i < this.pieces.length; i++) {
-      // Skip completed pieces
-      if (this.completedPieces.has(i)) {
-        continue;
+    const open = Array.from(this.openPieces)
+      .filter(i => peerBitfield.get(i) && this.isRequestable(i))
+      .sort((a, b) => this.priorities.getLevel(b) - this.priorities.getLevel(a) ||
+        this.getOpenProgress(b) - this.getOpenProgress(a));
+    yield* open;
+
+    // Higher priorities first; with a single level in use there's nothing to filter
+    const levels = this.priorities.getLevels();
+    for (const level of levels) {
+      const tier = levels.length > 1 ? level : undefined;
+      const newPieces = this.completedPieces.size < this.randomFirstPieces
+        ? this.getRandomPieces(peer, peerBitfield, tier)
+        : this.getRarestFirstPieces(peer, peerBitfield, tier);
+
+      for (const pieceIndex of newPieces) {
+        if (!this.canOpenPiece(peer)) {
+          return;
+        }
+        if (!this.openPieces.has(pieceIndex)) {
+          yield pieceIndex;
+        }
       }
+    }
+  }
 
-      // Skip pieces peer doesn't have
-      if (!peerBitfield.get(i)) {
-        continue;
+  // Deadline pieces by deadline, then the readahead window in order
+  private getUrgentPieces(): number[] {
+    const urgent = Array.from(this.deadlines)
+      .sort(([, a], [, b]) => a - b)
+      .map(([pieceIndex]) => pieceIndex);
+
+    if (this.sequential) {
+      while (this.playbackPosition < this.pieces.length && !this.isNeeded(this.playbackPosition)) {
+        this.playbackPosition++;
       }
 
-      // Skip pieces with no remaining blocks
-      const progress = this.pieceProgress.get(i);
-      if (!progress || progress.availableBlocks.size === 0) {
-        continue;
+      // As many pieces as the open piece limit, which fills every pipeline
+      const end = Math.min(this.pieces.length, this.playbackPosition + this.getOpenPieceLimit());
+      for (let i = this.playbackPosition; i < end; i++) {
+        if (!this.deadlines.has(i)) {
+          urgent.push(i);
+        }
       }
+    }
+
+    return urgent;
+  }
+
+  // Only the missing blocks are requested; a piece that would already be whole is fetched again
+  private restorePartialPiece(partial: PartialPiece): void {
+    const progress = this.pieceProgress.get(partial.pieceIndex);
+    const blocks = Array.from(partial.receivedBlocks).filter(offset => progress?.availableBlocks.has(offset));
+    if (!progress || partial.data.length !== progress.totalLength || blocks.length === 0 ||
+      blocks.length >= progress.availableBlocks.size) {
+      return;
+    }
 
-      const availability = this.availabilityMap.get(i) || 0;
-      candidates.push({ pieceIndex: i, availability });
+    // Shared memory like the buffers of downloaded pieces, so hashing it needs no copy either
+    progress.buffer = Buffer.from(new SharedArrayBuffer(progress.totalLength));
+    partial.data.copy(progress.buffer);
+    for (const offset of blocks) {
+      progress.receivedBlocks.add(offset);
+      progress.availableBlocks.delete(offset);
     }
+    this.openPieces.add(partial.pieceIndex);
+  }
 
-    // Sort by availability (rarest first), then by piece index for determinism
-    candidates.sort((a, b) => {
-      if (a.availability !== b.availability) {
-        return a.availability - b.availability;
+  private isNeeded(pieceIndex: number): boolean {
+    return this.priorities.isWanted(pieceIndex) && !this.completedPieces.has(pieceIndex);
+  }
+
+  private getOpenProgress(pieceIndex: number): number {
+    return this.pieceProgress.get(pieceIndex)?.receivedBlocks.size ?? 0;
+  }
+
+  // A peer with nothing in flight may always open one piece so it isn't starved
+  private canOpenPiece(peer: PeerConnection): boolean {
+    return this.openPieces.size < this.getOpenPieceLimit() || (this.peerRequests.get(peer)?.size ?? 0) === 0;
+  }
+
+  private getOpenPieceLimit(): number {
+    if (this.maxOpenPieces > 0) {
+      return this.maxOpenPieces;
+    }
+
+    // Enough pieces to fill every pipeline twice over
+    let depth = 0;
+    for (const pipeline of this.pipelines.values()) {
+      depth += pipeline.depth;
+    }
+
+    const blocksPerPiece = Math.ceil(this.torrentMeta.pieceLength / this.blockSize);
+    return Math.max(PieceScheduler.MIN_OPEN_PIECES, Math.ceil(2 * depth / blocksPerPiece));
+  }
+
+  // Random pieces complete sooner than rare ones, which only a few peers can serve.
+  // Falls back to rarest-first when the random attempts miss.
+  private *getRandomPieces(peer: PeerConnection, peerBitfield: BitSet, level?: number): IterableIterator<number> {
+    for (let attempt = 0; attempt < PieceScheduler.RANDOM_PICK_ATTEMPTS; attempt++) {
+      const pieceIndex = Math.floor(Math.random() * this.pieces.length);
+      if (peerBitfield.get(pieceIndex) && this.isRequestable(pieceIndex, level)) {
+        yield pieceIndex;
       }
-      return a.pieceIndex - b.pieceIndex;
-    });
+    }
 
-    return candidates.map(c => c.pieceIndex);
+    yield* this.getRarestFirstPieces(peer, peerBitfield, level);
+  }
+
+  // Walks the availability buckets from the rarest end, so no sorting is needed. Peers
+  // with only a few pieces would skip most of the buckets, so their own pieces are sorted instead.
+  private *getRarestFirstPieces(peer: PeerConnection, peerBitfield: BitSet, level?: number): IterableIterator<number> {
+    if ((this.peerPieceCounts.get(peer) ?? 0) * PieceScheduler.SPARSE_PEER_RATIO < this.pieces.length) {
+      const candidates: number[] = [];
+      forEachSet(peerBitfield, this.pieces.length, (i) => {
+        if (this.isRequestable(i, level)) {
+          candidates.push(i);
+        }
+      });
+
+      yield* candidates.sort((a, b) => this.availability.get(a) - this.availability.get(b) || a - b);
+      return;
+    }
+
+    for (const i of this.availability.rarest()) {
+      if (peerBitfield.get(i) && this.isRequestable(i, level)) {
+        yield i;
+      }
+    }
+  }
+
+  // Optionally restricted to pieces of one priority level
+  private isRequestable(pieceIndex: number, level?: number): boolean {
+    if (!this.isNeeded(pieceIndex) || (level !== undefined && this.priorities.getLevel(pieceIndex) !== level)) {
+      return false;
+    }
+
+    // Skip pieces with nothing left to request (in endgame, in-flight blocks may be requested again)
+    const progress = this.pieceProgress.get(pieceIndex);
+    return !!progress && (progress.availableBlocks.size > 0 || (this.endgameActive && progress.requestedBlocks.size > 0));
   }
 
   private scheduleBlocksForPiece(peer: PeerConnection, pieceIndex: number, maxBlocks: number): number {
@@ -375,115 +693,280 @@ export class PieceScheduler extends EventEmitter {
 
       // Skip if already requested by this peer (avoid duplicates from same peer)
       const requestId = this.getRequestId(pieceIndex, blockOffset);
-      const existingRequest = this.activeRequests.get(requestId);
-      if (existingRequest && existingRequest.peer === peer) {
+      if (this.activeRequests.get(requestId)?.has(peer)) {
         continue;
       }
 
-      const blockLength = this.getBlockLength(pieceIndex, blockOffset);
-      const request: BlockRequest = {
-        pieceIndex,
-        begin: blockOffset,
-        length: blockLength,
-        peer,
-        requestedAt: Date.now(),
-        timeoutAt: Date.now() + PieceScheduler.REQUEST_TIMEOUT,
-      };
-
-      // Send request to peer
-      peer.sendRequest({
-        index: pieceIndex,
-        begin: blockOffset,
-        length: blockLength,
-      }).then(() => {
-        // Track the request
-        this.addActiveRequest(request);
-        progress.requestedBlocks.add(blockOffset);
-        if (!this.endgameActive) {
-          progress.availableBlocks.delete(blockOffset);
-        }
-      }).catch((error) => {
-        this.emit('request_error', { peer, request, error });
-      });
-
+      this.requestBlock(peer, progress, blockOffset);
       scheduled++;
     }
 
     return scheduled;
   }
 
-  private completePiece(pieceIndex: number): void {
-    const progress = this.pieceProgress.get(pieceIndex);
-    const piece = this.pieces[pieceIndex];
-    
-    if (!progress || !piece) {
-      return;
+  private requestBlock(peer: PeerConnection, progress: PieceProgress, blockOffset: number): void {
+    const pieceIndex = progress.pieceIndex;
+    const blockLength = this.getBlockLength(pieceIndex, blockOffset);
+    const request: BlockRequest = {
+      pieceIndex,
+      begin: blockOffset,
+      length: blockLength,
+      peer,
+      requestedAt: Date.now(),
+      timeoutAt: Date.now() + this.getRequestTimeout(peer),
+    };
+
+    // Track the request right away so the next scheduling pass sees it
+    this.addActiveRequest(request);
+    const pipeline = this.pipelines.get(peer);
+    if (pipeline) {
+      pipeline.waitingSince ??= request.requestedAt;
     }
+    progress.requestedBlocks.add(blockOffset);
+    progress.availableBlocks.delete(blockOffset);
+    this.openPieces.add(pieceIndex);
+
+    peer.sendRequest({
+      index: pieceIndex,
+      begin: blockOffset,
+      length: blockLength,
+    }).catch((error) => {
+      this.releaseRequest(request);
+      this.emit('request_error', { peer, request, error });
+    });
+  }
 
-    // Reconstruct piece data from blocks
-    const blocks: Buffer[] = [];
-    let totalLength = 0;
+  // Blocks of deadline pieces that won't arrive in time from the peers fetching them are
+  // requested again from the fastest peer that would deliver them sooner
+  private handleDeadlines(): void {
+    const now = Date.now();
 
-    for (let offset = 0; offset < piece.length; offset += this.blockSize) {
-      const block = progress.receivedBlocks.get(offset);
-      if (!block) {
-        this.emit('piece_error', { 
-          pieceIndex, 
-          error: 'Missing block data' 
-        });
-        return;
+    for (const [pieceIndex, deadline] of this.deadlines) {
+      const progress = this.pieceProgress.get(pieceIndex);
+      if (!progress || !this.priorities.isWanted(pieceIndex)) {
+        continue;
+      }
+
+      for (const blockOffset of Array.from(progress.requestedBlocks)) {
+        const holders = this.activeRequests.get(this.getRequestId(pieceIndex, blockOffset));
+        if (!holders || holders.size >= PieceScheduler.MAX_DEADLINE_HOLDERS) {
+          continue;
+        }
+
+        const arrival = Math.min(...Array.from(holders.values(), request => this.getExpectedArrival(request)));
+        if (arrival <= deadline) {
+          continue;
+        }
+
+        const peer = this.getFastestPeer(pieceIndex, holders, now);
+        if (peer && now + this.getExpectedRtt(peer) < arrival) {
+          this.requestBlock(peer, progress, blockOffset);
+          this.emit('deadline_duplicate', { peer, pieceIndex, begin: blockOffset });
+        }
       }
-      blocks.push(block);
-      totalLength += block.length;
     }
+  }
 
-    const pieceData = Buffer.concat(blocks, totalLength);
+  // The unsnubbed, unchoked peer with the lowest round trip that has the piece and isn't fetching the block yet
+  private getFastestPeer(pieceIndex: number, holders: Map<PeerConnection, BlockRequest>, now: number): PeerConnection | undefined {
+    let fastest: PeerConnection | undefined;
+    let fastestArrival = Infinity;
 
-    // Verify piece hash
-    const crypto = require('crypto');
-    const actualHash = crypto.createHash('sha1').update(pieceData).digest();
-    
-    if (!actualHash.equals(piece.hash)) {
-      this.emit('piece_error', { 
-        pieceIndex, 
-        error: 'Hash verification failed',
-        expected: piece.hash.toString('hex'),
-        actual: actualHash.toString('hex')
-      });
-      
-      // Reset piece for re-download
-      this.resetPiece(pieceIndex);
+    for (const peer of this.peers) {
+      if (holders.has(peer) || peer.getState().choked || !peer.isConnected() || this.isSnubbed(peer) ||
+        !this.peerBitfields.get(peer)?.get(pieceIndex)) {
+        continue;
+      }
+
+      const arrival = now + this.getExpectedRtt(peer);
+      if (arrival < fastestArrival) {
+        fastest = peer;
+        fastestArrival = arrival;
+      }
+    }
+
+    return fastest;
+  }
+
+  private getExpectedArrival(request: BlockRequest): number {
+    return request.requestedAt + this.getExpectedRtt(request.peer);
+  }
+
+  // Peers we haven't measured yet count as slow as the request timeout
+  private getExpectedRtt(peer: PeerConnection): number {
+    return this.pipelines.get(peer)?.srtt ?? this.requestTimeout;
+  }
+
+  // Hands the assembled piece over for hashing; the result comes back through pieceVerified/pieceFailed
+  private assemblePiece(pieceIndex: number): void {
+    const progress = this.pieceProgress.get(pieceIndex);
+    if (!progress?.buffer) {
       return;
     }
 
-    // Mark piece as completed
-    this.completedPieces.add(pieceIndex);
     this.pieceProgress.delete(pieceIndex);
+    this.openPieces.delete(pieceIndex);
+    this.verifyingPieces.set(pieceIndex, progress);
 
-    // Cancel any duplicate requests in endgame mode
-    if (this.endgameActive) {
-      this.cancelDuplicateRequests(pieceIndex);
+    // Duplicate endgame requests for this piece are no longer useful
+    this.cancelDuplicateRequests(pieceIndex);
+
+    this.emit('piece_assembled', {
+      pieceIndex,
+      data: progress.buffer,
+    });
+  }
+
+  // Called once the assembled piece passed its hash check and was stored
+  pieceVerified(pieceIndex: number): void {
+    const progress = this.verifyingPieces.get(pieceIndex);
+    if (!progress?.buffer) {
+      return;
     }
 
+    this.verifyingPieces.delete(pieceIndex);
+    this.completedPieces.add(pieceIndex);
+    this.deadlines.delete(pieceIndex);
+    this.availability.remove(pieceIndex);
+    this.blameFailedCopies(pieceIndex, progress.buffer);
+
     // Notify all peers that we have this piece
     for (const peer of this.peers) {
       peer.sendHave(pieceIndex).catch(() => {
         // Ignore send errors
       });
+
+      // Peers that only had this piece are no longer interesting
+      if (peer.getState().interested && this.peerBitfields.get(peer)?.get(pieceIndex)) {
+        this.updateInterest(peer);
+      }
     }
 
-    this.emit('piece_completed', { 
-      pieceIndex, 
-      data: pieceData,
-      length: pieceData.length 
+    this.emit('piece_completed', {
+      pieceIndex,
+      length: progress.totalLength,
     });
 
-    // Check if download is complete
-    if (this.completedPieces.size === this.pieces.length) {
+    // Check if every wanted piece is done
+    if (this.priorities.isWanted(pieceIndex) && --this.wantedRemaining === 0) {
       this.emit('download_completed');
     }
   }
 
+  // Applies changed priorities: requests for skipped pieces are cancelled and interest re-evaluated
+  updatePriorities(): void {
+    this.wantedRemaining = 0;
+    this.playbackPosition = 0; // skipped pieces before it may be wanted again
+    for (let i = 0; i < this.pieces.length; i++) {
+      if (this.isNeeded(i)) {
+        this.wantedRemaining++;
+      }
+    }
+
+    for (const request of this.getActiveRequests()) {
+      if (!this.priorities.isWanted(request.pieceIndex)) {
+        this.cancelBlockRequest(request);
+      }
+    }
+
+    for (const peer of this.peers) {
+      this.updateInterest(peer);
+    }
+
+    this.scheduleRequests();
+  }
+
+  // Called when the assembled piece failed its hash check
+  pieceFailed(pieceIndex: number, error: string): void {
+    const progress = this.verifyingPieces.get(pieceIndex);
+    if (!progress?.buffer) {
+      return;
+    }
+
+    this.verifyingPieces.delete(pieceIndex);
+    this.emit('piece_error', { pieceIndex, error });
+
+    const sources = new Set(progress.blockSources.values());
+    if (progress.blockSources.size < progress.receivedBlocks.size) {
+      // Blocks restored from disk have no sender and may be the corrupt ones, so nobody is blamed;
+      // the reset below drops them and the whole piece comes from the network again
+    } else if (sources.size === 1) {
+      // A single peer sent the whole piece, so it's the culprit
+      this.addStrike(sources.values().next().value!, pieceIndex);
+    } else {
+      // Keep the bad copy until a good one shows which blocks were wrong; only the latest ones, so
+      // a piece that keeps failing doesn't pile up copies
+      const failed = this.failedPieces.get(pieceIndex) ?? [];
+      failed.push({ data: progress.buffer, blockSources: progress.blockSources });
+      if (failed.length > PieceScheduler.MAX_FAILED_COPIES) {
+        failed.shift();
+      }
+      this.failedPieces.set(pieceIndex, failed);
+    }
+
+    // Reset piece for re-download
+    this.resetPiece(pieceIndex);
+    this.scheduleRequests();
+  }
+
+  // Called when the assembled piece couldn't be hashed or written. Its data wasn't found bad, so
+  // nobody is blamed and the piece is simply downloaded again.
+  pieceStoreFailed(pieceIndex: number, error: string): void {
+    if (!this.verifyingPieces.delete(pieceIndex)) {
+      return;
+    }
+
+    this.emit('piece_error', { pieceIndex, error });
+    this.resetPiece(pieceIndex);
+    this.scheduleRequests();
+  }
+
+  // Compares earlier bad copies block by block against the verified data
+  private blameFailedCopies(pieceIndex: number, data: Buffer): void {
+    const failed = this.failedPieces.get(pieceIndex);
+    if (!failed) {
+      return;
+    }
+    this.failedPieces.delete(pieceIndex);
+
+    for (const copy of failed) {
+      const culprits = new Set<string>();
+
+      for (const [offset, ip] of copy.blockSources) {
+        const end = offset + this.getBlockLength(pieceIndex, offset);
+        if (!copy.data.subarray(offset, end).equals(data.subarray(offset, end))) {
+          culprits.add(ip);
+        }
+      }
+
+      for (const ip of culprits) {
+        this.addStrike(ip, pieceIndex);
+      }
+    }
+  }
+
+  private addStrike(ip: string, pieceIndex: number): void {
+    if (this.bannedPeers.has(ip)) {
+      return;
+    }
+
+    const strikes = (this.peerStrikes.get(ip) ?? 0) + 1;
+    this.peerStrikes.set(ip, strikes);
+    this.emit('peer_strike', { ip, pieceIndex, strikes });
+
+    if (strikes >= PieceScheduler.BAN_STRIKES) {
+      this.bannedPeers.add(ip);
+
+      for (const peer of Array.from(this.peers)) {
+        if (peer.getPeerInfo().ip === ip) {
+          this.removePeer(peer);
+        }
+      }
+
+      this.emit('peer_banned', { ip, strikes });
+    }
+  }
+
   private resetPiece(pieceIndex: number): void {
     const piece = this.pieces[pieceIndex];
     if (!piece) {
@@ -491,22 +974,18 @@ export class PieceScheduler extends EventEmitter {
     }
 
     // Cancel existing requests for this piece
-    const requestsToCancel: BlockRequest[] = [];
-    for (const request of this.activeRequests.values()) {
+    for (const request of this.getActiveRequests()) {
       if (request.pieceIndex === pieceIndex) {
-        requestsToCancel.push(request);
+        this.cancelBlockRequest(request);
       }
     }
 
-    for (const request of requestsToCancel) {
-      this.cancelBlockRequest(request);
-    }
-
     // Reset progress
     const progress: PieceProgress = {
       pieceIndex,
       totalLength: piece.length,
-      receivedBlocks: new Map(),
+      receivedBlocks: new Set(),
+      blockSources: new Map(),
       requestedBlocks: new Set(),
       availableBlocks: new Set(),
     };
@@ -519,34 +998,36 @@ export class PieceScheduler extends EventEmitter {
 
     this.pieceProgress.set(pieceIndex, progress);
     this.completedPieces.delete(pieceIndex);
+    this.openPieces.delete(pieceIndex);
   }
 
   private cancelDuplicateRequests(completedPieceIndex: number): void {
-    const requestsToCancel: BlockRequest[] = [];
-    
-    for (const request of this.activeRequests.values()) {
+    for (const request of this.getActiveRequests()) {
       if (request.pieceIndex === completedPieceIndex) {
-        requestsToCancel.push(request);
+        this.sendCancel(request);
+        this.removeActiveRequest(request);
       }
     }
+  }
 
-    for (const request of requestsToCancel) {
-      // Send cancel message to peer
-      request.peer.sendCancel({
-        index: request.pieceIndex,
-        begin: request.begin,
-        length: request.length,
-      }).catch(() => {
-        // Ignore send errors
-      });
-
-      this.removeActiveRequest(request);
+  // Every outstanding request, one per peer holding each block
+  private getActiveRequests(): BlockRequest[] {
+    const requests: BlockRequest[] = [];
+    for (const holders of this.activeRequests.values()) {
+      requests.push(...holders.values());
     }
+    return requests;
   }
 
   private addActiveRequest(request: BlockRequest): void {
     const requestId = this.getRequestId(request.pieceIndex, request.begin);
-    this.activeRequests.set(requestId, request);
+
+    let holders = this.activeRequests.get(requestId);
+    if (!holders) {
+      holders = new Map();
+      this.activeRequests.set(requestId, holders);
+    }
+    holders.set(request.peer, request);
     
     let peerRequests = this.peerRequests.get(request.peer);
     if (!peerRequests) {
@@ -558,16 +1039,59 @@ export class PieceScheduler extends EventEmitter {
 
   private removeActiveRequest(request: BlockRequest): void {
     const requestId = this.getRequestId(request.pieceIndex, request.begin);
-    this.activeRequests.delete(requestId);
+
+    const holders = this.activeRequests.get(requestId);
+    if (holders?.get(request.peer) === request) {
+      holders.delete(request.peer);
+      if (holders.size === 0) {
+        this.activeRequests.delete(requestId);
+      }
+    }
     
     const peerRequests = this.peerRequests.get(request.peer);
     if (peerRequests) {
       peerRequests.delete(requestId);
+
+      // Nothing left to wait for, e.g. its endgame duplicates were cancelled
+      const pipeline = this.pipelines.get(request.peer);
+      if (pipeline && peerRequests.size === 0) {
+        pipeline.waitingSince = undefined;
+      }
+    }
+  }
+
+  private cancelPeerRequests(peer: PeerConnection): void {
+    for (const requestId of Array.from(this.peerRequests.get(peer) ?? [])) {
+      const request = this.activeRequests.get(requestId)?.get(peer);
+      if (request) {
+        this.cancelBlockRequest(request);
+      }
     }
   }
 
   private cancelBlockRequest(request: BlockRequest): void {
-    // Send cancel message to peer
+    this.sendCancel(request);
+    this.releaseRequest(request);
+  }
+
+  // Stops tracking a request; the block becomes requestable again once no other peer holds it
+  private releaseRequest(request: BlockRequest): void {
+    this.removeActiveRequest(request);
+
+    const requestId = this.getRequestId(request.pieceIndex, request.begin);
+    const progress = this.pieceProgress.get(request.pieceIndex);
+    if (progress && !this.activeRequests.has(requestId) && !progress.receivedBlocks.has(request.begin)) {
+      progress.requestedBlocks.delete(request.begin);
+      progress.availableBlocks.add(request.begin);
+
+      // Nothing of the piece is in flight or buffered anymore
+      if (progress.requestedBlocks.size === 0 && progress.receivedBlocks.size === 0) {
+        this.openPieces.delete(request.pieceIndex);
+      }
+    }
+  }
+
+  private sendCancel(request: BlockRequest): void {
     request.peer.sendCancel({
       index: request.pieceIndex,
       begin: request.begin,
@@ -575,20 +1099,103 @@ export class PieceScheduler extends EventEmitter {
     }).catch(() => {
       // Ignore send errors
     });
+  }
 
-    // Remove from tracking
-    this.removeActiveRequest(request);
+  private getRequestId(pieceIndex: number, begin: number): string {
+    return `${pieceIndex}:${begin}`;
+  }
 
-    // Mark block as available again
-    const progress = this.pieceProgress.get(request.pieceIndex);
-    if (progress) {
-      progress.requestedBlocks.delete(request.begin);
-      progress.availableBlocks.add(request.begin);
+  // Resizes the peer's pipeline from a delivered block: depth covers the bandwidth-delay product
+  private updatePipeline(request: BlockRequest, length: number): void {
+    const pipeline = this.pipelines.get(request.peer);
+    if (!pipeline) {
+      return;
+    }
+
+    const now = Date.now();
+    const rtt = Math.max(1, now - request.requestedAt);
+
+    // Requests queued at the peer only make the round trip longer, so the lowest one is the link's
+    pipeline.minRtt = Math.min(pipeline.minRtt ?? Infinity, rtt);
+
+    // Smoothed like TCP's retransmission timer (RFC 6298) for request timeouts
+    if (pipeline.srtt === undefined || pipeline.rttVar === undefined) {
+      pipeline.srtt = rtt;
+      pipeline.rttVar = rtt / 2;
+    } else {
+      pipeline.rttVar += PieceScheduler.RTT_VAR_SMOOTHING * (Math.abs(pipeline.srtt - rtt) - pipeline.rttVar);
+      pipeline.srtt += PieceScheduler.RTT_SMOOTHING * (rtt - pipeline.srtt);
+    }
+
+    // Waiting starts over with the next request once the peer has caught up
+    pipeline.waitingSince = (this.peerRequests.get(request.peer)?.size ?? 0) > 0 ? now : undefined;
+
+    pipeline.intervalStart ??= request.requestedAt;
+    pipeline.intervalBytes += length;
+
+    const elapsed = now - pipeline.intervalStart;
+    if (elapsed < PieceScheduler.RATE_INTERVAL) {
+      return;
     }
+
+    const rate = (pipeline.intervalBytes * 1000) / elapsed;
+    pipeline.rate = pipeline.rate === undefined
+      ? rate
+      : pipeline.rate + PieceScheduler.RATE_SMOOTHING * (rate - pipeline.rate);
+    pipeline.intervalStart = now;
+    pipeline.intervalBytes = 0;
+
+    const bdp = (pipeline.rate * pipeline.minRtt) / 1000;
+    pipeline.depth = this.clampDepth(Math.ceil((PieceScheduler.PIPELINE_GAIN * bdp) / this.blockSize), pipeline.requestLimit);
   }
 
-  private getRequestId(pieceIndex: number, begin: number): string {
-    return `${pieceIndex}:${begin}`;
+  // Caps the pipeline at the request queue the peer advertised (BEP 10 reqq)
+  private setRequestLimit(peer: PeerConnection, requestLimit?: number): void {
+    const pipeline = this.pipelines.get(peer);
+    if (!pipeline || requestLimit === undefined) {
+      return;
+    }
+
+    pipeline.requestLimit = requestLimit;
+    pipeline.depth = this.clampDepth(pipeline.depth, requestLimit);
+    this.scheduleRequests();
+  }
+
+  // Smoothed round trip plus four deviations, within the configured bounds
+  private getRequestTimeout(peer: PeerConnection): number {
+    const pipeline = this.pipelines.get(peer);
+    if (pipeline?.srtt === undefined || pipeline.rttVar === undefined) {
+      return this.requestTimeout;
+    }
+
+    const timeout = pipeline.srtt + 4 * pipeline.rttVar;
+    return Math.min(this.requestTimeout, Math.max(PieceScheduler.MIN_REQUEST_TIMEOUT, timeout));
+  }
+
+  // Hands the peer's requests to others and keeps it at a single request until it delivers again
+  private snubPeer(peer: PeerConnection): void {
+    const pipeline = this.pipelines.get(peer);
+    if (!pipeline || pipeline.snubbed) {
+      return;
+    }
+
+    pipeline.snubbed = true;
+    pipeline.waitingSince = undefined;
+    this.cancelPeerRequests(peer);
+    this.emit('peer_snubbed', { peer });
+  }
+
+  private unsnubPeer(peer: PeerConnection): void {
+    const pipeline = this.pipelines.get(peer);
+    if (pipeline?.snubbed) {
+      pipeline.snubbed = false;
+      this.emit('peer_unsnubbed', { peer });
+    }
+  }
+
+  private clampDepth(depth: number, requestLimit?: number): number {
+    const bounded = Math.min(this.maxWindow, Math.max(this.minWindow, depth));
+    return requestLimit === undefined ? bounded : Math.max(1, Math.min(bounded, requestLimit));
   }
 
   private getBlockLength(pieceIndex: number, blockOffset: number): number {
@@ -601,14 +1208,6 @@ export class PieceScheduler extends EventEmitter {
     return Math.min(this.blockSize, remainingBytes);
   }
 
-  private getRemainingBlockCount(): number {
-    let count = 0;
-    for (const progress of this.pieceProgress.values()) {
-      count += progress.availableBlocks.size + progress.requestedBlocks.size;
-    }
-    return count;
-  }
-
   private updateDownloadRate(bytesReceived: number): void {
     const now = Date.now();
     this.downloadRateTracker.push({ timestamp: now, bytes: bytesReceived });
@@ -633,27 +1232,40 @@ export class PieceScheduler extends EventEmitter {
   private maintenanceTimer?: NodeJS.Timeout;
 
   private startMaintenanceTimer(): void {
+    // Often enough for round-trip based timeouts of a few seconds
     this.maintenanceTimer = setInterval(() => {
       this.handleTimeouts();
-    }, 5000); // Check every 5 seconds
+      this.handleDeadlines();
+    }, PieceScheduler.MAINTENANCE_INTERVAL);
   }
 
   private handleTimeouts(): void {
     const now = Date.now();
-    const timedOutRequests: BlockRequest[] = [];
-
-    for (const request of this.activeRequests.values()) {
-      if (now >= request.timeoutAt) {
-        timedOutRequests.push(request);
-      }
-    }
+    const timedOutRequests = this.getActiveRequests().filter(request => now >= request.timeoutAt);
 
     for (const request of timedOutRequests) {
+      const pipeline = this.pipelines.get(request.peer);
+      const waitingSince = pipeline?.waitingSince;
+
       this.emit('request_timeout', { peer: request.peer, request });
       this.cancelBlockRequest(request);
+
+      // Timed out requests don't reset the wait, so a peer that keeps failing them gets snubbed
+      if (pipeline) {
+        pipeline.waitingSince = waitingSince;
+      }
+    }
+
+    const snubbed = Array.from(this.pipelines)
+      .filter(([peer, pipeline]) => !pipeline.snubbed && pipeline.waitingSince !== undefined &&
+        (this.peerRequests.get(peer)?.size ?? 0) > 0 && now - pipeline.waitingSince >= this.snubTimeout)
+      .map(([peer]) => peer);
+
+    for (const peer of snubbed) {
+      this.snubPeer(peer);
     }
 
-    if (timedOutRequests.length > 0) {
+    if (timedOutRequests.length > 0 || snubbed.length > 0) {
       this.scheduleRequests();
     }
   }
@@ -663,17 +1275,20 @@ export class PieceScheduler extends EventEmitter {
     return {
       piecesCompleted: this.completedPieces.size,
       piecesTotal: this.pieces.length,
+      piecesWanted: this.priorities.getWantedPieces(),
       bytesDownloaded: this.bytesDownloaded,
       bytesTotal: this.torrentMeta.length,
-      activeRequests: this.activeRequests.size,
+      activeRequests: this.getActiveRequests().length,
+      openPieces: this.openPieces.size,
       availablePeers: Array.from(this.peers).filter(p => !p.getState().choked && p.isConnected()).length,
       downloadRate: this.calculateDownloadRate(),
       endgameActive: this.endgameActive,
     };
   }
 
+  // Every wanted piece is done; skipped pieces don't count
   isComplete(): boolean {
-    return this.completedPieces.size === this.pieces.length;
+    return this.wantedRemaining === 0;
   }
 
   getBytesDownloaded(): number {
@@ -684,13 +1299,81 @@ export class PieceScheduler extends EventEmitter {
     return new Set(this.completedPieces);
   }
 
+  // Received blocks of pieces that aren't complete yet, to keep across restarts
+  getPartialPieces(): PartialPiece[] {
+    const partialPieces: PartialPiece[] = [];
+    for (const progress of this.pieceProgress.values()) {
+      if (progress.buffer && progress.receivedBlocks.size > 0) {
+        partialPieces.push({
+          pieceIndex: progress.pieceIndex,
+          data: progress.buffer,
+          receivedBlocks: new Set(progress.receivedBlocks),
+        });
+      }
+    }
+    return partialPieces;
+  }
+
   getPeerCount(): number {
     return this.peers.size;
   }
 
+  // Requests we currently allow in flight to the peer
+  getPipelineDepth(peer: PeerConnection): number {
+    const pipeline = this.pipelines.get(peer);
+    if (pipeline?.snubbed) {
+      return 1;
+    }
+    return pipeline?.depth ?? this.clampDepth(this.windowSize);
+  }
+
+  // Smoothed block round trip in ms, 0 until a block has arrived
+  getRtt(peer: PeerConnection): number {
+    return this.pipelines.get(peer)?.srtt ?? 0;
+  }
+
+  isSnubbed(peer: PeerConnection): boolean {
+    return this.pipelines.get(peer)?.snubbed ?? false;
+  }
+
+  // The piece is needed within ms from now; it's requested ahead of everything else and duplicated
+  // to faster peers when the peers fetching it would miss the deadline
+  setPieceDeadline(pieceIndex: number, ms: number): void {
+    if (!this.pieces[pieceIndex]) {
+      throw new SchedulerError(`Invalid piece index: ${pieceIndex}`);
+    }
+    if (this.completedPieces.has(pieceIndex)) {
+      return;
+    }
+
+    this.deadlines.set(pieceIndex, Date.now() + Math.max(0, ms));
+    this.scheduleRequests();
+    this.handleDeadlines();
+  }
+
+  clearPieceDeadline(pieceIndex: number): void {
+    this.deadlines.delete(pieceIndex);
+  }
+
+  clearDeadlines(): void {
+    this.deadlines.clear();
+  }
+
+  getAvailability(pieceIndex: number): number {
+    return this.availability.get(pieceIndex);
+  }
+
+  getStrikes(ip: string): number {
+    return this.peerStrikes.get(ip) ?? 0;
+  }
+
+  isBanned(ip: string): boolean {
+    return this.bannedPeers.has(ip);
+  }
+
   destroy(): void {
     // Cancel all requests
-    for (const request of this.activeRequests.values()) {
+    for (const request of this.getActiveRequests()) {
       this.cancelBlockRequest(request);
     }
 
@@ -704,7 +1387,14 @@ export class PieceScheduler extends EventEmitter {
     this.peers.clear();
     this.peerRequests.clear();
     this.peerBitfields.clear();
+    this.seedPeers.clear();
+    this.peerPieceCounts.clear();
     this.activeRequests.clear();
+    this.verifyingPieces.clear();
+    this.failedPieces.clear();
+    this.openPieces.clear();
+    this.deadlines.clear();
+    this.pipelines.clear();
     this.removeAllListeners();
   }
 }
\ No newline at end of file
@@ -4,6 +4,9 @@ import * as crypto from 'crypto';
 import * as os from 'os';
 import { TorrentStorage, StorageError } from './storage';
 import { TorrentMeta } from './metainfo';
+import { PiecePriorities } from './priorities';
+import { decodeResumeData } from './resume';
+import { HashPool } from './hash-pool';
 
 describe('TorrentStorage', () => {
   let tempDir: string;
@@ -234,6 +237,137 @@ describe('TorrentStorage', () => {
     });
   });
 
+  describe('Verified Writes', () => {
+    beforeEach(async () => {
+      await storage.initialize();
+    });
+
+    test('writes an assembled piece in one call', async () => {
+      const pieceData = Buffer.alloc(8000, 0xBB);
+
+      await expect(storage.writePiece(1, pieceData)).resolves.toBe(true);
+
+      expect(storage.hasPiece(1)).toBe(true);
+      expect(storage.getStats().verifiedPieces).toBe(1);
+      expect(Buffer.compare(await storage.readPiece(1), pieceData)).toBe(0);
+    });
+
+    test('resolves false on a hash mismatch without writing', async () => {
+      const failed = jest.fn();
+      storage.on('piece_hash_failed', failed);
+
+      await expect(storage.writePiece(0, Buffer.alloc(16384, 0xFF))).resolves.toBe(false);
+
+      expect(failed).toHaveBeenCalledWith(expect.objectContaining({ pieceIndex: 0 }));
+      expect(storage.hasPiece(0)).toBe(false);
+      expect(storage.getStats().writtenSize).toBe(0);
+    });
+
+    test('rejects pieces of the wrong size', async () => {
+      await expect(storage.writePiece(0, Buffer.alloc(100))).rejects.toThrow(StorageError);
+    });
+
+    test('rejects when storage is closed', async () => {
+      await storage.close();
+
+      await expect(storage.writePiece(0, Buffer.alloc(16384, 0xAA))).rejects.toThrow(StorageError);
+    });
+  });
+
+  describe('Disk Cache', () => {
+    beforeEach(async () => {
+      await storage.initialize();
+    });
+
+    test('holds verified pieces back until a flush', async () => {
+      const pieceData = Buffer.alloc(16384, 0xAA);
+      await storage.writePiece(0, pieceData);
+
+      const filePath = storage.getStats().filePath;
+      expect((await fs.readFile(filePath)).subarray(0, 16384).every(b => b === 0)).toBe(true);
+      expect(storage.getStats()).toMatchObject({ cachedBytes: 16384, cacheQueueDepth: 1 });
+
+      // Readers see the piece before it reaches disk
+      expect(Buffer.compare(await storage.readPiece(0), pieceData)).toBe(0);
+      expect(storage.getStats().cacheHits).toBe(1);
+
+      await storage.flush();
+
+      expect((await fs.readFile(filePath)).subarray(0, 16384).equals(pieceData)).toBe(true);
+      expect(storage.getStats()).toMatchObject({ cachedBytes: 0, cacheQueueDepth: 0 });
+      // Later reads come from the read cache the first one filled
+      expect(Buffer.compare(await storage.readPiece(0), pieceData)).toBe(0);
+      expect(storage.getStats()).toMatchObject({ cacheHits: 1, cacheMisses: 0, readCacheHits: 1 });
+    });
+
+    test('writes every piece right away without a budget', async () => {
+      const uncached = new TorrentStorage(torrentMeta, path.join(tempDir, 'uncached'), 16384, { cacheSize: 0 });
+      await uncached.initialize();
+
+      await uncached.writePiece(0, Buffer.alloc(16384, 0xAA));
+
+      const fileData = await fs.readFile(uncached.getStats().filePath);
+      expect(fileData.subarray(0, 16384).every(b => b === 0xAA)).toBe(true);
+      expect(uncached.getStats().cacheQueueDepth).toBe(0);
+
+      await uncached.destroy();
+    });
+  });
+
+  describe('Read Cache', () => {
+    let cachedStorage: TorrentStorage;
+    let readSpy: jest.SpyInstance;
+
+    beforeEach(async () => {
+      // Room for the first piece only, and pieces go straight to disk
+      cachedStorage = new TorrentStorage(torrentMeta, path.join(tempDir, 'cached'), 4096, {
+        cacheSize: 0,
+        readCacheSize: 20000,
+      });
+      await cachedStorage.initialize();
+      await cachedStorage.writePiece(0, Buffer.alloc(16384, 0xAA));
+      await cachedStorage.writePiece(1, Buffer.alloc(8000, 0xBB));
+      readSpy = jest.spyOn(cachedStorage as any, 'readRange');
+    });
+
+    afterEach(async () => {
+      await cachedStorage.destroy();
+    });
+
+    test('reads the rest of a piece ahead on the first block', async () => {
+      const blocks = await Promise.all([0, 4096, 8192, 12288].map(begin => cachedStorage.readBlock(0, begin, 4096)));
+
+      expect(blocks.every(block => block.length === 4096 && block.every(b => b === 0xAA))).toBe(true);
+      expect(readSpy).toHaveBeenCalledTimes(1);
+
+      expect((await cachedStorage.readBlock(0, 4096, 100)).length).toBe(100);
+      expect(readSpy).toHaveBeenCalledTimes(1);
+      expect(cachedStorage.getStats()).toMatchObject({ readCacheBytes: 16384, readCacheHits: 1 });
+    });
+
+    test('evicts the least recently used piece at the cap', async () => {
+      await cachedStorage.readBlock(0, 0, 4096);
+      await cachedStorage.readBlock(1, 0, 4096);
+
+      expect(cachedStorage.getStats()).toMatchObject({ readCacheBytes: 8000, readCacheEvictions: 1 });
+
+      await cachedStorage.readBlock(0, 0, 4096);
+      expect(readSpy).toHaveBeenCalledTimes(3);
+    });
+
+    test('hands out copies of whole pieces', async () => {
+      const piece = await cachedStorage.readPiece(0);
+      piece.fill(0);
+
+      expect((await cachedStorage.readBlock(0, 0, 4096)).every(b => b === 0xAA)).toBe(true);
+    });
+
+    test('rejects blocks outside the piece', async () => {
+      await expect(cachedStorage.readBlock(1, 4096, 4096)).rejects.toThrow(StorageError);
+      await expect(cachedStorage.readBlock(2, 0, 4096)).rejects.toThrow(StorageError);
+    });
+  });
+
   describe('File I/O Operations', () => {
     beforeEach(async () => {
       await storage.initialize();
@@ -256,7 +390,8 @@ describe('TorrentStorage', () => {
         });
       });
 
-      // Verify file contents
+      // Verify file contents once the disk cache is written out
+      await storage.flush();
       const stats = storage.getStats();
       const fileData = await fs.readFile(stats.filePath);
       
@@ -450,6 +585,50 @@ describe('TorrentStorage', () => {
       await existingStorage.destroy();
     });
 
+    test('serves pieces from a complete existing file', async () => {
+      const piece1 = Buffer.alloc(16384, 0xAA);
+      const piece2 = Buffer.alloc(8000, 0xBB);
+
+      const filePath = path.join(tempDir, 'test-file.bin');
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, Buffer.concat([piece1, piece2]));
+
+      const existingStorage = new TorrentStorage(torrentMeta, tempDir);
+      await existingStorage.initialize();
+
+      const readData = await existingStorage.readPiece(1);
+      expect(readData.equals(piece2)).toBe(true);
+
+      await existingStorage.destroy();
+    });
+
+    test('resumes from the verified pieces of a partial file', async () => {
+      // Piece 0 made it to disk, piece 1 was interrupted halfway
+      const piece1 = Buffer.alloc(16384, 0xAA);
+      const partial = Buffer.concat([piece1, Buffer.alloc(4000, 0xBB), Buffer.alloc(4000)]);
+
+      const filePath = storage.getStats().filePath;
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, partial);
+
+      const checked: any[] = [];
+      storage.on('piece_checked', (event) => checked.push(event));
+      await storage.initialize();
+
+      expect(checked).toEqual([
+        { pieceIndex: 0, valid: true, checkedPieces: 1, totalPieces: 2 },
+        { pieceIndex: 1, valid: false, checkedPieces: 2, totalPieces: 2 },
+      ]);
+      expect(storage.hasPiece(0)).toBe(true);
+      expect(storage.hasPiece(1)).toBe(false);
+      expect(storage.getStats().writtenSize).toBe(16384);
+
+      // Nothing on disk was lost
+      const onDisk = await fs.readFile(filePath);
+      expect(onDisk.subarray(0, 20384).equals(partial.subarray(0, 20384))).toBe(true);
+      expect(await storage.readPiece(0)).toEqual(piece1);
+    });
+
     test('handles incomplete existing file', async () => {
       // Pre-create incomplete file
       const partialFile = Buffer.alloc(1000, 0xFF);
@@ -464,6 +643,160 @@ describe('TorrentStorage', () => {
     });
   });
 
+  describe('Multi-file Layout', () => {
+    let multiMeta: TorrentMeta;
+    let content: Buffer;
+
+    beforeEach(() => {
+      // 3 files spanning 2 pieces: boundaries fall inside both pieces
+      content = Buffer.alloc(24384);
+      for (let i = 0; i < content.length; i++) {
+        content[i] = i % 251;
+      }
+
+      const piece1 = content.subarray(0, 16384);
+      const piece2 = content.subarray(16384);
+
+      multiMeta = {
+        ...torrentMeta,
+        name: 'album',
+        files: [
+          { path: ['disc1', 'track1.bin'], length: 10000, offset: 0 },
+          { path: ['empty.txt'], length: 0, offset: 10000 },
+          { path: ['disc1', 'track2.bin'], length: 10000, offset: 10000 },
+          { path: ['cover.bin'], length: 4384, offset: 20000 },
+        ],
+        pieces: Buffer.concat([
+          crypto.createHash('sha1').update(piece1).digest(),
+          crypto.createHash('sha1').update(piece2).digest(),
+        ]),
+      };
+    });
+
+    test('creates nested directory tree under torrent name', async () => {
+      const multiStorage = new TorrentStorage(multiMeta, tempDir);
+      await multiStorage.initialize();
+
+      const root = path.join(tempDir, 'album');
+      expect(multiStorage.getStats().filePath).toBe(root);
+      expect(multiStorage.getFilePaths()).toEqual([
+        path.join(root, 'disc1', 'track1.bin'),
+        path.join(root, 'empty.txt'),
+        path.join(root, 'disc1', 'track2.bin'),
+        path.join(root, 'cover.bin'),
+      ]);
+
+      const sizes = await Promise.all(multiStorage.getFilePaths().map(async (p) => (await fs.stat(p)).size));
+      expect(sizes).toEqual([10000, 0, 10000, 4384]);
+
+      await multiStorage.destroy();
+    });
+
+    test('writes pieces across file boundaries', async () => {
+      const multiStorage = new TorrentStorage(multiMeta, tempDir);
+      await multiStorage.initialize();
+
+      const completed = new Promise<void>((resolve) => {
+        multiStorage.on('download_completed', () => resolve());
+      });
+
+      multiStorage.addBlock(1, 0, content.subarray(16384));
+      multiStorage.addBlock(0, 0, content.subarray(0, 16384));
+
+      await completed;
+
+      const [track1, , track2, cover] = await Promise.all(
+        multiStorage.getFilePaths().map((p) => fs.readFile(p))
+      );
+      expect(track1.equals(content.subarray(0, 10000))).toBe(true);
+      expect(track2.equals(content.subarray(10000, 20000))).toBe(true);
+      expect(cover.equals(content.subarray(20000))).toBe(true);
+
+      const readBack = await multiStorage.readPiece(0);
+      expect(readBack.equals(content.subarray(0, 16384))).toBe(true);
+
+      await multiStorage.destroy();
+    });
+
+    test('detects complete existing multi-file download', async () => {
+      const root = path.join(tempDir, 'album');
+      await fs.mkdir(path.join(root, 'disc1'), { recursive: true });
+      await fs.writeFile(path.join(root, 'disc1', 'track1.bin'), content.subarray(0, 10000));
+      await fs.writeFile(path.join(root, 'empty.txt'), Buffer.alloc(0));
+      await fs.writeFile(path.join(root, 'disc1', 'track2.bin'), content.subarray(10000, 20000));
+      await fs.writeFile(path.join(root, 'cover.bin'), content.subarray(20000));
+
+      const multiStorage = new TorrentStorage(multiMeta, tempDir);
+      await multiStorage.initialize();
+
+      expect(multiStorage.isComplete()).toBe(true);
+      await multiStorage.destroy();
+    });
+
+    test('verifies pieces on a hash pool', async () => {
+      const root = path.join(tempDir, 'album');
+      await fs.mkdir(path.join(root, 'disc1'), { recursive: true });
+      await fs.writeFile(path.join(root, 'disc1', 'track1.bin'), content.subarray(0, 10000));
+      await fs.writeFile(path.join(root, 'disc1', 'track2.bin'), content.subarray(10000, 20000));
+
+      const hashPool = new HashPool({ size: 2 });
+      const multiStorage = new TorrentStorage(multiMeta, tempDir, 16384, { hashPool });
+      const checked: boolean[] = [];
+      multiStorage.on('piece_checked', (event) => checked.push(event.valid));
+
+      await multiStorage.initialize();
+
+      // Piece 1 reaches into cover.bin, which was missing
+      expect(checked).toEqual([true, false]);
+
+      const piece = Buffer.from(new SharedArrayBuffer(8000));
+      content.copy(piece, 0, 16384);
+      expect(await multiStorage.writePiece(1, Buffer.alloc(8000))).toBe(false);
+      expect(await multiStorage.writePiece(1, piece)).toBe(true);
+      expect(multiStorage.isComplete()).toBe(true);
+      // Recheck, both writes and the final check of the whole download
+      expect(hashPool.getStats().bytesHashed).toBe(16384 + 2 * 8000 + 24384);
+
+      await multiStorage.destroy();
+      await hashPool.destroy();
+    });
+
+    test('leaves skipped files unallocated until a wanted piece reaches them', async () => {
+      const splitMeta: TorrentMeta = {
+        ...torrentMeta,
+        name: 'split',
+        files: [
+          { path: ['a.bin'], length: 16384, offset: 0 },
+          { path: ['b.bin'], length: 8000, offset: 16384 },
+        ],
+      };
+      const priorities = new PiecePriorities(splitMeta);
+      priorities.setFilePriority(1, 'skip');
+
+      const splitStorage = new TorrentStorage(splitMeta, tempDir, 16384, { priorities });
+      await splitStorage.initialize();
+
+      const [first, second] = splitStorage.getFilePaths();
+      await expect(fs.stat(second)).rejects.toThrow();
+      expect(splitStorage.getStats()).toMatchObject({ allocatedSize: 16384, wantedSize: 16384, wantedWrittenSize: 0 });
+
+      expect(await splitStorage.writePiece(0, Buffer.alloc(16384, 0xAA))).toBe(true);
+      expect(splitStorage.isSelectionComplete()).toBe(true);
+      expect(splitStorage.isComplete()).toBe(false);
+
+      priorities.setFilePriority(1, 'normal');
+      splitStorage.updatePriorities();
+      expect(splitStorage.isSelectionComplete()).toBe(false);
+
+      expect(await splitStorage.writePiece(1, Buffer.alloc(8000, 0xBB))).toBe(true);
+      expect((await fs.stat(second)).size).toBe(8000);
+      expect((await fs.stat(first)).size).toBe(16384);
+      expect(splitStorage.isComplete()).toBe(true);
+
+      await splitStorage.destroy();
+    });
+  });
+
   describe('Error Handling', () => {
     test('handles initialization errors gracefully', async () => {
       // Try to create storage in read-only location (if possible)
@@ -496,6 +829,78 @@ describe('TorrentStorage', () => {
     });
   });
 
+  describe('Fast Resume', () => {
+    const piece1 = Buffer.alloc(16384, 0xAA);
+    const piece2 = Buffer.alloc(8000, 0xBB);
+
+    const reopen = async () => {
+      const reopened = new TorrentStorage(torrentMeta, path.join(tempDir, 'downloads'));
+      const checked: any[] = [];
+      const loaded: any[] = [];
+      reopened.on('piece_checked', (event) => checked.push(event));
+      reopened.on('resume_loaded', (event) => loaded.push(event));
+      await reopened.initialize();
+      return { reopened, checked, loaded };
+    };
+
+    test('trusts the record written on close while the files are unchanged', async () => {
+      await storage.initialize();
+      await storage.writePiece(0, piece1);
+      await storage.close();
+
+      const record = decodeResumeData(await fs.readFile(`${storage.getStats().filePath}.resume`));
+      expect(record?.infoHash.equals(torrentMeta.infoHashV1)).toBe(true);
+      expect(record?.pieces).toEqual(Buffer.from([0x80]));
+
+      const { reopened, checked, loaded } = await reopen();
+
+      expect(loaded).toEqual([{ completedPieces: 1, partialPieces: 0 }]);
+      expect(checked).toEqual([]);
+      expect(reopened.hasPiece(0)).toBe(true);
+      expect(reopened.hasPiece(1)).toBe(false);
+      await reopened.destroy();
+    });
+
+    test('falls back to a full recheck once the files changed', async () => {
+      await storage.initialize();
+      await storage.writePiece(0, piece1);
+      await storage.close();
+
+      // Another program wrote to the file since
+      const filePath = storage.getStats().filePath;
+      const handle = await fs.open(filePath, 'r+');
+      await handle.write(piece2, 0, piece2.length, 16384);
+      await handle.close();
+      await fs.utimes(filePath, new Date(), new Date(Date.now() + 5000));
+
+      const { reopened, checked, loaded } = await reopen();
+
+      expect(loaded).toEqual([]);
+      expect(checked.map(event => event.valid)).toEqual([true, true]);
+      expect(reopened.isComplete()).toBe(true);
+      await reopened.destroy();
+    });
+
+    test('keeps the blocks of unfinished pieces', async () => {
+      const small = new TorrentStorage(torrentMeta, path.join(tempDir, 'downloads'), 4096);
+      await small.initialize();
+
+      const data = Buffer.alloc(16384);
+      piece1.copy(data, 4096, 4096, 12288);
+      await small.writePartialPieces([{ pieceIndex: 0, data, receivedBlocks: new Set([4096, 8192]) }]);
+      await small.close();
+
+      const reopened = new TorrentStorage(torrentMeta, path.join(tempDir, 'downloads'), 4096);
+      await reopened.initialize();
+      const [partial] = await reopened.readPartialPieces();
+
+      expect(partial.pieceIndex).toBe(0);
+      expect(partial.receivedBlocks).toEqual(new Set([4096, 8192]));
+      expect(partial.data.subarray(4096, 12288).equals(piece1.subarray(4096, 12288))).toBe(true);
+      await reopened.destroy();
+    });
+  });
+
   describe('Cleanup', () => {
     test('closes file handle properly', async () => {
       await storage.initialize();
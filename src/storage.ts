@@ -2,7 +2,13 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as crypto from 'crypto';
 import { EventEmitter } from 'events';
-import { TorrentMeta, Piece, getPieceMap, getFileOffset } from './metainfo';
+import { TorrentMeta, Piece, getPieceMap, getFileOffset, getFiles, mapRangeToFiles } from './metainfo';
+import { PiecePriorities } from './priorities';
+import { BitSet } from './peer';
+import { ResumeData, ResumeFileState, encodeResumeData, decodeResumeData } from './resume';
+import { HashPool } from './hash-pool';
+import { DiskCache } from './disk-cache';
+import { ReadCache } from './read-cache';
 
 export class StorageError extends Error {
   constructor(message: string) {
@@ -15,44 +21,93 @@ export interface StorageStats {
   totalSize: number;
   allocatedSize: number;
   writtenSize: number;
+  wantedSize: number;        // bytes of the pieces selected for download
+  wantedWrittenSize: number; // verified bytes of those pieces
   verifiedPieces: number;
   totalPieces: number;
   filePath: string;
   isComplete: boolean;
+  cachedBytes: number;     // verified bytes waiting in the disk cache
+  cacheQueueDepth: number; // verified pieces waiting in the disk cache
+  cacheHits: number;       // piece reads served by the disk cache
+  cacheMisses: number;
+  readCacheBytes: number;  // pieces kept in memory for uploads
+  readCacheHits: number;
+  readCacheMisses: number;
+  readCacheEvictions: number;
+}
+
+export interface StorageOptions {
+  priorities?: PiecePriorities;
+  resumePath?: string; // defaults to next to the data
+  hashPool?: HashPool; // hashes on the main thread without one
+  cacheSize?: number;  // disk cache budget in bytes, see DiskCache
+  readCacheSize?: number; // read cache cap in bytes, see ReadCache
+}
+
+export interface StorageFile {
+  path: string;
+  length: number;
+  offset: number; // byte offset within the torrent data
+  handle?: fs.FileHandle;
+}
+
+// Blocks of a piece that is still downloading; data holds the whole piece, valid at receivedBlocks
+export interface PartialPiece {
+  pieceIndex: number;
+  data: Buffer;
+  receivedBlocks: Set<number>;
 }
 
 export interface PieceBuffer {
   pieceIndex: number;
   data: Buffer;
-  receivedBlocks: Map<number, Buffer>; // offset -> block data
+  receivedBlocks: Set<number>; // set of received block offsets
   expectedLength: number;
   isComplete: boolean;
 }
 
 export class TorrentStorage extends EventEmitter {
+  private static readonly RESUME_SAVE_INTERVAL = 60000;
+
   private readonly torrentMeta: TorrentMeta;
   private readonly pieces: Piece[];
   private readonly outputPath: string;
   private readonly blockSize: number;
+  private readonly priorities: PiecePriorities;
+  private readonly resumePath: string;
+  private readonly hashPool?: HashPool;
+  private readonly cache: DiskCache;
+  private readonly readCache: ReadCache;
+  private readonly pendingReads: Map<number, Promise<Buffer>> = new Map();
 
   // File handling
-  private fileHandle?: fs.FileHandle;
+  private readonly files: StorageFile[];
   private filePath: string;
+  private filesOpen = false;
   private fileAllocated = false;
 
   // Piece management
   private readonly pieceBuffers: Map<number, PieceBuffer> = new Map();
   private readonly completedPieces: Set<number> = new Set();
   private readonly verifiedHashes: Map<number, Buffer> = new Map();
+  private readonly partialBlocks: Map<number, Set<number>> = new Map(); // piece -> unverified blocks on disk
+
+  // Fast resume
+  private resumeTimer?: NodeJS.Timeout;
+  private resumeDirty = false;
   
   // Statistics
   private writtenBytes = 0;
   private verifiedPieces = 0;
+  private wantedWrittenBytes = 0;
+  private wantedCompleted = 0;
 
   constructor(
     torrentMeta: TorrentMeta,
     outputPath: string,
-    blockSize: number = 16384
+    blockSize: number = 16384,
+    options: StorageOptions = {}
   ) {
     super();
 
@@ -60,15 +115,30 @@ export class TorrentStorage extends EventEmitter {
     this.pieces = getPieceMap(torrentMeta);
     this.outputPath = outputPath;
     this.blockSize = blockSize;
+    this.priorities = options.priorities ?? new PiecePriorities(torrentMeta);
+    this.hashPool = options.hashPool;
+    this.cache = new DiskCache((offset, data) => this.writeRange(data, offset), { size: options.cacheSize });
+    this.cache.on('flush_failed', (event) => this.emit('cache_flush_failed', event));
+    this.readCache = new ReadCache(options.readCacheSize);
 
     // Determine output file path
-    if (path.extname(outputPath)) {
+    if (torrentMeta.files) {
+      // Multi-file torrent, files live under a directory named after the torrent
+      this.filePath = path.join(outputPath, torrentMeta.name);
+    } else if (path.extname(outputPath)) {
       // Specific file path provided
       this.filePath = outputPath;
     } else {
       // Directory provided, use torrent name
       this.filePath = path.join(outputPath, torrentMeta.name);
     }
+    this.resumePath = options.resumePath ?? `${this.filePath}.resume`;
+
+    this.files = getFiles(torrentMeta).map((file) => ({
+      path: torrentMeta.files ? path.join(this.filePath, ...file.path) : this.filePath,
+      length: file.length,
+      offset: file.offset,
+    }));
 
     // Pre-calculate piece hashes for verification
     for (let i = 0; i < this.pieces.length; i++) {
@@ -80,21 +150,35 @@ export class TorrentStorage extends EventEmitter {
 
   async initialize(): Promise<void> {
     try {
-      // Ensure output directory exists
-      const dir = path.dirname(this.filePath);
-      await fs.mkdir(dir, { recursive: true });
+      // Open existing files without truncating them, and create the ones wanted pieces touch;
+      // skipped ones are created if that changes
+      let existing = false;
+      for (const [index, file] of this.files.entries()) {
+        if (await this.fileExists(file.path)) {
+          // Read-only copies can still be seeded
+          file.handle = await fs.open(file.path, 'r+').catch(() => fs.open(file.path, 'r'));
+          existing = true;
+        } else if (this.priorities.isFileWanted(index)) {
+          await fs.mkdir(path.dirname(file.path), { recursive: true });
+          file.handle = await fs.open(file.path, 'w+');
+        }
+      }
+      this.filesOpen = true;
 
-      // Check if file already exists and is complete
-      const existingStats = await this.checkExistingFile();
-      
-      if (existingStats.isComplete) {
+      // Pick up whatever an earlier run left behind, before allocation pads the files with zeros.
+      // The resume record is trusted while the files look untouched since it was written.
+      if (existing && !(await this.loadResumeData())) {
+        await this.recheck();
+      }
+
+      this.startResumeTimer();
+
+      if (this.isComplete()) {
+        this.fileAllocated = true;
         this.emit('already_complete');
         return;
       }
 
-      // Open or create the file
-      this.fileHandle = await fs.open(this.filePath, 'w+'); // Read/write, create if not exists
-
       // Allocate file space if needed
       await this.allocateFile();
 
@@ -109,46 +193,202 @@ export class TorrentStorage extends EventEmitter {
     }
   }
 
-  private async checkExistingFile(): Promise<{ isComplete: boolean; size: number }> {
+  private async fileExists(filePath: string): Promise<boolean> {
     try {
-      const stats = await fs.stat(this.filePath);
-      
-      if (stats.size === this.torrentMeta.length) {
-        // File exists with correct size, verify it's complete
-        const isComplete = await this.verifyCompleteFile();
-        return { isComplete, size: stats.size };
+      return (await fs.stat(filePath)).isFile();
+    } catch {
+      return false;
+    }
+  }
+
+  // Hashes every piece found on disk and marks the good ones completed, emitting piece_checked
+  // for each. Pieces reaching into missing or short files are skipped unhashed. With a hash
+  // pool, one batch of pieces per worker is checked at a time.
+  private async recheck(): Promise<void> {
+    const batchSize = this.hashPool?.size ?? 1;
+
+    for (let start = 0; start < this.pieces.length; start += batchSize) {
+      const batch = this.pieces.slice(start, start + batchSize);
+      const results = await Promise.all(batch.map(piece => this.verifyStoredPiece(piece)));
+
+      for (const [i, piece] of batch.entries()) {
+        const valid = results[i];
+        if (valid && !this.completedPieces.has(piece.index)) {
+          this.completedPieces.add(piece.index);
+          this.verifiedPieces++;
+          this.writtenBytes += piece.length;
+        }
+
+        this.emit('piece_checked', {
+          pieceIndex: piece.index,
+          valid,
+          checkedPieces: piece.index + 1,
+          totalPieces: this.pieces.length,
+        });
       }
-      
-      return { isComplete: false, size: stats.size };
-    } catch (error) {
-      // File doesn't exist or can't be accessed
-      return { isComplete: false, size: 0 };
     }
+
+    this.updatePriorities();
+  }
+
+  private async loadResumeData(): Promise<boolean> {
+    let data: ResumeData | undefined;
+    try {
+      data = decodeResumeData(await fs.readFile(this.resumePath));
+    } catch {
+      return false; // First run or unreadable record
+    }
+
+    if (!data || !data.infoHash.equals(this.torrentMeta.infoHashV1) ||
+      data.pieces.length !== Math.ceil(this.pieces.length / 8) || data.files.length !== this.files.length) {
+      return false;
+    }
+
+    const fileStates = await this.getFileStates();
+    const unchanged = fileStates.every((state, index) => {
+      const recorded = data!.files[index];
+      return state === null ? recorded === null : recorded?.size === state.size && recorded.mtime === state.mtime;
+    });
+    if (!unchanged) {
+      return false;
+    }
+
+    const bitfield = BitSet.fromBuffer(data.pieces, this.pieces.length);
+    for (const piece of this.pieces) {
+      if (bitfield.get(piece.index) && !this.completedPieces.has(piece.index)) {
+        this.completedPieces.add(piece.index);
+        this.verifiedPieces++;
+        this.writtenBytes += piece.length;
+      }
+    }
+
+    // Block offsets only line up with the same block size
+    if (data.blockSize === this.blockSize) {
+      for (const [pieceIndex, blocks] of data.partial) {
+        if (this.pieces[pieceIndex] && !this.completedPieces.has(pieceIndex)) {
+          this.partialBlocks.set(pieceIndex, new Set(blocks));
+        }
+      }
+    }
+
+    this.updatePriorities();
+    this.emit('resume_loaded', {
+      completedPieces: this.completedPieces.size,
+      partialPieces: this.partialBlocks.size,
+    });
+    return true;
+  }
+
+  // Writes the resume record: verified pieces, partial blocks and what the files look like on disk
+  async saveResumeData(): Promise<void> {
+    if (!this.filesOpen) {
+      return;
+    }
+
+    // Snapshot first; pieces completing while we sync change the mtimes and invalidate the record
+    const bitfield = new BitSet(this.pieces.length);
+    for (const pieceIndex of this.completedPieces) {
+      bitfield.set(pieceIndex);
+    }
+    const partial = new Map(Array.from(this.partialBlocks, ([pieceIndex, blocks]) => [pieceIndex, Array.from(blocks)]));
+    this.resumeDirty = false;
+
+    await this.cache.flush();
+    await this.syncFiles();
+    const record = encodeResumeData({
+      infoHash: this.torrentMeta.infoHashV1,
+      blockSize: this.blockSize,
+      pieces: bitfield.toBuffer(),
+      files: await this.getFileStates(),
+      partial,
+    });
+
+    // Replace the old record in one step so a crash never leaves half of one
+    const tempPath = `${this.resumePath}.tmp`;
+    await fs.mkdir(path.dirname(this.resumePath), { recursive: true });
+    await fs.writeFile(tempPath, record);
+    await fs.rename(tempPath, this.resumePath);
+  }
+
+  private async getFileStates(): Promise<(ResumeFileState | null)[]> {
+    const states: (ResumeFileState | null)[] = [];
+    for (const file of this.files) {
+      try {
+        const stats = await fs.stat(file.path);
+        states.push({ size: stats.size, mtime: Math.floor(stats.mtimeMs) });
+      } catch {
+        states.push(null);
+      }
+    }
+    return states;
+  }
+
+  private startResumeTimer(): void {
+    this.resumeTimer = setInterval(() => {
+      if (this.resumeDirty) {
+        this.saveResumeData().catch((error) => {
+          this.emit('resume_save_failed', { error: error instanceof Error ? error.message : 'Unknown error' });
+        });
+      }
+    }, TorrentStorage.RESUME_SAVE_INTERVAL);
+  }
+
+  private async hash(data: Buffer): Promise<Buffer> {
+    if (this.hashPool) {
+      return this.hashPool.hashPiece(data);
+    }
+    return crypto.createHash('sha1').update(data).digest();
+  }
+
+  // Hash of a piece as stored on disk, undefined if part of it is missing. The pool
+  // reads the files itself, so the piece never passes through the main thread.
+  private async hashStoredPiece(piece: Piece): Promise<Buffer | undefined> {
+    const offset = getFileOffset(piece.index, this.torrentMeta.pieceLength);
+
+    if (this.hashPool) {
+      const spans = mapRangeToFiles(this.files, offset, piece.length);
+      if (spans.some(span => !this.files[span.fileIndex].handle)) {
+        return undefined;
+      }
+
+      const ranges = spans.map(span => ({
+        file: this.files[span.fileIndex].path,
+        offset: span.fileOffset,
+        length: span.length,
+      }));
+      return this.hashPool.hashRanges(ranges).catch(() => undefined);
+    }
+
+    const pieceData = Buffer.alloc(piece.length);
+    const bytesRead = await this.readRange(pieceData, offset);
+    return bytesRead === piece.length ? this.hash(pieceData) : undefined;
+  }
+
+  private async verifyStoredPiece(piece: Piece): Promise<boolean> {
+    const actualHash = await this.hashStoredPiece(piece);
+    return !!actualHash && this.isExpectedHash(piece.index, actualHash);
+  }
+
+  private isExpectedHash(pieceIndex: number, actualHash: Buffer): boolean {
+    const expectedHash = this.verifiedHashes.get(pieceIndex);
+    return !!expectedHash && actualHash.equals(expectedHash);
   }
 
   private async verifyCompleteFile(): Promise<boolean> {
-    let tempHandle: fs.FileHandle | undefined;
+    const tempHandles: fs.FileHandle[] = [];
     
     try {
-      // Open file for reading if we don't have a handle yet
-      const handle = this.fileHandle || await fs.open(this.filePath, 'r');
-      tempHandle = this.fileHandle ? undefined : handle;
+      // Open files for reading if we don't have handles yet
+      for (const file of this.files) {
+        if (!file.handle) {
+          file.handle = await fs.open(file.path, 'r');
+          tempHandles.push(file.handle);
+        }
+      }
 
       // Verify each piece hash
       for (const piece of this.pieces) {
-        const offset = getFileOffset(piece.index, this.torrentMeta.pieceLength);
-        const pieceData = Buffer.alloc(piece.length);
-        
-        const { bytesRead } = await handle.read(pieceData, 0, piece.length, offset);
-        
-        if (bytesRead !== piece.length) {
-          return false;
-        }
-
-        const actualHash = crypto.createHash('sha1').update(pieceData).digest();
-        const expectedHash = this.verifiedHashes.get(piece.index);
-        
-        if (!expectedHash || !actualHash.equals(expectedHash)) {
+        if (!await this.verifyStoredPiece(piece)) {
           return false;
         }
       }
@@ -160,35 +400,44 @@ export class TorrentStorage extends EventEmitter {
       for (let i = 0; i < this.pieces.length; i++) {
         this.completedPieces.add(i);
       }
+      this.updatePriorities();
 
       return true;
     } catch (error) {
       return false;
     } finally {
-      // Close temporary handle if we opened one
-      if (tempHandle) {
-        try {
-          await tempHandle.close();
-        } catch {
-          // Ignore close errors
+      // Close temporary handles if we opened any
+      for (const file of this.files) {
+        if (file.handle && tempHandles.includes(file.handle)) {
+          try {
+            await file.handle.close();
+          } catch {
+            // Ignore close errors
+          }
+          file.handle = undefined;
         }
       }
     }
   }
 
   private async allocateFile(): Promise<void> {
-    if (!this.fileHandle || this.fileAllocated) {
+    if (!this.filesOpen || this.fileAllocated) {
       return;
     }
 
     try {
-      // Truncate/extend file to final size to pre-allocate space
-      await this.fileHandle.truncate(this.torrentMeta.length);
+      // Truncate/extend each open file to its final size to pre-allocate space
+      // Files already at their size are left alone, truncating would bump their mtime
+      for (const file of this.files) {
+        if (file.handle && (await file.handle.stat()).size !== file.length) {
+          await file.handle.truncate(file.length);
+        }
+      }
       this.fileAllocated = true;
 
       this.emit('file_allocated', {
         filePath: this.filePath,
-        size: this.torrentMeta.length,
+        size: this.getAllocatedSize(),
       });
 
     } catch (error) {
@@ -196,6 +445,65 @@ export class TorrentStorage extends EventEmitter {
     }
   }
 
+  private async writeRange(data: Buffer, offset: number): Promise<void> {
+    // Skipped files would be created afresh below, never once closed
+    if (!this.filesOpen) {
+      throw new StorageError('Storage not initialized');
+    }
+
+    let dataOffset = 0;
+
+    for (const span of mapRangeToFiles(this.files, offset, data.length)) {
+      const file = this.files[span.fileIndex];
+      const handle = file.handle ?? await this.openFile(file);
+
+      await handle.write(data, dataOffset, span.length, span.fileOffset);
+      dataOffset += span.length;
+    }
+  }
+
+  // Creates a file that was skipped at startup once a wanted piece reaches into it
+  private async openFile(file: StorageFile): Promise<fs.FileHandle> {
+    await fs.mkdir(path.dirname(file.path), { recursive: true });
+    const handle = await fs.open(file.path, 'w+');
+    await handle.truncate(file.length);
+    file.handle = handle;
+    return handle;
+  }
+
+  private getAllocatedSize(): number {
+    return this.files.reduce((size, file) => size + (file.handle ? file.length : 0), 0);
+  }
+
+  private async readRange(buffer: Buffer, offset: number): Promise<number> {
+    let totalRead = 0;
+
+    for (const span of mapRangeToFiles(this.files, offset, buffer.length)) {
+      // Skipped files were never created, so there's nothing to read
+      const handle = this.files[span.fileIndex].handle;
+      if (!handle) {
+        break;
+      }
+
+      const { bytesRead } = await handle.read(buffer, totalRead, span.length, span.fileOffset);
+      totalRead += bytesRead;
+
+      if (bytesRead !== span.length) {
+        break;
+      }
+    }
+
+    return totalRead;
+  }
+
+  private async syncFiles(): Promise<void> {
+    for (const file of this.files) {
+      if (file.handle) {
+        await file.handle.sync();
+      }
+    }
+  }
+
   addBlock(pieceIndex: number, blockOffset: number, blockData: Buffer): void {
     if (pieceIndex < 0 || pieceIndex >= this.pieces.length) {
       throw new StorageError(`Invalid piece index: ${pieceIndex}`);
@@ -219,7 +527,7 @@ export class TorrentStorage extends EventEmitter {
       pieceBuffer = {
         pieceIndex,
         data: Buffer.alloc(piece.length),
-        receivedBlocks: new Map(),
+        receivedBlocks: new Set(),
         expectedLength: piece.length,
         isComplete: false,
       };
@@ -234,7 +542,7 @@ export class TorrentStorage extends EventEmitter {
 
     // Add block to piece buffer
     blockData.copy(pieceBuffer.data, blockOffset);
-    pieceBuffer.receivedBlocks.set(blockOffset, blockData);
+    pieceBuffer.receivedBlocks.add(blockOffset);
 
     // Check if piece is complete
     const expectedBlocks = Math.ceil(piece.length / this.blockSize);
@@ -253,75 +561,93 @@ export class TorrentStorage extends EventEmitter {
 
   private async completePiece(pieceIndex: number): Promise<void> {
     const pieceBuffer = this.pieceBuffers.get(pieceIndex);
-    const piece = this.pieces[pieceIndex];
-    
-    if (!pieceBuffer || !piece || !this.fileHandle) {
+    if (!pieceBuffer || !this.filesOpen) {
       return;
     }
 
     try {
-      // Verify piece hash
-      const actualHash = crypto.createHash('sha1').update(pieceBuffer.data).digest();
-      const expectedHash = this.verifiedHashes.get(pieceIndex);
-
-      if (!expectedHash || !actualHash.equals(expectedHash)) {
-        this.emit('piece_hash_failed', {
-          pieceIndex,
-          expectedHash: expectedHash?.toString('hex'),
-          actualHash: actualHash.toString('hex'),
-        });
+      await this.writePiece(pieceIndex, pieceBuffer.data);
+    } catch {
+      // Already reported through piece_write_failed
+    } finally {
+      // Remove the buffer either way; a failed piece is downloaded again
+      this.pieceBuffers.delete(pieceIndex);
+    }
+  }
 
-        // Remove invalid piece buffer
-        this.pieceBuffers.delete(pieceIndex);
-        return;
-      }
+  // Verifies a fully assembled piece and writes it out. Resolves false if the
+  // hash doesn't match and rejects if the piece couldn't be written.
+  async writePiece(pieceIndex: number, data: Buffer): Promise<boolean> {
+    this.validatePieceIndex(pieceIndex);
 
-      // Write piece to file at correct offset
-      const fileOffset = getFileOffset(pieceIndex, this.torrentMeta.pieceLength);
-      
-      await this.fileHandle.write(pieceBuffer.data, 0, piece.length, fileOffset);
-      
-      // Ensure data is written to disk
-      await this.fileHandle.sync();
+    const piece = this.pieces[pieceIndex];
+    if (data.length !== piece.length) {
+      throw new StorageError(`Invalid piece size: expected ${piece.length}, got ${data.length}`);
+    }
+
+    if (!this.filesOpen) {
+      throw new StorageError('Storage not initialized');
+    }
 
-      // Update tracking
-      this.completedPieces.add(pieceIndex);
-      this.verifiedPieces++;
-      this.writtenBytes += piece.length;
+    if (this.completedPieces.has(pieceIndex)) {
+      return true;
+    }
 
-      // Clean up piece buffer
-      this.pieceBuffers.delete(pieceIndex);
+    const actualHash = await this.hash(data);
+    const expectedHash = this.verifiedHashes.get(pieceIndex);
 
-      this.emit('piece_completed', {
+    if (!expectedHash || !actualHash.equals(expectedHash)) {
+      this.emit('piece_hash_failed', {
         pieceIndex,
-        length: piece.length,
-        fileOffset,
-        totalCompleted: this.completedPieces.size,
-        totalPieces: this.pieces.length,
+        expectedHash: expectedHash?.toString('hex'),
+        actualHash: actualHash.toString('hex'),
       });
+      return false;
+    }
 
-      // Check if download is complete
-      if (this.completedPieces.size === this.pieces.length) {
-        await this.handleDownloadComplete();
-      }
+    const fileOffset = getFileOffset(pieceIndex, this.torrentMeta.pieceLength);
 
+    try {
+      // Queued in the disk cache, written out with its neighbours and synced at checkpoints
+      await this.cache.put(fileOffset, data);
     } catch (error) {
-      this.emit('piece_write_failed', {
-        pieceIndex,
-        error: error instanceof Error ? error.message : 'Unknown error',
-      });
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.emit('piece_write_failed', { pieceIndex, error: message });
+      throw new StorageError(`Failed to write piece ${pieceIndex}: ${message}`);
+    }
 
-      // Remove failed piece buffer for retry
-      this.pieceBuffers.delete(pieceIndex);
+    // Update tracking
+    this.completedPieces.add(pieceIndex);
+    this.partialBlocks.delete(pieceIndex);
+    this.resumeDirty = true;
+    this.verifiedPieces++;
+    this.writtenBytes += piece.length;
+    if (this.priorities.isWanted(pieceIndex)) {
+      this.wantedCompleted++;
+      this.wantedWrittenBytes += piece.length;
+    }
+
+    this.emit('piece_completed', {
+      pieceIndex,
+      length: piece.length,
+      fileOffset,
+      totalCompleted: this.completedPieces.size,
+      totalPieces: this.pieces.length,
+    });
+
+    // Check if download is complete
+    if (this.completedPieces.size === this.pieces.length) {
+      await this.handleDownloadComplete();
     }
+
+    return true;
   }
 
   private async handleDownloadComplete(): Promise<void> {
     try {
-      // Final sync to ensure all data is written
-      if (this.fileHandle) {
-        await this.fileHandle.sync();
-      }
+      // Final flush and sync to ensure all data is written
+      await this.cache.flush();
+      await this.syncFiles();
 
       // Perform final verification
       const isValid = await this.verifyCompleteFile();
@@ -397,14 +723,26 @@ export class TorrentStorage extends EventEmitter {
   }
 
   getStats(): StorageStats {
+    const cache = this.cache.getStats();
+    const readCache = this.readCache.getStats();
     return {
       totalSize: this.torrentMeta.length,
-      allocatedSize: this.fileAllocated ? this.torrentMeta.length : 0,
+      allocatedSize: this.fileAllocated ? this.getAllocatedSize() : 0,
       writtenSize: this.writtenBytes,
+      wantedSize: this.priorities.getWantedBytes(),
+      wantedWrittenSize: this.wantedWrittenBytes,
       verifiedPieces: this.verifiedPieces,
       totalPieces: this.pieces.length,
       filePath: this.filePath,
       isComplete: this.completedPieces.size === this.pieces.length,
+      cachedBytes: cache.dirtyBytes,
+      cacheQueueDepth: cache.queueDepth,
+      cacheHits: cache.hits,
+      cacheMisses: cache.misses,
+      readCacheBytes: readCache.cachedBytes,
+      readCacheHits: readCache.hits,
+      readCacheMisses: readCache.misses,
+      readCacheEvictions: readCache.evictions,
     };
   }
 
@@ -423,13 +761,54 @@ export class TorrentStorage extends EventEmitter {
     return this.completedPieces.size === this.pieces.length;
   }
 
+  // Every wanted piece is verified; the same as isComplete unless files or pieces are skipped
+  isSelectionComplete(): boolean {
+    return this.wantedCompleted === this.priorities.getWantedPieces();
+  }
+
+  // Recounts completed wanted pieces after the shared priorities changed
+  updatePriorities(): void {
+    this.wantedCompleted = 0;
+    this.wantedWrittenBytes = 0;
+
+    for (const pieceIndex of this.completedPieces) {
+      if (this.priorities.isWanted(pieceIndex)) {
+        this.wantedCompleted++;
+        this.wantedWrittenBytes += this.pieces[pieceIndex].length;
+      }
+    }
+  }
+
   getCompletedPieces(): Set<number> {
     return new Set(this.completedPieces);
   }
 
+  getFilePaths(): string[] {
+    return this.files.map((file) => file.path);
+  }
+
   // File operations
   async readPiece(pieceIndex: number): Promise<Buffer> {
-    if (!this.fileHandle) {
+    return Buffer.from(await this.loadPiece(pieceIndex));
+  }
+
+  // A block of a completed piece. The first request for a piece reads the whole piece ahead
+  // into the read cache, so the rest of the peer's requests for it don't touch the disk.
+  // The block is shared with the cache and must not be modified.
+  async readBlock(pieceIndex: number, begin: number, length: number): Promise<Buffer> {
+    this.validatePieceIndex(pieceIndex);
+
+    const piece = this.pieces[pieceIndex];
+    if (begin < 0 || length <= 0 || begin + length > piece.length) {
+      throw new StorageError(`Block out of bounds for piece ${pieceIndex}: ${begin}+${length}`);
+    }
+
+    const pieceData = await this.loadPiece(pieceIndex);
+    return pieceData.subarray(begin, begin + length);
+  }
+
+  private async loadPiece(pieceIndex: number): Promise<Buffer> {
+    if (!this.filesOpen) {
       throw new StorageError('Storage not initialized');
     }
 
@@ -437,27 +816,104 @@ export class TorrentStorage extends EventEmitter {
       throw new StorageError(`Piece ${pieceIndex} not completed`);
     }
 
+    const cached = this.readCache.get(pieceIndex);
+    if (cached) {
+      return cached;
+    }
+
+    // Peers asking for the same piece at once share one read
+    let pending = this.pendingReads.get(pieceIndex);
+    if (!pending) {
+      pending = this.readStoredPiece(pieceIndex).finally(() => this.pendingReads.delete(pieceIndex));
+      this.pendingReads.set(pieceIndex, pending);
+    }
+    return pending;
+  }
+
+  private async readStoredPiece(pieceIndex: number): Promise<Buffer> {
     const piece = this.pieces[pieceIndex];
     const offset = getFileOffset(pieceIndex, this.torrentMeta.pieceLength);
-    const pieceData = Buffer.alloc(piece.length);
 
-    try {
-      const { bytesRead } = await this.fileHandle.read(pieceData, 0, piece.length, offset);
-      
-      if (bytesRead !== piece.length) {
-        throw new StorageError(`Failed to read complete piece ${pieceIndex}`);
+    // Pieces still waiting to be written are served from the disk cache
+    let pieceData = this.cache.read(offset, piece.length);
+    if (!pieceData) {
+      pieceData = Buffer.alloc(piece.length);
+      try {
+        const bytesRead = await this.readRange(pieceData, offset);
+
+        if (bytesRead !== piece.length) {
+          throw new StorageError(`Failed to read complete piece ${pieceIndex}`);
+        }
+      } catch (error) {
+        throw new StorageError(`Failed to read piece ${pieceIndex}: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
+    }
 
-      return pieceData;
-    } catch (error) {
-      throw new StorageError(`Failed to read piece ${pieceIndex}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    // Unless the piece failed a repair while it was being read
+    if (this.completedPieces.has(pieceIndex)) {
+      this.readCache.set(pieceIndex, pieceData);
     }
+    return pieceData;
   }
 
+  // Writes the blocks of pieces still downloading to disk, so a restart continues from them
+  async writePartialPieces(partialPieces: PartialPiece[]): Promise<void> {
+    if (!this.filesOpen) {
+      throw new StorageError('Storage not initialized');
+    }
+
+    for (const partial of partialPieces) {
+      const piece = this.pieces[partial.pieceIndex];
+      if (!piece || this.completedPieces.has(partial.pieceIndex)) {
+        continue;
+      }
+
+      const pieceOffset = getFileOffset(partial.pieceIndex, this.torrentMeta.pieceLength);
+      for (const blockOffset of partial.receivedBlocks) {
+        const length = Math.min(this.blockSize, piece.length - blockOffset);
+        await this.writeRange(partial.data.subarray(blockOffset, blockOffset + length), pieceOffset + blockOffset);
+      }
+
+      this.partialBlocks.set(partial.pieceIndex, new Set(partial.receivedBlocks));
+      this.resumeDirty = true;
+    }
+  }
+
+  // Reads back the partial blocks the resume record listed
+  async readPartialPieces(): Promise<PartialPiece[]> {
+    const partialPieces: PartialPiece[] = [];
+
+    for (const [pieceIndex, blocks] of this.partialBlocks) {
+      const piece = this.pieces[pieceIndex];
+      const pieceOffset = getFileOffset(pieceIndex, this.torrentMeta.pieceLength);
+      const partial: PartialPiece = { pieceIndex, data: Buffer.alloc(piece.length), receivedBlocks: new Set() };
+
+      for (const blockOffset of blocks) {
+        const length = Math.min(this.blockSize, piece.length - blockOffset);
+        if (blockOffset % this.blockSize !== 0 || length <= 0) {
+          continue;
+        }
+
+        const bytesRead = await this.readRange(partial.data.subarray(blockOffset, blockOffset + length), pieceOffset + blockOffset);
+        if (bytesRead === length) {
+          partial.receivedBlocks.add(blockOffset);
+        }
+      }
+
+      if (partial.receivedBlocks.size > 0) {
+        partialPieces.push(partial);
+      }
+    }
+
+    return partialPieces;
+  }
+
+  // Writes out the disk cache and syncs the files
   async flush(): Promise<void> {
-    if (this.fileHandle) {
+    if (this.filesOpen) {
       try {
-        await this.fileHandle.sync();
+        await this.cache.flush();
+        await this.syncFiles();
       } catch (error) {
         throw new StorageError(`Failed to flush file: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
@@ -466,10 +922,24 @@ export class TorrentStorage extends EventEmitter {
 
   // Cleanup
   async close(): Promise<void> {
+    if (this.resumeTimer) {
+      clearInterval(this.resumeTimer);
+      this.resumeTimer = undefined;
+    }
+
     try {
-      if (this.fileHandle) {
-        await this.fileHandle.close();
-        this.fileHandle = undefined;
+      await this.saveResumeData();
+    } catch (error) {
+      this.emit('resume_save_failed', { error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+
+    try {
+      this.filesOpen = false;
+      for (const file of this.files) {
+        if (file.handle) {
+          await file.handle.close();
+          file.handle = undefined;
+        }
       }
     } catch (error) {
       throw new StorageError(`Failed to close file: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -480,9 +950,16 @@ export class TorrentStorage extends EventEmitter {
     await this.close();
     
     // Clear all buffers and state
+    this.cache.destroy();
+    this.readCache.clear();
     this.pieceBuffers.clear();
     this.completedPieces.clear();
+    this.partialBlocks.clear();
     this.verifiedHashes.clear();
+    this.verifiedPieces = 0;
+    this.writtenBytes = 0;
+    this.wantedCompleted = 0;
+    this.wantedWrittenBytes = 0;
     
     this.removeAllListeners();
   }
@@ -511,28 +988,24 @@ export class TorrentStorage extends EventEmitter {
 
   // Recovery and maintenance
   async repairFile(): Promise<boolean> {
-    if (!this.fileHandle) {
+    if (!this.filesOpen) {
       return false;
     }
 
     try {
       let repairedPieces = 0;
 
+      // Hashing reads the files, so they need everything the cache holds
+      await this.cache.flush();
+
       // Verify all pieces and identify corrupted ones
       for (const piece of this.pieces) {
-        const offset = getFileOffset(piece.index, this.torrentMeta.pieceLength);
-        const pieceData = Buffer.alloc(piece.length);
-        
-        const { bytesRead } = await this.fileHandle.read(pieceData, 0, piece.length, offset);
-        
-        if (bytesRead !== piece.length) {
+        const actualHash = await this.hashStoredPiece(piece);
+        if (!actualHash) {
           continue;
         }
 
-        const actualHash = crypto.createHash('sha1').update(pieceData).digest();
-        const expectedHash = this.verifiedHashes.get(piece.index);
-        
-        if (expectedHash && actualHash.equals(expectedHash)) {
+        if (this.isExpectedHash(piece.index, actualHash)) {
           if (!this.completedPieces.has(piece.index)) {
             this.completedPieces.add(piece.index);
             this.verifiedPieces++;
@@ -543,12 +1016,15 @@ export class TorrentStorage extends EventEmitter {
           // Remove corrupted piece from completed set
           if (this.completedPieces.has(piece.index)) {
             this.completedPieces.delete(piece.index);
+            this.readCache.delete(piece.index);
             this.verifiedPieces--;
             this.writtenBytes -= piece.length;
           }
         }
       }
 
+      this.updatePriorities();
+
       if (repairedPieces > 0) {
         this.emit('file_repaired', {
           repairedPieces,
@@ -0,0 +1,178 @@
+import * as crypto from 'crypto';
+import { TrackerManager } from './tracker-manager';
+import { TrackerClient, TrackerError, AnnounceRequest, generatePeerId } from './tracker';
+import { UdpTrackerClient } from './udp-tracker';
+import { TorrentMeta } from './metainfo';
+
+describe('TrackerManager', () => {
+  let torrentMeta: TorrentMeta;
+  let request: AnnounceRequest;
+  let httpAnnounce: jest.SpyInstance;
+  let udpAnnounce: jest.SpyInstance;
+  let random: jest.SpyInstance;
+  let failing: Set<string>;
+
+  const response = (url: string) => ({
+    interval: 1800,
+    complete: 5,
+    incomplete: 2,
+    trackerId: `id-${url}`,
+    peers: [{ ip: '10.0.0.1', port: 6881 }],
+  });
+
+  beforeEach(() => {
+    failing = new Set();
+
+    const fakeAnnounce = async (url: string) => {
+      if (failing.has(url)) {
+        throw new TrackerError(`${url} is down`);
+      }
+      return response(url);
+    };
+
+    httpAnnounce = jest.spyOn(TrackerClient.prototype, 'announce').mockImplementation(fakeAnnounce);
+    udpAnnounce = jest.spyOn(UdpTrackerClient.prototype, 'announce').mockImplementation(fakeAnnounce);
+    random = jest.spyOn(Math, 'random').mockReturnValue(0.99); // Keep tier order stable
+
+    torrentMeta = {
+      announce: 'http://main.example.com/announce',
+      announceList: [
+        ['http://a1.example.com/announce', 'udp://a2.example.com:6969'],
+        ['http://b1.example.com/announce'],
+      ],
+      name: 'test-file.bin',
+      length: 1000,
+      pieceLength: 1000,
+      pieces: Buffer.alloc(20),
+      infoHashV1: crypto.randomBytes(20),
+    };
+
+    request = {
+      infoHash: torrentMeta.infoHashV1,
+      peerId: generatePeerId(),
+      port: 6881,
+      uploaded: 0,
+      downloaded: 0,
+      left: 1000,
+      compact: true,
+      event: 'started',
+    };
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('falls back to the announce URL without an announce-list', async () => {
+    const manager = new TrackerManager({ ...torrentMeta, announceList: undefined });
+
+    const result = await manager.announce(request);
+
+    expect(result.url).toBe('http://main.example.com/announce');
+    expect(manager.getTiers()).toEqual([['http://main.example.com/announce']]);
+    manager.destroy();
+  });
+
+  test('announces to the first tracker of the first tier', async () => {
+    const manager = new TrackerManager(torrentMeta);
+
+    const result = await manager.announce(request);
+
+    expect(result.url).toBe('http://a1.example.com/announce');
+    expect(result.peers).toHaveLength(1);
+    expect(httpAnnounce).toHaveBeenCalledTimes(1);
+    expect(udpAnnounce).not.toHaveBeenCalled();
+    manager.destroy();
+  });
+
+  test('fails over within a tier and promotes the working tracker', async () => {
+    const manager = new TrackerManager(torrentMeta);
+    failing.add('http://a1.example.com/announce');
+
+    const errors: string[] = [];
+    manager.on('tracker_error', (event) => errors.push(event.url));
+
+    const result = await manager.announce(request);
+
+    expect(result.url).toBe('udp://a2.example.com:6969');
+    expect(errors).toEqual(['http://a1.example.com/announce']);
+    expect(manager.getTiers()[0]).toEqual(['udp://a2.example.com:6969', 'http://a1.example.com/announce']);
+
+    const state = manager.getTrackers().find(t => t.url === 'http://a1.example.com/announce');
+    expect(state?.failures).toBe(1);
+    expect(state?.lastError).toContain('is down');
+    manager.destroy();
+  });
+
+  test('moves on to the next tier when a whole tier fails', async () => {
+    const manager = new TrackerManager(torrentMeta);
+    failing.add('http://a1.example.com/announce');
+    failing.add('udp://a2.example.com:6969');
+
+    const result = await manager.announce(request);
+
+    expect(result.url).toBe('http://b1.example.com/announce');
+    manager.destroy();
+  });
+
+  test('throws when every tracker fails', async () => {
+    const manager = new TrackerManager(torrentMeta);
+    manager.on('tracker_error', () => {});
+    failing.add('http://a1.example.com/announce');
+    failing.add('udp://a2.example.com:6969');
+    failing.add('http://b1.example.com/announce');
+
+    await expect(manager.announce(request)).rejects.toThrow('All trackers failed');
+    manager.destroy();
+  });
+
+  test('keeps per-tracker state and echoes the tracker id', async () => {
+    const manager = new TrackerManager(torrentMeta);
+
+    await manager.announce(request);
+    await manager.announce({ ...request, event: undefined });
+
+    const state = manager.getTrackers()[0];
+    expect(state.interval).toBe(1800);
+    expect(state.seeders).toBe(5);
+    expect(state.leechers).toBe(2);
+    expect(state.failures).toBe(0);
+    expect(state.lastAnnounce).toBeDefined();
+    expect(state.trackerId).toBe('id-http://a1.example.com/announce');
+    expect(httpAnnounce.mock.calls[1][1].trackerId).toBe('id-http://a1.example.com/announce');
+    manager.destroy();
+  });
+
+  test('scrapes every tracker and reports failures per tracker', async () => {
+    const manager = new TrackerManager(torrentMeta);
+    const stats = { infoHash: torrentMeta.infoHashV1, complete: 9, downloaded: 30, incomplete: 4 };
+
+    jest.spyOn(TrackerClient.prototype, 'scrape').mockImplementation(async (url) => {
+      if (url === 'http://b1.example.com/announce') {
+        throw new TrackerError('scrape disabled');
+      }
+      return [stats];
+    });
+    jest.spyOn(UdpTrackerClient.prototype, 'scrape').mockResolvedValue([stats]);
+
+    const responses = await manager.scrape([torrentMeta.infoHashV1]);
+
+    expect(responses).toHaveLength(3);
+    expect(responses.find(r => r.url === 'udp://a2.example.com:6969')?.results).toEqual([stats]);
+    expect(responses.find(r => r.url === 'http://b1.example.com/announce')?.error).toContain('scrape disabled');
+    expect(manager.getTrackers().find(t => t.url === 'http://a1.example.com/announce')?.seeders).toBe(9);
+    manager.destroy();
+  });
+
+  test('shuffles each tier', () => {
+    random.mockReturnValue(0);
+
+    const manager = new TrackerManager(torrentMeta);
+
+    expect(manager.getTiers()).toEqual([
+      ['udp://a2.example.com:6969', 'http://a1.example.com/announce'],
+      ['http://b1.example.com/announce'],
+    ]);
+    manager.destroy();
+  });
+});
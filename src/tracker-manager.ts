@@ -0,0 +1,157 @@
+import { EventEmitter } from 'events';
+import { TrackerClient, TrackerError, AnnounceRequest, AnnounceResponse, ScrapeResult } from './tracker';
+import { UdpTrackerClient } from './udp-tracker';
+import { TorrentMeta } from './metainfo';
+
+export interface TrackerManagerOptions {
+  timeout?: number;     // per-request timeout in ms
+  udpRetries?: number;  // BEP 15 retransmissions per UDP request
+}
+
+export interface TrackerState {
+  url: string;
+  tier: number;
+  lastAnnounce?: number;
+  interval?: number;      // seconds, as reported by the tracker
+  minInterval?: number;
+  trackerId?: string;
+  failures: number;       // consecutive failures
+  lastError?: string;
+  seeders?: number;
+  leechers?: number;
+}
+
+export interface TrackerAnnounceResult extends AnnounceResponse {
+  url: string;
+}
+
+export interface TrackerScrapeResult {
+  url: string;
+  results?: ScrapeResult[];
+  error?: string;
+}
+
+export class TrackerManager extends EventEmitter {
+  private readonly httpTracker: TrackerClient;
+  private readonly udpTracker: UdpTrackerClient;
+
+  // BEP 12 tiers, each shuffled once and reordered as trackers succeed
+  private readonly tiers: TrackerState[][];
+
+  constructor(torrentMeta: Pick<TorrentMeta, 'announce' | 'announceList'>, options: TrackerManagerOptions = {}) {
+    super();
+
+    this.httpTracker = new TrackerClient(options.timeout);
+    this.udpTracker = new UdpTrackerClient(options.timeout, options.udpRetries);
+
+    // Magnet links may come without any tracker at all
+    const announceList = torrentMeta.announceList
+      ?.map(tier => tier.filter(url => url.length > 0))
+      .filter(tier => tier.length > 0);
+    const urls = announceList && announceList.length > 0
+      ? announceList
+      : [[torrentMeta.announce]].filter(tier => tier[0].length > 0);
+
+    this.tiers = urls.map((tier, tierIndex) =>
+      this.shuffle(tier.map(url => ({ url, tier: tierIndex, failures: 0 })))
+    );
+  }
+
+  // Announces to the first tracker that answers, walking tiers in order
+  async announce(request: AnnounceRequest): Promise<TrackerAnnounceResult> {
+    const errors: string[] = [];
+
+    for (const tier of this.tiers) {
+      for (let i = 0; i < tier.length; i++) {
+        const tracker = tier[i];
+
+        try {
+          const response = await this.announceTo(tracker, request);
+
+          // Promote the working tracker to the front of its tier
+          tier.splice(i, 1);
+          tier.unshift(tracker);
+
+          return { ...response, url: tracker.url };
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          tracker.failures++;
+          tracker.lastError = message;
+          errors.push(`${tracker.url}: ${message}`);
+          this.emit('tracker_error', { url: tracker.url, error });
+        }
+      }
+    }
+
+    throw new TrackerError(`All trackers failed: ${errors.join('; ')}`);
+  }
+
+  private async announceTo(tracker: TrackerState, request: AnnounceRequest): Promise<AnnounceResponse> {
+    // Pick the implementation by URL scheme
+    const client = tracker.url.startsWith('udp:') ? this.udpTracker : this.httpTracker;
+
+    const response = await client.announce(tracker.url, {
+      ...request,
+      trackerId: request.trackerId ?? tracker.trackerId,
+    });
+
+    tracker.lastAnnounce = Date.now();
+    tracker.failures = 0;
+    tracker.lastError = undefined;
+    tracker.interval = response.interval;
+    tracker.minInterval = response.minInterval;
+    tracker.seeders = response.complete;
+    tracker.leechers = response.incomplete;
+    if (response.trackerId) {
+      tracker.trackerId = response.trackerId;
+    }
+
+    return response;
+  }
+
+  // Scrapes every tracker in parallel; failures are reported per tracker
+  async scrape(infoHashes: Buffer[]): Promise<TrackerScrapeResult[]> {
+    return Promise.all(this.tiers.flat().map(async (tracker): Promise<TrackerScrapeResult> => {
+      const client = tracker.url.startsWith('udp:') ? this.udpTracker : this.httpTracker;
+
+      try {
+        const results = await client.scrape(tracker.url, infoHashes);
+
+        if (results.length > 0) {
+          tracker.seeders = results[0].complete;
+          tracker.leechers = results[0].incomplete;
+        }
+
+        return { url: tracker.url, results };
+      } catch (error) {
+        return { url: tracker.url, error: error instanceof Error ? error.message : 'Unknown error' };
+      }
+    }));
+  }
+
+  private shuffle<T>(items: T[]): T[] {
+    for (let i = items.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [items[i], items[j]] = [items[j], items[i]];
+    }
+    return items;
+  }
+
+  // Public API
+  hasTrackers(): boolean {
+    return this.tiers.length > 0;
+  }
+
+  getTrackers(): TrackerState[] {
+    return this.tiers.flat().map(tracker => ({ ...tracker }));
+  }
+
+  getTiers(): string[][] {
+    return this.tiers.map(tier => tier.map(tracker => tracker.url));
+  }
+
+  destroy(): void {
+    this.udpTracker.destroy();
+    this.removeAllListeners();
+  }
+}
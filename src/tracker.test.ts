@@ -505,6 +505,70 @@ describe('Tracker Module', () => {
         expect(capturedUrl).toContain('event=completed');
         expect(capturedUrl).toContain('numwant=25');
       });
+
+      test('sends the tracker id once assigned', async () => {
+        let capturedUrl: string = '';
+
+        server.on('request', (req, res) => {
+          capturedUrl = req.url || '';
+          res.writeHead(200);
+          res.end(encode({ interval: 1800, peers: [] }));
+        });
+
+        await client.announce(serverUrl + '/announce', { ...mockRequest, trackerId: 'abc 123' });
+
+        expect(capturedUrl).toContain('trackerid=abc%20123');
+      });
+    });
+
+    describe('Scrape', () => {
+      test('derives the scrape URL and queries several info hashes', async () => {
+        const hashes = [crypto.randomBytes(20), crypto.randomBytes(20)];
+        let capturedUrl: string = '';
+
+        server.on('request', (req, res) => {
+          capturedUrl = req.url || '';
+          res.writeHead(200);
+          res.end(encode({
+            files: {
+              [hashes[0].toString('binary')]: { complete: 12, downloaded: 40, incomplete: 3 },
+              [hashes[1].toString('binary')]: { complete: 1, downloaded: 2, incomplete: 0 },
+            },
+          }));
+        });
+
+        const results = await client.scrape(serverUrl + '/announce.php?passkey=x', hashes);
+
+        expect(capturedUrl.startsWith('/scrape.php?passkey=x&info_hash=')).toBe(true);
+        expect(capturedUrl.split('info_hash=')).toHaveLength(3);
+        expect(results).toEqual([
+          { infoHash: hashes[0], complete: 12, downloaded: 40, incomplete: 3 },
+          { infoHash: hashes[1], complete: 1, downloaded: 2, incomplete: 0 },
+        ]);
+      });
+
+      test('omits torrents the tracker does not know', async () => {
+        server.on('request', (req, res) => {
+          res.writeHead(200);
+          res.end(encode({ files: {} }));
+        });
+
+        const results = await client.scrape(serverUrl + '/announce', [crypto.randomBytes(20)]);
+        expect(results).toEqual([]);
+      });
+
+      test('rejects trackers without a scrape convention', async () => {
+        await expect(client.scrape(serverUrl + '/tracker', [crypto.randomBytes(20)])).rejects.toThrow('does not support scrape');
+      });
+
+      test('throws on tracker failure reason', async () => {
+        server.on('request', (req, res) => {
+          res.writeHead(200);
+          res.end(encode({ 'failure reason': Buffer.from('scrape disabled') }));
+        });
+
+        await expect(client.scrape(serverUrl + '/announce', [crypto.randomBytes(20)])).rejects.toThrow('scrape disabled');
+      });
     });
   });
-});
\ No newline at end of file
+});
@@ -27,6 +27,7 @@ export interface AnnounceRequest {
   noPeerId?: boolean;
   event?: 'started' | 'stopped' | 'completed';
   numWant?: number;
+  trackerId?: string;
 }
 
 export interface AnnounceResponse {
@@ -40,6 +41,13 @@ export interface AnnounceResponse {
   failureReason?: string;
 }
 
+export interface ScrapeResult {
+  infoHash: Buffer;
+  complete: number;   // seeders
+  downloaded: number; // completed downloads
+  incomplete: number; // leechers
+}
+
 export class TrackerClient {
   private static readonly DEFAULT_TIMEOUT = 15000;
   private static readonly MAX_RETRIES = 3;
@@ -72,6 +80,16 @@ export class TrackerClient {
     throw new TrackerError(`Failed to announce after ${TrackerClient.MAX_RETRIES} attempts: ${lastError?.message}`);
   }
 
+  async scrape(trackerUrl: string, infoHashes: Buffer[]): Promise<ScrapeResult[]> {
+    if (infoHashes.length === 0) {
+      throw new TrackerError('At least one info hash is required');
+    }
+
+    const requestUrl = this.buildScrapeUrl(trackerUrl, infoHashes);
+    const response = await this.makeHttpRequest(requestUrl);
+    return this.parseScrapeResponse(response, infoHashes);
+  }
+
   private async doAnnounce(trackerUrl: string, request: AnnounceRequest): Promise<AnnounceResponse> {
     const requestUrl = this.buildAnnounceUrl(trackerUrl, request);
     const response = await this.makeHttpRequest(requestUrl);
@@ -99,6 +117,10 @@ export class TrackerClient {
       params.push(`event=${request.event}`);
     }
     
+    if (request.trackerId) {
+      params.push(`trackerid=${encodeURIComponent(request.trackerId)}`);
+    }
+    
     if (request.numWant !== undefined) {
       params.push(`numwant=${request.numWant}`);
     } else {
@@ -114,6 +136,26 @@ export class TrackerClient {
     return parsedUrl.toString();
   }
 
+  private buildScrapeUrl(trackerUrl: string, infoHashes: Buffer[]): string {
+    const parsedUrl = new URL(trackerUrl);
+
+    // Scrape convention: replace "announce" at the start of the last path segment with "scrape"
+    const slash = parsedUrl.pathname.lastIndexOf('/');
+    const lastSegment = parsedUrl.pathname.substring(slash + 1);
+    if (!lastSegment.startsWith('announce')) {
+      throw new TrackerError(`Tracker does not support scrape: ${trackerUrl}`);
+    }
+    parsedUrl.pathname = parsedUrl.pathname.substring(0, slash + 1) + 'scrape' + lastSegment.substring('announce'.length);
+
+    const params = infoHashes.map(infoHash => `info_hash=${this.urlEncodeBuffer(infoHash)}`);
+    const existingQuery = parsedUrl.search.substring(1); // Remove '?'
+    const allParams = existingQuery ? [existingQuery, ...params] : params;
+
+    parsedUrl.search = '?' + allParams.join('&');
+
+    return parsedUrl.toString();
+  }
+
   private urlEncodeBuffer(buffer: Buffer): string {
     let result = '';
     for (let i = 0; i < buffer.length; i++) {
@@ -247,6 +289,51 @@ export class TrackerClient {
     return result;
   }
 
+  private parseScrapeResponse(data: Buffer, infoHashes: Buffer[]): ScrapeResult[] {
+    let decoded: BencodeValue;
+
+    try {
+      decoded = decode(data);
+    } catch (error) {
+      throw new TrackerError(`Invalid bencode response: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+
+    if (typeof decoded !== 'object' || decoded === null || Array.isArray(decoded) || Buffer.isBuffer(decoded)) {
+      throw new TrackerError('Response must be a dictionary');
+    }
+
+    if (Buffer.isBuffer(decoded['failure reason'])) {
+      throw new TrackerError(`Tracker failure reason: ${decoded['failure reason'].toString('utf8')}`);
+    }
+
+    const files = decoded.files;
+    if (typeof files !== 'object' || files === null || Array.isArray(files) || Buffer.isBuffer(files)) {
+      throw new TrackerError('Missing or invalid files dictionary');
+    }
+
+    // Torrents the tracker doesn't know are simply absent from the result
+    const results: ScrapeResult[] = [];
+    for (const infoHash of infoHashes) {
+      const entry = files[infoHash.toString('binary')];
+      if (entry === undefined) {
+        continue;
+      }
+
+      if (typeof entry !== 'object' || entry === null || Array.isArray(entry) || Buffer.isBuffer(entry)) {
+        throw new TrackerError('Invalid scrape entry format');
+      }
+
+      results.push({
+        infoHash,
+        complete: typeof entry.complete === 'number' ? entry.complete : 0,
+        downloaded: typeof entry.downloaded === 'number' ? entry.downloaded : 0,
+        incomplete: typeof entry.incomplete === 'number' ? entry.incomplete : 0,
+      });
+    }
+
+    return results;
+  }
+
   private parsePeers(peersValue: BencodeValue): Peer[] {
     if (Buffer.isBuffer(peersValue)) {
       // Compact format: 6N bytes (4 bytes IP + 2 bytes port per peer)
@@ -0,0 +1,200 @@
+import * as crypto from 'crypto';
+import * as dgram from 'dgram';
+import { UdpTrackerClient } from './udp-tracker';
+import { TrackerError, AnnounceRequest, generatePeerId } from './tracker';
+
+// Minimal BEP 15 tracker stand-in
+class MockUdpTracker {
+  public readonly socket = dgram.createSocket('udp4');
+  public connects = 0;
+  public announces: Buffer[] = [];
+  public scrapes: Buffer[] = [];
+  public dropNext = 0;
+  public silent = false;
+  public errorMessage?: string;
+  public peers: Buffer = Buffer.from([127, 0, 0, 1, 0x1a, 0xe1, 10, 0, 0, 2, 0x1a, 0xe2]);
+  private readonly connectionId = crypto.randomBytes(8);
+
+  async start(): Promise<number> {
+    this.socket.on('message', (msg, rinfo) => this.handle(msg, rinfo));
+    await new Promise<void>((resolve) => this.socket.bind(0, '127.0.0.1', resolve));
+    return this.socket.address().port;
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve) => this.socket.close(() => resolve()));
+  }
+
+  private handle(msg: Buffer, rinfo: dgram.RemoteInfo): void {
+    if (this.silent) {
+      return;
+    }
+
+    if (this.dropNext > 0) {
+      this.dropNext--;
+      return;
+    }
+
+    const action = msg.readUInt32BE(8);
+    const transactionId = msg.readUInt32BE(12);
+    let reply: Buffer;
+
+    if (this.errorMessage && action !== 0) {
+      reply = Buffer.concat([this.header(3, transactionId), Buffer.from(this.errorMessage)]);
+    } else if (action === 0) {
+      this.connects++;
+      reply = Buffer.concat([this.header(0, transactionId), this.connectionId]);
+    } else if (action === 1) {
+      this.announces.push(msg);
+      const body = Buffer.alloc(12);
+      body.writeUInt32BE(1800, 0); // interval
+      body.writeUInt32BE(3, 4);    // leechers
+      body.writeUInt32BE(7, 8);    // seeders
+      reply = Buffer.concat([this.header(1, transactionId), body, this.peers]);
+    } else {
+      this.scrapes.push(msg);
+      const count = (msg.length - 16) / 20;
+      const body = Buffer.alloc(count * 12);
+      for (let i = 0; i < count; i++) {
+        body.writeUInt32BE(10 + i, i * 12);
+        body.writeUInt32BE(20 + i, i * 12 + 4);
+        body.writeUInt32BE(30 + i, i * 12 + 8);
+      }
+      reply = Buffer.concat([this.header(2, transactionId), body]);
+    }
+
+    this.socket.send(reply, rinfo.port, rinfo.address);
+  }
+
+  private header(action: number, transactionId: number): Buffer {
+    const header = Buffer.alloc(8);
+    header.writeUInt32BE(action, 0);
+    header.writeUInt32BE(transactionId, 4);
+    return header;
+  }
+}
+
+describe('UdpTrackerClient', () => {
+  let tracker: MockUdpTracker;
+  let trackerUrl: string;
+  let client: UdpTrackerClient;
+  let request: AnnounceRequest;
+
+  beforeEach(async () => {
+    tracker = new MockUdpTracker();
+    const port = await tracker.start();
+    trackerUrl = `udp://127.0.0.1:${port}/announce`;
+    client = new UdpTrackerClient(50, 2); // Short timeouts for tests
+
+    request = {
+      infoHash: crypto.randomBytes(20),
+      peerId: generatePeerId(),
+      port: 6881,
+      uploaded: 100,
+      downloaded: 200,
+      left: 1000,
+      compact: true,
+      event: 'started',
+    };
+  });
+
+  afterEach(async () => {
+    client.destroy();
+    await tracker.close();
+  });
+
+  test('connects and announces', async () => {
+    const response = await client.announce(trackerUrl, request);
+
+    expect(response.interval).toBe(1800);
+    expect(response.incomplete).toBe(3);
+    expect(response.complete).toBe(7);
+    expect(response.peers).toEqual([
+      { ip: '127.0.0.1', port: 6881 },
+      { ip: '10.0.0.2', port: 6882 },
+    ]);
+
+    const packet = tracker.announces[0];
+    expect(packet.length).toBe(98);
+    expect(packet.subarray(16, 36).equals(request.infoHash)).toBe(true);
+    expect(packet.subarray(36, 56).equals(request.peerId)).toBe(true);
+    expect(packet.readBigUInt64BE(56)).toBe(200n);
+    expect(packet.readBigUInt64BE(64)).toBe(1000n);
+    expect(packet.readBigUInt64BE(72)).toBe(100n);
+    expect(packet.readUInt32BE(80)).toBe(2); // started
+    expect(packet.readInt32BE(92)).toBe(50);
+    expect(packet.readUInt16BE(96)).toBe(6881);
+  });
+
+  test('caches the connection id', async () => {
+    await client.announce(trackerUrl, request);
+    await client.announce(trackerUrl, { ...request, event: undefined });
+
+    expect(tracker.connects).toBe(1);
+    expect(tracker.announces).toHaveLength(2);
+    expect(tracker.announces[1].readUInt32BE(80)).toBe(0); // none
+  });
+
+  test('reconnects once the connection id expires', async () => {
+    await client.announce(trackerUrl, request);
+
+    const now = Date.now();
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now + 61000);
+    try {
+      await client.announce(trackerUrl, request);
+    } finally {
+      clock.mockRestore();
+    }
+
+    expect(tracker.connects).toBe(2);
+  });
+
+  test('retransmits lost packets', async () => {
+    tracker.dropNext = 2; // Lose the first connect and the first announce
+
+    const response = await client.announce(trackerUrl, request);
+
+    expect(response.peers).toHaveLength(2);
+    expect(tracker.announces).toHaveLength(1);
+  });
+
+  test('gives up after the retransmission limit', async () => {
+    tracker.silent = true;
+
+    await expect(client.announce(trackerUrl, request)).rejects.toThrow('did not respond after 3 attempts');
+  });
+
+  test('surfaces tracker error messages', async () => {
+    tracker.errorMessage = 'torrent not registered';
+
+    await expect(client.announce(trackerUrl, request)).rejects.toThrow(TrackerError);
+    await expect(client.announce(trackerUrl, request)).rejects.toThrow('torrent not registered');
+  });
+
+  test('scrapes several info hashes at once', async () => {
+    const hashes = [crypto.randomBytes(20), crypto.randomBytes(20)];
+
+    const results = await client.scrape(trackerUrl, hashes);
+
+    expect(tracker.scrapes).toHaveLength(1);
+    expect(results).toEqual([
+      { infoHash: hashes[0], complete: 10, downloaded: 20, incomplete: 30 },
+      { infoHash: hashes[1], complete: 11, downloaded: 21, incomplete: 31 },
+    ]);
+  });
+
+  test('rejects invalid tracker URLs', async () => {
+    await expect(client.announce('udp://127.0.0.1/announce', request)).rejects.toThrow('requires a port');
+    await expect(client.announce('http://127.0.0.1:80/announce', request)).rejects.toThrow('Not a UDP tracker URL');
+    await expect(client.scrape(trackerUrl, [])).rejects.toThrow(TrackerError);
+  });
+
+  test('aborts in-flight requests on destroy', async () => {
+    tracker.silent = true;
+
+    const pending = client.announce(trackerUrl, request);
+    setTimeout(() => client.destroy(), 10);
+
+    await expect(pending).rejects.toThrow('Request aborted');
+  });
+});
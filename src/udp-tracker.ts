@@ -0,0 +1,268 @@
+import * as crypto from 'crypto';
+import * as dgram from 'dgram';
+import { TrackerError, AnnounceRequest, AnnounceResponse, ScrapeResult, Peer } from './tracker';
+
+// BEP 15 actions
+enum Action {
+  CONNECT = 0,
+  ANNOUNCE = 1,
+  SCRAPE = 2,
+  ERROR = 3,
+}
+
+const EVENT_IDS: { [event: string]: number } = {
+  completed: 1,
+  started: 2,
+  stopped: 3,
+};
+
+interface UdpTarget {
+  host: string;
+  port: number;
+  key: string;
+}
+
+export class UdpTrackerClient {
+  private static readonly PROTOCOL_ID = 0x41727101980n;
+  private static readonly DEFAULT_TIMEOUT = 15000; // BEP 15: 15 * 2^n seconds
+  private static readonly MAX_RETRIES = 8;
+  private static readonly CONNECTION_ID_TTL = 60000; // 1 minute
+  private static readonly MAX_SCRAPE_HASHES = 74;
+
+  private readonly connectionIds: Map<string, { id: Buffer; expires: number }> = new Map();
+  private readonly sockets: Set<dgram.Socket> = new Set();
+  private readonly key = crypto.randomBytes(4).readUInt32BE(0);
+
+  constructor(
+    private readonly timeout: number = UdpTrackerClient.DEFAULT_TIMEOUT,
+    private readonly maxRetries: number = UdpTrackerClient.MAX_RETRIES
+  ) {}
+
+  async announce(trackerUrl: string, request: AnnounceRequest): Promise<AnnounceResponse> {
+    const response = await this.request(trackerUrl, Action.ANNOUNCE, (connectionId, transactionId) => {
+      const packet = Buffer.alloc(98);
+      connectionId.copy(packet, 0);
+      packet.writeUInt32BE(Action.ANNOUNCE, 8);
+      packet.writeUInt32BE(transactionId, 12);
+      request.infoHash.copy(packet, 16);
+      request.peerId.copy(packet, 36);
+      packet.writeBigUInt64BE(BigInt(request.downloaded), 56);
+      packet.writeBigUInt64BE(BigInt(request.left), 64);
+      packet.writeBigUInt64BE(BigInt(request.uploaded), 72);
+      packet.writeUInt32BE(request.event ? EVENT_IDS[request.event] : 0, 80);
+      packet.writeUInt32BE(0, 84); // IP address, 0 = sender's
+      packet.writeUInt32BE(this.key, 88);
+      packet.writeInt32BE(request.numWant ?? 50, 92);
+      packet.writeUInt16BE(request.port, 96);
+      return packet;
+    });
+
+    return this.parseAnnounceResponse(response);
+  }
+
+  async scrape(trackerUrl: string, infoHashes: Buffer[]): Promise<ScrapeResult[]> {
+    if (infoHashes.length === 0 || infoHashes.length > UdpTrackerClient.MAX_SCRAPE_HASHES) {
+      throw new TrackerError(`UDP scrape supports 1-${UdpTrackerClient.MAX_SCRAPE_HASHES} info hashes, got ${infoHashes.length}`);
+    }
+
+    const response = await this.request(trackerUrl, Action.SCRAPE, (connectionId, transactionId) => {
+      const packet = Buffer.alloc(16 + infoHashes.length * 20);
+      connectionId.copy(packet, 0);
+      packet.writeUInt32BE(Action.SCRAPE, 8);
+      packet.writeUInt32BE(transactionId, 12);
+      infoHashes.forEach((infoHash, i) => infoHash.copy(packet, 16 + i * 20));
+      return packet;
+    });
+
+    if (response.length < 8 + infoHashes.length * 12) {
+      throw new TrackerError(`Scrape response too short: ${response.length} bytes`);
+    }
+
+    return infoHashes.map((infoHash, i) => {
+      const offset = 8 + i * 12;
+      return {
+        infoHash,
+        complete: response.readUInt32BE(offset),
+        downloaded: response.readUInt32BE(offset + 4),
+        incomplete: response.readUInt32BE(offset + 8),
+      };
+    });
+  }
+
+  // Abort in-flight requests
+  destroy(): void {
+    for (const socket of this.sockets) {
+      socket.close();
+    }
+    this.sockets.clear();
+  }
+
+  private async request(
+    trackerUrl: string,
+    action: Action,
+    buildPacket: (connectionId: Buffer, transactionId: number) => Buffer
+  ): Promise<Buffer> {
+    const target = this.parseUrl(trackerUrl);
+    const socket = dgram.createSocket('udp4');
+    this.sockets.add(socket);
+
+    try {
+      // Retransmit with growing timeouts; each attempt reconnects if the connection id expired
+      for (let attempt = 0; attempt <= this.maxRetries; attempt++) {
+        const connectionId = await this.getConnectionId(socket, target, attempt);
+        if (!connectionId) {
+          continue;
+        }
+
+        const response = await this.transact(socket, target, action, attempt, (transactionId) =>
+          buildPacket(connectionId, transactionId)
+        );
+        if (response) {
+          return response;
+        }
+      }
+
+      throw new TrackerError(`UDP tracker ${target.key} did not respond after ${this.maxRetries + 1} attempts`);
+    } finally {
+      if (this.sockets.delete(socket)) {
+        socket.close();
+      }
+    }
+  }
+
+  private async getConnectionId(socket: dgram.Socket, target: UdpTarget, attempt: number): Promise<Buffer | undefined> {
+    const cached = this.connectionIds.get(target.key);
+    if (cached && cached.expires > Date.now()) {
+      return cached.id;
+    }
+
+    const response = await this.transact(socket, target, Action.CONNECT, attempt, (transactionId) => {
+      const packet = Buffer.alloc(16);
+      packet.writeBigUInt64BE(UdpTrackerClient.PROTOCOL_ID, 0);
+      packet.writeUInt32BE(Action.CONNECT, 8);
+      packet.writeUInt32BE(transactionId, 12);
+      return packet;
+    });
+
+    if (!response) {
+      return undefined;
+    }
+
+    if (response.length < 16) {
+      throw new TrackerError(`Connect response too short: ${response.length} bytes`);
+    }
+
+    const id = Buffer.from(response.subarray(8, 16));
+    this.connectionIds.set(target.key, { id, expires: Date.now() + UdpTrackerClient.CONNECTION_ID_TTL });
+    return id;
+  }
+
+  // Sends one packet and waits for the matching reply, resolving undefined on timeout
+  private transact(
+    socket: dgram.Socket,
+    target: UdpTarget,
+    action: Action,
+    attempt: number,
+    buildPacket: (transactionId: number) => Buffer
+  ): Promise<Buffer | undefined> {
+    const transactionId = crypto.randomBytes(4).readUInt32BE(0);
+    const packet = buildPacket(transactionId);
+
+    return new Promise((resolve, reject) => {
+      const cleanup = () => {
+        clearTimeout(timer);
+        socket.off('message', onMessage);
+        socket.off('error', onError);
+        socket.off('close', onClose);
+      };
+
+      const onMessage = (message: Buffer) => {
+        if (message.length < 8 || message.readUInt32BE(4) !== transactionId) {
+          return; // Not ours, e.g. a late reply to an earlier attempt
+        }
+
+        cleanup();
+
+        const responseAction = message.readUInt32BE(0);
+        if (responseAction === Action.ERROR) {
+          reject(new TrackerError(`Tracker failure reason: ${message.subarray(8).toString('utf8')}`));
+        } else if (responseAction !== action) {
+          reject(new TrackerError(`Unexpected action in response: ${responseAction}`));
+        } else {
+          resolve(message);
+        }
+      };
+
+      const onError = (error: Error) => {
+        cleanup();
+        reject(new TrackerError(`Request failed: ${error.message}`));
+      };
+
+      const onClose = () => {
+        cleanup();
+        reject(new TrackerError('Request aborted'));
+      };
+
+      const timer = setTimeout(() => {
+        cleanup();
+        resolve(undefined);
+      }, this.timeout * Math.pow(2, attempt));
+
+      socket.on('message', onMessage);
+      socket.on('error', onError);
+      socket.on('close', onClose);
+
+      socket.send(packet, target.port, target.host, (error) => {
+        if (error) {
+          onError(error);
+        }
+      });
+    });
+  }
+
+  private parseUrl(trackerUrl: string): UdpTarget {
+    let parsedUrl: URL;
+    try {
+      parsedUrl = new URL(trackerUrl);
+    } catch {
+      throw new TrackerError(`Invalid tracker URL: ${trackerUrl}`);
+    }
+
+    if (parsedUrl.protocol !== 'udp:') {
+      throw new TrackerError(`Not a UDP tracker URL: ${trackerUrl}`);
+    }
+
+    const port = parseInt(parsedUrl.port, 10);
+    if (!port) {
+      throw new TrackerError(`UDP tracker URL requires a port: ${trackerUrl}`);
+    }
+
+    const host = parsedUrl.hostname;
+    return { host, port, key: `${host}:${port}` };
+  }
+
+  private parseAnnounceResponse(data: Buffer): AnnounceResponse {
+    if (data.length < 20) {
+      throw new TrackerError(`Announce response too short: ${data.length} bytes`);
+    }
+
+    const peersData = data.subarray(20);
+    if (peersData.length % 6 !== 0) {
+      throw new TrackerError('Compact peers data length must be multiple of 6');
+    }
+
+    const peers: Peer[] = [];
+    for (let i = 0; i < peersData.length; i += 6) {
+      const ip = [peersData[i], peersData[i + 1], peersData[i + 2], peersData[i + 3]].join('.');
+      const port = peersData.readUInt16BE(i + 4);
+      peers.push({ ip, port });
+    }
+
+    return {
+      interval: data.readUInt32BE(8),
+      incomplete: data.readUInt32BE(12),
+      complete: data.readUInt32BE(16),
+      peers,
+    };
+  }
+}
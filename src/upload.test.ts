@@ -0,0 +1,197 @@
+import * as crypto from 'crypto';
+import { EventEmitter } from 'events';
+import { UploadManager, UploadError } from './upload';
+import { TorrentMeta } from './metainfo';
+
+// Mock PeerConnection that records sent blocks
+class MockUploadPeer extends EventEmitter {
+  public peerChoked = false;
+  public connected = true;
+  public sentPieces: { index: number; begin: number; block: Buffer }[] = [];
+
+  getState() {
+    return { peerChoked: this.peerChoked };
+  }
+
+  getPeerInfo() {
+    return { ip: '127.0.0.1', port: 6881 };
+  }
+
+  isConnected() {
+    return this.connected;
+  }
+
+  async sendPiece(piece: { index: number; begin: number; block: Buffer }) {
+    this.sentPieces.push(piece);
+  }
+
+  simulateRequest(index: number, begin: number, length: number) {
+    this.emit('request', { index, begin, length });
+  }
+
+  simulateCancel(index: number, begin: number, length: number) {
+    this.emit('cancel', { index, begin, length });
+  }
+}
+
+// Mock storage holding piece data in memory
+class MockStorage {
+  public reads = 0;
+
+  constructor(private readonly data: Map<number, Buffer>) {}
+
+  hasPiece(index: number) {
+    return this.data.has(index);
+  }
+
+  async readBlock(index: number, begin: number, length: number) {
+    this.reads++;
+    const piece = this.data.get(index);
+    if (!piece) {
+      throw new Error(`Piece ${index} not completed`);
+    }
+    return piece.subarray(begin, begin + length);
+  }
+}
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('UploadManager', () => {
+  let torrentMeta: TorrentMeta;
+  let storage: MockStorage;
+  let uploader: UploadManager;
+  let piece0: Buffer;
+
+  beforeEach(() => {
+    piece0 = crypto.randomBytes(32768);
+
+    torrentMeta = {
+      announce: 'http://tracker.example.com/announce',
+      name: 'test-file.bin',
+      length: 40000, // 32768 + 7232
+      pieceLength: 32768,
+      pieces: Buffer.alloc(40),
+      infoHashV1: crypto.randomBytes(20),
+    };
+
+    storage = new MockStorage(new Map([[0, piece0]]));
+    uploader = new UploadManager(torrentMeta, storage as any);
+  });
+
+  afterEach(() => {
+    uploader.destroy();
+  });
+
+  test('serves requested blocks from storage', async () => {
+    const peer = new MockUploadPeer();
+    uploader.addPeer(peer as any);
+
+    peer.simulateRequest(0, 16384, 16384);
+    await flush();
+
+    expect(peer.sentPieces).toHaveLength(1);
+    expect(peer.sentPieces[0].index).toBe(0);
+    expect(peer.sentPieces[0].begin).toBe(16384);
+    expect(peer.sentPieces[0].block.equals(piece0.subarray(16384))).toBe(true);
+  });
+
+  test('counts uploaded bytes', async () => {
+    const peer = new MockUploadPeer();
+    uploader.addPeer(peer as any);
+
+    const uploaded: number[] = [];
+    uploader.on('block_uploaded', (event) => uploaded.push(event.length));
+
+    peer.simulateRequest(0, 0, 16384);
+    peer.simulateRequest(0, 16384, 8192);
+    await flush();
+    await flush();
+
+    expect(uploaded).toEqual([16384, 8192]);
+    expect(uploader.getBytesUploaded()).toBe(24576);
+    expect(uploader.getStats().bytesUploaded).toBe(24576);
+  });
+
+  test('ignores requests from choked peers', async () => {
+    const peer = new MockUploadPeer();
+    peer.peerChoked = true;
+    uploader.addPeer(peer as any);
+
+    peer.simulateRequest(0, 0, 16384);
+    await flush();
+
+    expect(peer.sentPieces).toHaveLength(0);
+    expect(storage.reads).toBe(0);
+  });
+
+  test('rejects invalid requests', async () => {
+    const peer = new MockUploadPeer();
+    uploader.addPeer(peer as any);
+
+    const errors: string[] = [];
+    uploader.on('request_rejected', (event) => errors.push(event.error));
+
+    peer.simulateRequest(5, 0, 16384);        // Invalid piece index
+    peer.simulateRequest(0, 0, 0);            // Zero length
+    peer.simulateRequest(0, 0, 262144);       // Too large
+    peer.simulateRequest(0, 30000, 16384);    // Past end of piece
+    peer.simulateRequest(1, 0, 7232);         // Piece we don't have
+    await flush();
+
+    expect(errors).toHaveLength(5);
+    expect(errors[0]).toContain('Invalid piece index');
+    expect(errors[1]).toContain('Invalid request length');
+    expect(errors[2]).toContain('Invalid request length');
+    expect(errors[3]).toContain('out of bounds');
+    expect(errors[4]).toContain('not available');
+    expect(peer.sentPieces).toHaveLength(0);
+  });
+
+  test('honors cancel for queued requests', async () => {
+    const peer = new MockUploadPeer();
+    uploader.addPeer(peer as any);
+
+    peer.simulateRequest(0, 0, 16384);
+    peer.simulateRequest(0, 16384, 16384);
+    peer.simulateCancel(0, 16384, 16384);
+    await flush();
+    await flush();
+
+    expect(peer.sentPieces).toHaveLength(1);
+    expect(peer.sentPieces[0].begin).toBe(0);
+  });
+
+  test('drops queued requests when peer gets choked', async () => {
+    const peer = new MockUploadPeer();
+    uploader.addPeer(peer as any);
+
+    peer.simulateRequest(0, 0, 16384);
+    peer.peerChoked = true;
+    await flush();
+
+    expect(peer.sentPieces).toHaveLength(0);
+  });
+
+  test('emits upload errors on read failures', async () => {
+    const peer = new MockUploadPeer();
+    uploader.addPeer(peer as any);
+
+    storage.readBlock = jest.fn().mockRejectedValue(new Error('disk gone'));
+
+    const errorPromise = new Promise<any>((resolve) => uploader.once('upload_error', resolve));
+    peer.simulateRequest(0, 0, 16384);
+
+    const event = await errorPromise;
+    expect(event.error).toBeInstanceOf(UploadError);
+    expect(event.error.message).toContain('disk gone');
+  });
+
+  test('forgets peers on close', () => {
+    const peer = new MockUploadPeer();
+    uploader.addPeer(peer as any);
+    expect(uploader.getStats().activePeers).toBe(1);
+
+    peer.emit('close');
+    expect(uploader.getStats().activePeers).toBe(0);
+  });
+});
@@ -0,0 +1,246 @@
+import { EventEmitter } from 'events';
+import { PeerConnection, RequestMessage, CancelMessage } from './peer';
+import { TorrentMeta, Piece, getPieceMap } from './metainfo';
+import { TorrentStorage } from './storage';
+
+export class UploadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UploadError';
+  }
+}
+
+export interface UploadStats {
+  bytesUploaded: number;
+  uploadRate: number; // bytes per second
+  queuedRequests: number;
+  activePeers: number;
+}
+
+interface PeerUploadState {
+  queue: RequestMessage[];
+  serving: boolean;
+}
+
+export class UploadManager extends EventEmitter {
+  private static readonly MAX_REQUEST_LENGTH = 131072; // 128KB, larger requests are rejected
+  private static readonly MAX_QUEUED_REQUESTS = 250; // per peer
+
+  private readonly pieces: Piece[];
+  private readonly storage: TorrentStorage;
+
+  private readonly peerStates: Map<PeerConnection, PeerUploadState> = new Map();
+  private bytesUploaded = 0;
+  private uploadRateTracker: { timestamp: number; bytes: number }[] = [];
+
+  constructor(torrentMeta: TorrentMeta, storage: TorrentStorage) {
+    super();
+
+    this.pieces = getPieceMap(torrentMeta);
+    this.storage = storage;
+  }
+
+  addPeer(peer: PeerConnection): void {
+    if (this.peerStates.has(peer)) {
+      return;
+    }
+
+    this.peerStates.set(peer, { queue: [], serving: false });
+
+    peer.on('request', (request) => this.handleRequest(peer, request));
+    peer.on('cancel', (cancel) => this.handleCancel(peer, cancel));
+    peer.on('close', () => this.removePeer(peer));
+    peer.on('error', () => this.removePeer(peer));
+  }
+
+  removePeer(peer: PeerConnection): void {
+    this.peerStates.delete(peer);
+  }
+
+  // Drop queued requests, e.g. after we choke the peer
+  clearRequests(peer: PeerConnection): void {
+    const state = this.peerStates.get(peer);
+    if (state) {
+      state.queue = [];
+    }
+  }
+
+  private handleRequest(peer: PeerConnection, request: RequestMessage): void {
+    const state = this.peerStates.get(peer);
+    if (!state) {
+      return;
+    }
+
+    // Requests that race with our CHOKE are silently dropped
+    if (peer.getState().peerChoked) {
+      return;
+    }
+
+    const error = this.validateRequest(request);
+    if (error) {
+      this.emit('request_rejected', { peer, request, error });
+      return;
+    }
+
+    if (state.queue.length >= UploadManager.MAX_QUEUED_REQUESTS) {
+      this.emit('request_rejected', { peer, request, error: 'Request queue full' });
+      return;
+    }
+
+    // Ignore exact duplicates already waiting in the queue
+    if (state.queue.some((queued) => this.isSameRequest(queued, request))) {
+      return;
+    }
+
+    state.queue.push(request);
+    this.processQueue(peer, state);
+  }
+
+  private handleCancel(peer: PeerConnection, cancel: CancelMessage): void {
+    const state = this.peerStates.get(peer);
+    if (!state) {
+      return;
+    }
+
+    const before = state.queue.length;
+    state.queue = state.queue.filter((queued) => !this.isSameRequest(queued, cancel));
+
+    if (state.queue.length !== before) {
+      this.emit('request_cancelled', { peer, request: cancel });
+    }
+  }
+
+  private validateRequest(request: RequestMessage): string | undefined {
+    const piece = this.pieces[request.index];
+    if (!piece) {
+      return `Invalid piece index: ${request.index}`;
+    }
+
+    if (request.length <= 0 || request.length > UploadManager.MAX_REQUEST_LENGTH) {
+      return `Invalid request length: ${request.length}`;
+    }
+
+    if (request.begin < 0 || request.begin + request.length > piece.length) {
+      return `Request out of bounds for piece ${request.index}: ${request.begin}+${request.length}`;
+    }
+
+    if (!this.storage.hasPiece(request.index)) {
+      return `Piece ${request.index} not available`;
+    }
+
+    return undefined;
+  }
+
+  private async processQueue(peer: PeerConnection, state: PeerUploadState): Promise<void> {
+    if (state.serving) {
+      return;
+    }
+
+    state.serving = true;
+
+    try {
+      while (state.queue.length > 0 && this.peerStates.get(peer) === state) {
+        const request = state.queue[0];
+
+        let block: Buffer;
+        try {
+          block = await this.storage.readBlock(request.index, request.begin, request.length);
+        } catch (error) {
+          state.queue.shift();
+          this.emit('upload_error', {
+            peer,
+            request,
+            error: new UploadError(`Failed to read piece ${request.index}: ${error instanceof Error ? error.message : 'Unknown error'}`),
+          });
+          continue;
+        }
+
+        // The request may have been cancelled, or the peer choked, while we were reading
+        if (state.queue[0] !== request) {
+          continue;
+        }
+        state.queue.shift();
+
+        if (peer.getState().peerChoked || !peer.isConnected()) {
+          continue;
+        }
+
+        try {
+          await peer.sendPiece({ index: request.index, begin: request.begin, block });
+        } catch (error) {
+          this.emit('upload_error', {
+            peer,
+            request,
+            error: new UploadError(`Failed to send block: ${error instanceof Error ? error.message : 'Unknown error'}`),
+          });
+          continue;
+        }
+
+        this.bytesUploaded += block.length;
+        this.updateUploadRate(block.length);
+
+        this.emit('block_uploaded', {
+          peer,
+          pieceIndex: request.index,
+          begin: request.begin,
+          length: block.length,
+        });
+      }
+    } finally {
+      state.serving = false;
+    }
+  }
+
+  private isSameRequest(a: RequestMessage, b: RequestMessage): boolean {
+    return a.index === b.index && a.begin === b.begin && a.length === b.length;
+  }
+
+  private updateUploadRate(bytesSent: number): void {
+    const now = Date.now();
+    this.uploadRateTracker.push({ timestamp: now, bytes: bytesSent });
+
+    // Keep only last 30 seconds of data
+    const cutoff = now - 30000;
+    this.uploadRateTracker = this.uploadRateTracker.filter(entry => entry.timestamp > cutoff);
+  }
+
+  private calculateUploadRate(): number {
+    if (this.uploadRateTracker.length < 2) {
+      return 0;
+    }
+
+    const totalBytes = this.uploadRateTracker.reduce((sum, entry) => sum + entry.bytes, 0);
+    const timeSpan = this.uploadRateTracker[this.uploadRateTracker.length - 1].timestamp -
+                     this.uploadRateTracker[0].timestamp;
+
+    return timeSpan > 0 ? (totalBytes * 1000) / timeSpan : 0; // bytes per second
+  }
+
+  // Public API
+  getStats(): UploadStats {
+    let queuedRequests = 0;
+    for (const state of this.peerStates.values()) {
+      queuedRequests += state.queue.length;
+    }
+
+    return {
+      bytesUploaded: this.bytesUploaded,
+      uploadRate: this.calculateUploadRate(),
+      queuedRequests,
+      activePeers: this.peerStates.size,
+    };
+  }
+
+  getBytesUploaded(): number {
+    return this.bytesUploaded;
+  }
+
+  getQueuedRequests(peer: PeerConnection): number {
+    return this.peerStates.get(peer)?.queue.length ?? 0;
+  }
+
+  destroy(): void {
+    this.peerStates.clear();
+    this.removeAllListeners();
+  }
+}